@@ -0,0 +1,328 @@
+import * as React from 'react';
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import Sidebar from '@/components/Sidebar';
+import OfflineBanner from '@/components/OfflineBanner';
+import ActivityChart from '@/components/ActivityChart';
+import BreakdownChart from '@/components/BreakdownChart';
+import chatService, { Message, SessionAnalytics } from '@/services/chatService';
+
+const RANGE_FILTERS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+];
+
+const MESSAGE_TYPE_LABELS: Record<Message['messageType'], string> = {
+  text: 'Text',
+  voice: 'Voice',
+  image: 'Image',
+  multimodal: 'Image with text',
+  multimodal_response: 'Image answers',
+  system: 'System',
+};
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+export default function AnalyticsScreen() {
+  const { theme } = useTheme();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [rangeDays, setRangeDays] = useState(30);
+  const [analytics, setAnalytics] = useState<SessionAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Load the figures for the selected range
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const data = await chatService.getAnalytics({
+          from: new Date(Date.now() - rangeDays * 86400000).toISOString(),
+        });
+        if (!cancelled) {
+          setAnalytics(data);
+          setError(null);
+        }
+      } catch (loadError) {
+        console.error('Error loading analytics:', loadError);
+        if (!cancelled) {
+          setError('Could not load analytics. Pull down to try again.');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+          setRefreshing(false);
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeDays, reloadCount]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    setReloadCount(count => count + 1);
+  };
+
+  const renderStat = (label: string, value: string | number, icon: string) => (
+    <View style={[styles.statCard, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+      <Ionicons name={icon as any} size={20} color={theme.primary} />
+      <Text style={[styles.statValue, { color: theme.text }]}>{value}</Text>
+      <Text style={[styles.statLabel, { color: theme.textSecondary }]}>{label}</Text>
+    </View>
+  );
+
+  const renderSection = (title: string, children: React.ReactNode) => (
+    <View style={[styles.section, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+      <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>{title}</Text>
+      {children}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity
+          style={styles.menuButton}
+          onPress={() => setSidebarOpen(true)}
+        >
+          <Ionicons name="menu" size={24} color={theme.text} />
+        </TouchableOpacity>
+
+        <View style={styles.headerCenter}>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Analytics</Text>
+          <Text style={[styles.headerSubtitle, { color: theme.textSecondary }]}>
+            Your usage
+          </Text>
+        </View>
+
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <OfflineBanner onReconnect={handleRefresh} />
+
+      {/* Date range */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={[styles.filterBar, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}
+        contentContainerStyle={styles.filterBarContent}
+      >
+        {RANGE_FILTERS.map(filter => (
+          <TouchableOpacity
+            key={filter.days}
+            style={[
+              styles.filterChip,
+              { borderColor: theme.border },
+              rangeDays === filter.days && { backgroundColor: theme.primary, borderColor: theme.primary },
+            ]}
+            onPress={() => setRangeDays(filter.days)}
+          >
+            <Text style={[styles.filterChipText, { color: rangeDays === filter.days ? 'white' : theme.text }]}>
+              {filter.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {/* Content */}
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            colors={[theme.primary]}
+            tintColor={theme.primary}
+          />
+        }
+      >
+        {loading && !analytics ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={theme.primary} />
+          </View>
+        ) : error && !analytics ? (
+          <View style={styles.centered}>
+            <Ionicons name="bar-chart-outline" size={48} color={theme.textSecondary} />
+            <Text style={[styles.message, { color: theme.textSecondary }]}>{error}</Text>
+          </View>
+        ) : analytics && (
+          <>
+            <View style={styles.statsGrid}>
+              {renderStat('Conversations', analytics.totals.sessions, 'chatbubbles-outline')}
+              {renderStat('Your messages', analytics.totals.userMessages, 'person-outline')}
+              {renderStat('Avg response', formatDuration(analytics.processingTime.average), 'timer-outline')}
+              {renderStat('95th percentile', formatDuration(analytics.processingTime.p95), 'speedometer-outline')}
+            </View>
+
+            {renderSection('Activity', <ActivityChart activity={analytics.activity} />)}
+
+            {renderSection('Message types', (
+              <BreakdownChart
+                items={analytics.messageTypes.map(({ type, count }) => ({
+                  key: type,
+                  label: MESSAGE_TYPE_LABELS[type] || type,
+                  count,
+                }))}
+              />
+            ))}
+
+            {renderSection('Models', (
+              <BreakdownChart
+                items={analytics.models.map(({ model, provider, count, averageProcessingTime }) => ({
+                  key: model,
+                  label: provider ? `${model} (${provider})` : model,
+                  count,
+                  detail: `Avg response ${formatDuration(averageProcessingTime)}`,
+                }))}
+                emptyText="No AI replies in this period"
+              />
+            ))}
+
+            {renderSection('Prompt templates', (
+              <BreakdownChart
+                items={analytics.templates.map(({ id, name, category, count }) => ({
+                  key: id,
+                  label: name,
+                  count,
+                  detail: category,
+                }))}
+                emptyText="No templates used in this period"
+              />
+            ))}
+          </>
+        )}
+      </ScrollView>
+
+      {/* Sidebar */}
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+        currentTab="analytics"
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  menuButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  headerSubtitle: {
+    fontSize: 12,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  filterBar: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+  },
+  filterBarContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+  },
+  filterChipText: {
+    fontSize: 13,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 100,
+  },
+  message: {
+    fontSize: 16,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  statCard: {
+    width: '48%',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  statLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 12,
+  },
+});
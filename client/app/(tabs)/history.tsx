@@ -18,12 +18,26 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useChat } from '@/contexts/ChatContext';
 import Sidebar from '@/components/Sidebar';
-import chatService, { ChatSession } from '@/services/chatService';
+import OfflineBanner from '@/components/OfflineBanner';
+import chatService, { ChatSession, SearchFilters, SearchResult } from '@/services/chatService';
+
+const TYPE_FILTERS: { key: SearchFilters['type']; label: string }[] = [
+  { key: undefined, label: 'All' },
+  { key: 'text', label: 'Text' },
+  { key: 'voice', label: 'Voice' },
+  { key: 'image', label: 'Images' },
+];
+
+const DATE_FILTERS = [
+  { days: 0, label: 'Any time' },
+  { days: 7, label: 'Past week' },
+  { days: 30, label: 'Past month' },
+];
 
 export default function HistoryScreen() {
   const { theme, isDark } = useTheme();
   const { user } = useAuth();
-  const { setSelectedSessionId, setShouldLoadSpecificSession } = useChat();
+  const { setSelectedSessionId, setShouldLoadSpecificSession, setTargetMessageId } = useChat();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [filteredSessions, setFilteredSessions] = useState<ChatSession[]>([]);
@@ -31,6 +45,10 @@ export default function HistoryScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
+  const [messageResults, setMessageResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<SearchFilters['type']>(undefined);
+  const [dateFilterDays, setDateFilterDays] = useState(0);
 
   // Load chat sessions on component mount
   useEffect(() => {
@@ -49,6 +67,40 @@ export default function HistoryScreen() {
     }
   }, [sessions, searchQuery]);
 
+  // Search message content on the server once the user stops typing
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < 2) {
+      setMessageResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const { results } = await chatService.searchMessages(query, {
+          type: typeFilter,
+          from: dateFilterDays ? new Date(Date.now() - dateFilterDays * 86400000).toISOString() : undefined,
+        });
+        if (!cancelled) {
+          setMessageResults(results);
+        }
+      } catch (error) {
+        console.error('Error searching messages:', error);
+      } finally {
+        if (!cancelled) {
+          setSearching(false);
+        }
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, typeFilter, dateFilterDays]);
+
   const loadChatSessions = async () => {
     try {
       setLoading(true);
@@ -75,6 +127,37 @@ export default function HistoryScreen() {
     router.push('/(tabs)');
   };
 
+  // Open the conversation scrolled to the matching message
+  const handleSearchResultPress = (result: SearchResult) => {
+    setSelectedSessionId(result.sessionId);
+    setTargetMessageId(result.messageId);
+    setShouldLoadSpecificSession(true);
+    router.push('/(tabs)');
+  };
+
+  const renderSnippet = (result: SearchResult) => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    result.highlights.forEach((highlight, index) => {
+      if (highlight.start > position) {
+        parts.push(result.snippet.slice(position, highlight.start));
+      }
+      parts.push(
+        <Text key={index} style={[styles.highlight, { color: theme.primary }]}>
+          {result.snippet.slice(highlight.start, highlight.end)}
+        </Text>
+      );
+      position = highlight.end;
+    });
+    parts.push(result.snippet.slice(position));
+
+    return (
+      <Text style={[styles.conversationPreview, { color: theme.text }]} numberOfLines={3}>
+        {parts}
+      </Text>
+    );
+  };
+
   const handleDeleteSession = async (session: ChatSession) => {
     Alert.alert(
       'Delete Conversation',
@@ -144,6 +227,8 @@ export default function HistoryScreen() {
         </TouchableOpacity>
       </View>
 
+      <OfflineBanner onReconnect={loadChatSessions} />
+
       {/* Search Bar */}
       {showSearch && (
         <View style={[styles.searchContainer, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
@@ -167,6 +252,47 @@ export default function HistoryScreen() {
         </View>
       )}
 
+      {/* Search Filters */}
+      {showSearch && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={[styles.filterBar, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}
+          contentContainerStyle={styles.filterBarContent}
+        >
+          {TYPE_FILTERS.map(filter => (
+            <TouchableOpacity
+              key={filter.label}
+              style={[
+                styles.filterChip,
+                { borderColor: theme.border },
+                typeFilter === filter.key && { backgroundColor: theme.primary, borderColor: theme.primary },
+              ]}
+              onPress={() => setTypeFilter(filter.key)}
+            >
+              <Text style={[styles.filterChipText, { color: typeFilter === filter.key ? 'white' : theme.text }]}>
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {DATE_FILTERS.map(filter => (
+            <TouchableOpacity
+              key={filter.label}
+              style={[
+                styles.filterChip,
+                { borderColor: theme.border },
+                dateFilterDays === filter.days && { backgroundColor: theme.primary, borderColor: theme.primary },
+              ]}
+              onPress={() => setDateFilterDays(filter.days)}
+            >
+              <Text style={[styles.filterChipText, { color: dateFilterDays === filter.days ? 'white' : theme.text }]}>
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
       {/* Content */}
       <ScrollView 
         style={styles.content} 
@@ -187,7 +313,7 @@ export default function HistoryScreen() {
               Loading conversations...
             </Text>
           </View>
-        ) : filteredSessions.length === 0 ? (
+        ) : filteredSessions.length === 0 && messageResults.length === 0 && !searching ? (
           <View style={styles.emptyState}>
             <View style={[styles.emptyIcon, { backgroundColor: theme.primary + '20' }]}>
               <Ionicons name={searchQuery ? "search" : "time-outline"} size={48} color={theme.primary} />
@@ -196,11 +322,59 @@ export default function HistoryScreen() {
               {searchQuery ? 'No results found' : 'No conversations yet'}
             </Text>
             <Text style={[styles.emptySubtitle, { color: theme.textSecondary }]}>
-              {searchQuery ? `No conversations match "${searchQuery}"` : 'Start chatting to see your history here'}
+              {searchQuery ? `No conversations or messages match "${searchQuery}"` : 'Start chatting to see your history here'}
             </Text>
           </View>
         ) : (
           <View style={styles.conversationList}>
+            {/* Message hits from the server search */}
+            {searchQuery.trim().length >= 2 && (
+              <>
+                <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+                  Messages
+                </Text>
+                {searching && messageResults.length === 0 ? (
+                  <ActivityIndicator style={styles.searchingIndicator} color={theme.primary} />
+                ) : messageResults.length === 0 ? (
+                  <Text style={[styles.conversationTime, { color: theme.textSecondary }]}>
+                    No messages found
+                  </Text>
+                ) : (
+                  messageResults.map((result) => (
+                    <TouchableOpacity
+                      key={result.messageId}
+                      style={[styles.conversationItem, { backgroundColor: theme.surface, borderColor: theme.border }]}
+                      onPress={() => handleSearchResultPress(result)}
+                    >
+                      <View style={styles.conversationContent}>
+                        <View style={styles.conversationHeader}>
+                          <Ionicons
+                            name={result.isUserMessage ? 'person-outline' : 'sparkles-outline'}
+                            size={14}
+                            color={theme.textSecondary}
+                          />
+                          <Text style={[styles.resultSessionTitle, { color: theme.textSecondary }]} numberOfLines={1}>
+                            {result.sessionTitle}
+                          </Text>
+                        </View>
+                        {renderSnippet(result)}
+                        <Text style={[styles.conversationTime, { color: theme.textSecondary }]}>
+                          {formatDate(result.createdAt)}
+                          {result.aiModel ? ` • ${result.aiModel}` : ''}
+                          {result.promptTemplate ? ` • ${result.promptTemplate}` : ''}
+                        </Text>
+                      </View>
+                      <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
+                    </TouchableOpacity>
+                  ))
+                )}
+                {filteredSessions.length > 0 && (
+                  <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+                    Conversations
+                  </Text>
+                )}
+              </>
+            )}
             {filteredSessions.map((session) => (
               <TouchableOpacity
                 key={session._id}
@@ -364,4 +538,40 @@ const styles = StyleSheet.create({
     padding: 4,
     marginLeft: 8,
   },
+  filterBar: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+  },
+  filterBarContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+  },
+  filterChipText: {
+    fontSize: 13,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  searchingIndicator: {
+    marginVertical: 16,
+  },
+  resultSessionTitle: {
+    fontSize: 13,
+    flex: 1,
+    marginLeft: 6,
+  },
+  highlight: {
+    fontWeight: 'bold',
+  },
 });
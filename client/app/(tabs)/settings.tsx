@@ -13,6 +13,24 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import Sidebar from '@/components/Sidebar';
+import userService, { UserPreferences } from '@/services/userService';
+
+// Languages offered in settings; the server accepts any BCP-47 code
+const LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Español' },
+  { code: 'fr', name: 'Français' },
+  { code: 'de', name: 'Deutsch' },
+  { code: 'it', name: 'Italiano' },
+  { code: 'pt', name: 'Português' },
+  { code: 'nl', name: 'Nederlands' },
+  { code: 'ru', name: 'Русский' },
+  { code: 'ar', name: 'العربية' },
+  { code: 'hi', name: 'हिन्दी' },
+  { code: 'zh', name: '中文' },
+  { code: 'ja', name: '日本語' },
+  { code: 'ko', name: '한국어' },
+];
 
 export default function SettingsScreen() {
   const { theme, isDark, toggleTheme } = useTheme();
@@ -20,6 +38,35 @@ export default function SettingsScreen() {
   const [sidebarOpen, setSidebarOpen] = React.useState(false);
   const [notifications, setNotifications] = React.useState(true);
   const [voiceRecognition, setVoiceRecognition] = React.useState(true);
+  const [preferences, setPreferences] = React.useState<UserPreferences>({ languages: [], replyLanguage: null });
+
+  React.useEffect(() => {
+    userService.getPreferences()
+      .then(setPreferences)
+      .catch(() => {
+        // Keep the defaults; the server falls back to detection
+      });
+  }, []);
+
+  const savePreferences = async (changes: Partial<UserPreferences>) => {
+    const previous = preferences;
+    setPreferences({ ...preferences, ...changes });
+    try {
+      setPreferences(await userService.updatePreferences(changes));
+    } catch {
+      setPreferences(previous);
+      Alert.alert('Error', 'Failed to save language preferences');
+    }
+  };
+
+  // Preferred languages help recognize speech; the first one is the fallback
+  // reply language when a message's language cannot be detected
+  const toggleLanguage = (code: string) => {
+    const languages = preferences.languages.includes(code)
+      ? preferences.languages.filter(language => language !== code)
+      : [...preferences.languages, code];
+    savePreferences({ languages });
+  };
 
   const settingsItems = [
     {
@@ -149,6 +196,53 @@ export default function SettingsScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Language */}
+        <View style={[styles.languageSection, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+          <Text style={[styles.settingTitle, { color: theme.text }]}>Languages I speak</Text>
+          <Text style={[styles.settingSubtitle, { color: theme.textSecondary }]}>
+            Used to recognize your voice messages
+          </Text>
+          <View style={styles.chipRow}>
+            {LANGUAGES.map(language => {
+              const selected = preferences.languages.includes(language.code);
+              return (
+                <TouchableOpacity
+                  key={language.code}
+                  style={[
+                    styles.chip,
+                    { borderColor: selected ? theme.primary : theme.border, backgroundColor: selected ? theme.primary + '20' : 'transparent' },
+                  ]}
+                  onPress={() => toggleLanguage(language.code)}
+                >
+                  <Text style={[styles.chipText, { color: selected ? theme.primary : theme.text }]}>{language.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={[styles.settingTitle, styles.languageHeading, { color: theme.text }]}>Reply language</Text>
+          <Text style={[styles.settingSubtitle, { color: theme.textSecondary }]}>
+            Replies are written and read aloud in this language
+          </Text>
+          <View style={styles.chipRow}>
+            {[{ code: null, name: 'Match my language' }, ...LANGUAGES].map(language => {
+              const selected = preferences.replyLanguage === language.code;
+              return (
+                <TouchableOpacity
+                  key={language.code || 'auto'}
+                  style={[
+                    styles.chip,
+                    { borderColor: selected ? theme.primary : theme.border, backgroundColor: selected ? theme.primary + '20' : 'transparent' },
+                  ]}
+                  onPress={() => savePreferences({ replyLanguage: language.code })}
+                >
+                  <Text style={[styles.chipText, { color: selected ? theme.primary : theme.text }]}>{language.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
         {/* Settings Items */}
         <View style={styles.settingsSection}>
           {settingsItems.map(renderSettingItem)}
@@ -235,6 +329,31 @@ const styles = StyleSheet.create({
   settingsSection: {
     marginBottom: 32,
   },
+  languageSection: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+  },
+  languageHeading: {
+    marginTop: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
   settingItem: {
     flexDirection: 'row',
     alignItems: 'center',
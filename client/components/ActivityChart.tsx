@@ -0,0 +1,116 @@
+import * as React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { SessionAnalytics } from '@/services/chatService';
+
+interface ActivityChartProps {
+  activity: SessionAnalytics['activity'];
+  height?: number;
+}
+
+// "2024-05-01" -> "May 1", "2024-W18" -> "W18", "2024-05" -> "May"
+const formatPeriod = (period: string) => {
+  if (period.includes('W')) return period.split('-')[1];
+  const [year, month, day] = period.split('-').map(Number);
+  const date = new Date(year, month - 1, day || 1);
+  return day
+    ? date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+    : date.toLocaleDateString([], { month: 'short' });
+};
+
+// Stacked bars of the user's messages and AI replies per period
+export default function ActivityChart({ activity, height = 140 }: ActivityChartProps) {
+  const { theme } = useTheme();
+  const max = Math.max(1, ...activity.map(bucket => bucket.userMessages + bucket.aiMessages));
+
+  // Label the first, middle and last bars so the axis stays readable
+  const labelled = new Set([0, Math.floor((activity.length - 1) / 2), activity.length - 1]);
+
+  return (
+    <View>
+      <View style={styles.chartRow}>
+        <View style={[styles.axis, { height }]}>
+          <Text style={[styles.axisText, { color: theme.textSecondary }]}>{max}</Text>
+          <Text style={[styles.axisText, { color: theme.textSecondary }]}>0</Text>
+        </View>
+        <View style={[styles.bars, { height, borderBottomColor: theme.border }]}>
+          {activity.map(bucket => (
+            <View key={bucket.period} style={styles.barSlot}>
+              <View style={[styles.barSegment, { height: (bucket.aiMessages / max) * height, backgroundColor: theme.success }]} />
+              <View style={[styles.barSegment, { height: (bucket.userMessages / max) * height, backgroundColor: theme.primary }]} />
+            </View>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.labels}>
+        {activity.map((bucket, index) => (
+          <Text key={bucket.period} numberOfLines={1} style={[styles.label, { color: theme.textSecondary }]}>
+            {labelled.has(index) ? formatPeriod(bucket.period) : ''}
+          </Text>
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        <View style={[styles.legendSwatch, { backgroundColor: theme.primary }]} />
+        <Text style={[styles.legendText, { color: theme.textSecondary }]}>Your messages</Text>
+        <View style={[styles.legendSwatch, { backgroundColor: theme.success }]} />
+        <Text style={[styles.legendText, { color: theme.textSecondary }]}>AI replies</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chartRow: {
+    flexDirection: 'row',
+  },
+  axis: {
+    justifyContent: 'space-between',
+    marginRight: 6,
+  },
+  axisText: {
+    fontSize: 10,
+  },
+  bars: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    borderBottomWidth: 1,
+  },
+  barSlot: {
+    flex: 1,
+    marginHorizontal: 1,
+    justifyContent: 'flex-end',
+  },
+  barSegment: {
+    width: '100%',
+    borderRadius: 2,
+  },
+  labels: {
+    flexDirection: 'row',
+    marginTop: 4,
+    marginLeft: 20,
+  },
+  label: {
+    flex: 1,
+    fontSize: 10,
+    textAlign: 'center',
+    overflow: 'visible',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    marginRight: 12,
+  },
+});
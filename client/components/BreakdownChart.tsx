@@ -0,0 +1,81 @@
+import * as React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+
+export interface BreakdownItem {
+  key: string;
+  label: string;
+  count: number;
+  detail?: string;
+}
+
+interface BreakdownChartProps {
+  items: BreakdownItem[];
+  emptyText?: string;
+}
+
+// Horizontal bars comparing counts, largest first
+export default function BreakdownChart({ items, emptyText = 'No data for this period' }: BreakdownChartProps) {
+  const { theme } = useTheme();
+  const max = Math.max(1, ...items.map(item => item.count));
+
+  if (items.length === 0) {
+    return <Text style={[styles.emptyText, { color: theme.textSecondary }]}>{emptyText}</Text>;
+  }
+
+  return (
+    <View>
+      {items.map(item => (
+        <View key={item.key} style={styles.row}>
+          <View style={styles.rowHeader}>
+            <Text numberOfLines={1} style={[styles.label, { color: theme.text }]}>{item.label}</Text>
+            <Text style={[styles.count, { color: theme.textSecondary }]}>{item.count}</Text>
+          </View>
+          <View style={[styles.track, { backgroundColor: theme.border }]}>
+            <View style={[styles.fill, { width: `${(item.count / max) * 100}%`, backgroundColor: theme.primary }]} />
+          </View>
+          {item.detail && (
+            <Text style={[styles.detail, { color: theme.textSecondary }]}>{item.detail}</Text>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    marginBottom: 12,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    marginRight: 8,
+  },
+  count: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  detail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    paddingVertical: 8,
+  },
+});
@@ -13,6 +13,10 @@ import {
   Animated,
   Image,
   ActionSheetIOS,
+  ActivityIndicator,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+  LayoutChangeEvent,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -22,36 +26,96 @@ import * as Speech from 'expo-speech';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useChat } from '@/contexts/ChatContext';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useDictation, WAVEFORM_BARS } from '@/hooks/useDictation';
 import Sidebar from '@/components/Sidebar';
 import PromptTemplateSelector from '@/components/PromptTemplateSelector';
-import chatService, { ChatSession, Message } from '@/services/chatService';
-import { PromptTemplate } from '@/services/promptTemplateService';
-import { getApiBaseUrl } from '@/config/network';
+import ModelSelector from '@/components/ModelSelector';
+import TalkMode from '@/components/TalkMode';
+import HoldToTalkButton from '@/components/HoldToTalkButton';
+import VoiceTranscript from '@/components/VoiceTranscript';
+import ImageGallery from '@/components/ImageGallery';
+import OfflineBanner from '@/components/OfflineBanner';
+import chatService, { AltTextPackage, ChatSession, Message, MessageMode, MessageStream, RegenerateOptions, SessionHistory } from '@/services/chatService';
+import connectivity from '@/services/connectivity';
+import outbox, { OutboxAttachment, OutboxItem, createIdempotencyKey } from '@/services/outbox';
+import { PromptTemplate, TemplateVariableValues } from '@/services/promptTemplateService';
 
-const API_BASE_URL = getApiBaseUrl();
+// What text-to-speech reads for an image in accessibility mode; hazards come early
+const describeForSpeech = (altText: AltTextPackage) => [
+  altText.altText,
+  ...altText.hazards.map(hazard => `Caution: ${hazard.description}`),
+  altText.longDescription,
+  altText.detectedText && `Text in the image: ${altText.detectedText}`,
+].filter(Boolean).join('. ');
+
+// Matches the server's limit per message
+const MAX_IMAGES = 6;
+
+// Answers to images other than a normal reply; at most one applies
+const IMAGE_MODES: { mode: MessageMode; title: string; detail: string }[] = [
+  { mode: 'accessibility', title: 'Accessibility description', detail: 'alt text, hazards, text in image' },
+  { mode: 'ocr', title: 'Extract text', detail: 'receipts, signs, slides, screenshots' },
+];
+
+// 0:07, 1:23
+const formatRecordingTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 
 export default function ChatScreen() {
   const { theme, isDark } = useTheme();
   const { user } = useAuth();
-  const { selectedSessionId, shouldLoadSpecificSession, setShouldLoadSpecificSession } = useChat();
+  const {
+    selectedSessionId,
+    shouldLoadSpecificSession,
+    setShouldLoadSpecificSession,
+    targetMessageId,
+    setTargetMessageId,
+  } = useChat();
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const [isRecording, setIsRecording] = useState(false);
   const [currentSession, setCurrentSession] = useState<ChatSession | null>(null);
   const [loading, setLoading] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<ImagePicker.ImagePickerAsset | null>(null);
-  const [recording, setRecording] = useState<Audio.Recording | null>(null);
-  const [recordingUri, setRecordingUri] = useState<string | null>(null);
+  const [selectedImages, setSelectedImages] = useState<ImagePicker.ImagePickerAsset[]>([]);
   const [isPlayingTTS, setIsPlayingTTS] = useState(false);
-  const [recordingDuration, setRecordingDuration] = useState(0);
+  const [cancellingDictation, setCancellingDictation] = useState(false);
+  const [talkModeVisible, setTalkModeVisible] = useState(false);
   const [playingAudio, setPlayingAudio] = useState<{ [key: string]: Audio.Sound }>({});
   const [playingMessageId, setPlayingMessageId] = useState<string | null>(null);
+  const [playbackPosition, setPlaybackPosition] = useState<{ messageId: string; seconds: number } | null>(null);
   const [showTemplateSelector, setShowTemplateSelector] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<PromptTemplate | null>(null);
+  // Values filled in for the selected template's variables
+  const [templateVariables, setTemplateVariables] = useState<TemplateVariableValues | undefined>(undefined);
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
+  const activeStreamRef = useRef<MessageStream | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [regeneratingMessageId, setRegeneratingMessageId] = useState<string | null>(null);
+  const [modelSelectorMessage, setModelSelectorMessage] = useState<Message | null>(null);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [hasNewerMessages, setHasNewerMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  const [imageMode, setImageMode] = useState<MessageMode | null>(null);
+  const online = useOnlineStatus();
+  const dictation = useDictation();
+  const dictationStartRef = useRef<Promise<boolean> | null>(null);
+  const loadingOlderRef = useRef(false);
+  const loadingNewerRef = useRef(false);
+  const prependingRef = useRef(false);
+  // Whether new content scrolls the list to the end; off while viewing a search hit
+  const followLatestRef = useRef(true);
+  const scrollTargetRef = useRef<string | null>(null);
+  const scrollOffsetRef = useRef(0);
+  const contentHeightRef = useRef(0);
   const scrollViewRef = useRef<ScrollView>(null);
   const pulseAnim = useRef(new Animated.Value(1)).current;
+  const ttsSoundRef = useRef<Audio.Sound | null>(null);
+  // Bumped whenever speech stops, so audio still being generated is not played
+  const ttsRequestRef = useRef(0);
 
   // Initialize chat session
   useEffect(() => {
@@ -63,10 +127,25 @@ export default function ChatScreen() {
   // Handle specific session loading from history
   useEffect(() => {
     if (shouldLoadSpecificSession && selectedSessionId) {
-      loadSpecificSession(selectedSessionId);
+      loadSpecificSession(selectedSessionId, targetMessageId);
       setShouldLoadSpecificSession(false);
+      setTargetMessageId(null);
     }
-  }, [shouldLoadSpecificSession, selectedSessionId]);
+  }, [shouldLoadSpecificSession, selectedSessionId, targetMessageId, setShouldLoadSpecificSession, setTargetMessageId]);
+
+  // Sends waiting in the outbox are shown at the end of their conversation
+  useEffect(() => outbox.subscribe(setOutboxItems), []);
+
+  const currentSessionId = currentSession?._id;
+  useEffect(() => outbox.onDelivered((item, { userMessage, aiResponse }) => {
+    if (item.sessionId === currentSessionId) {
+      setMessages(prev => [
+        ...prev.filter(message => message._id !== userMessage._id && message._id !== aiResponse._id),
+        userMessage,
+        aiResponse,
+      ]);
+    }
+  }), [currentSessionId]);
 
   const initializeChat = async () => {
     try {
@@ -80,11 +159,15 @@ export default function ChatScreen() {
         const sessionData = await chatService.getSession(latestSession._id);
         setCurrentSession(sessionData.session);
         setMessages(sessionData.messages);
+        setHasOlderMessages(sessionData.pagination.hasOlder);
+        setHasNewerMessages(false);
       } else {
         // Create a new session
         const newSession = await chatService.createSession();
         setCurrentSession(newSession);
         setMessages([]);
+        setHasOlderMessages(false);
+        setHasNewerMessages(false);
       }
     } catch (error) {
       console.error('Error initializing chat:', error);
@@ -94,12 +177,28 @@ export default function ChatScreen() {
     }
   };
 
-  const loadSpecificSession = async (sessionId: string) => {
+  const loadSpecificSession = async (sessionId: string, messageId?: string | null) => {
     try {
       setLoading(true);
       const sessionData = await chatService.getSession(sessionId);
       setCurrentSession(sessionData.session);
-      setMessages(sessionData.messages);
+
+      if (messageId) {
+        // Open the branch containing the message and the page around it
+        await chatService.switchBranch(sessionId, messageId);
+        const page = await chatService.getMessages(sessionId, { around: messageId });
+        followLatestRef.current = false;
+        scrollTargetRef.current = messageId;
+        setHighlightedMessageId(messageId);
+        setMessages(page.messages);
+        setHasOlderMessages(page.pagination.hasOlder);
+        setHasNewerMessages(page.pagination.hasNewer);
+      } else {
+        followLatestRef.current = true;
+        setMessages(sessionData.messages);
+        setHasOlderMessages(sessionData.pagination.hasOlder);
+        setHasNewerMessages(false);
+      }
     } catch (error) {
       console.error('Error loading specific session:', error);
       Alert.alert('Error', 'Failed to load conversation. Please try again.');
@@ -108,12 +207,89 @@ export default function ChatScreen() {
     }
   };
 
+  // Show the newest page of a session; older messages load on scroll
+  const showHistory = (sessionData: SessionHistory) => {
+    followLatestRef.current = true;
+    setMessages(sessionData.messages);
+    setHasOlderMessages(sessionData.pagination.hasOlder);
+    setHasNewerMessages(false);
+  };
+
+  const loadOlderMessages = async () => {
+    if (!currentSession || !hasOlderMessages || loadingOlderRef.current || messages.length === 0) return;
+
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const page = await chatService.getMessages(currentSession._id, { before: messages[0]._id });
+      prependingRef.current = true;
+      setMessages(prev => [...page.messages, ...prev]);
+      setHasOlderMessages(page.pagination.hasOlder);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  };
+
+  // After jumping to a search hit, the rest of the conversation loads as the user scrolls down
+  const loadNewerMessages = async () => {
+    if (!currentSession || !hasNewerMessages || loadingNewerRef.current || messages.length === 0) return;
+
+    loadingNewerRef.current = true;
+    try {
+      const page = await chatService.getMessages(currentSession._id, { after: messages[messages.length - 1]._id });
+      setMessages(prev => [...prev, ...page.messages]);
+      setHasNewerMessages(page.pagination.hasNewer);
+    } catch (error) {
+      console.error('Error loading newer messages:', error);
+    } finally {
+      loadingNewerRef.current = false;
+    }
+  };
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+    scrollOffsetRef.current = contentOffset.y;
+    if (contentOffset.y < 80) {
+      loadOlderMessages();
+    } else if (contentOffset.y + layoutMeasurement.height > contentSize.height - 80) {
+      loadNewerMessages();
+    }
+  };
+
+  // Scroll a deep-linked message into view once it has been laid out
+  const handleMessageLayout = (messageId: string, event: LayoutChangeEvent) => {
+    if (scrollTargetRef.current !== messageId) return;
+
+    scrollTargetRef.current = null;
+    scrollViewRef.current?.scrollTo({ y: Math.max(event.nativeEvent.layout.y - 16, 0), animated: false });
+    setTimeout(() => setHighlightedMessageId(null), 3000);
+  };
+
+  const handleContentSizeChange = (_width: number, height: number) => {
+    if (prependingRef.current) {
+      // Keep the messages being read in place when older ones are added above
+      prependingRef.current = false;
+      scrollViewRef.current?.scrollTo({
+        y: height - contentHeightRef.current + scrollOffsetRef.current,
+        animated: false,
+      });
+    } else if (followLatestRef.current) {
+      scrollViewRef.current?.scrollToEnd({ animated: true });
+    }
+    contentHeightRef.current = height;
+  };
+
   const createNewChat = async () => {
     try {
       setLoading(true);
       const newSession = await chatService.createSession();
       setCurrentSession(newSession);
       setMessages([]);
+      setHasOlderMessages(false);
+      setHasNewerMessages(false);
     } catch (error) {
       console.error('Error creating new chat:', error);
       Alert.alert('Error', 'Failed to create new chat. Please try again.');
@@ -122,6 +298,8 @@ export default function ChatScreen() {
     }
   };
 
+  const isRecording = dictation.status === 'recording';
+
   // Pulse animation for recording
   useEffect(() => {
     if (isRecording) {
@@ -145,6 +323,15 @@ export default function ChatScreen() {
     }
   }, [isRecording]);
 
+  // Stop server speech on unmount
+  useEffect(() => {
+    return () => {
+      ttsSoundRef.current?.unloadAsync().catch(error => {
+        console.log('Error unloading speech:', error);
+      });
+    };
+  }, []);
+
   // Clean up audio on unmount
   useEffect(() => {
     return () => {
@@ -158,131 +345,350 @@ export default function ChatScreen() {
     };
   }, [playingAudio]);
 
-  const sendMessage = async (text: string, imageAsset?: ImagePicker.ImagePickerAsset | null) => {
-    if ((!text.trim() && !imageAsset) || !currentSession) return;
+  const sendMessage = async (text: string, images: ImagePicker.ImagePickerAsset[] = selectedImages) => {
+    if ((!text.trim() && images.length === 0) || !currentSession) return;
 
     const messageText = text.trim();
-    const imageToSend = imageAsset || selectedImage;
+    const mode: MessageMode | undefined = images.length > 0 && imageMode ? imageMode : undefined;
+    const idempotencyKey = createIdempotencyKey();
     
     setInputText('');
-    setSelectedImage(null); // Clear selected image
+    setSelectedImages([]);
+
+    // Keep the message in the outbox until the server can be reached
+    const queueMessage = () => outbox.enqueue({
+      sessionId: currentSession._id,
+      content: messageText,
+      promptTemplateId: selectedTemplate?._id,
+      templateVariables,
+      mode,
+      images: images.length > 0 ? images.map(toAttachment) : undefined,
+    }, idempotencyKey);
+
+    if (!connectivity.isOnline()) {
+      followLatestRef.current = true;
+      await queueMessage();
+      return;
+    }
+
     setIsTyping(true);
+    setStreamingContent('');
+
+    // Jump back to the end of the conversation before adding to it
+    followLatestRef.current = true;
+    if (hasNewerMessages) {
+      try {
+        showHistory(await chatService.getSession(currentSession._id));
+      } catch (error) {
+        console.error('Error loading latest messages:', error);
+      }
+    }
+
+    // Stream the reply into a provisional bubble as tokens arrive
+    let partialContent = '';
+    let sentMessage: Message | null = null;
+    const stream = chatService.streamMessage(
+      currentSession._id,
+      messageText,
+      {
+        onUserMessage: (userMessage) => {
+          sentMessage = userMessage;
+          // Accessibility mode sends the message again once its alt text is ready
+          setMessages(prev => prev.some(message => message._id === userMessage._id)
+            ? prev.map(message => message._id === userMessage._id ? userMessage : message)
+            : [...prev, userMessage]);
+        },
+        onToken: (delta) => {
+          partialContent += delta;
+          setIsTyping(false);
+          setStreamingContent(partialContent);
+        },
+        onAiMessage: (aiResponse) => {
+          setStreamingContent(null);
+          setMessages(prev => [...prev, aiResponse]);
+        },
+        onError: (error) => {
+          console.warn('Streaming error:', error);
+        },
+      },
+      {
+        images,
+        promptTemplateId: selectedTemplate?._id,
+        templateVariables,
+        idempotencyKey,
+        mode,
+      }
+    );
+    activeStreamRef.current = stream;
 
     try {
-      let response;
-      
-      if (imageToSend) {
-        // Send message with image
-        response = await chatService.sendMessageWithImage(
-          currentSession._id, 
-          messageText || '', 
-          imageToSend,
-          selectedTemplate?._id
-        );
-      } else {
-        // Send text-only message
-        response = await chatService.sendMessage(
-          currentSession._id, 
-          messageText,
-          selectedTemplate?._id
-        );
+      const result = await stream.done;
+
+      // The server keeps what was generated before the user pressed Stop;
+      // show the same partial answer locally until the session is reloaded
+      if (result.cancelled && partialContent.trim()) {
+        setMessages(prev => [...prev, buildLocalAiMessage(partialContent, 'cancelled')]);
       }
       
-      // Add both user message and AI response to the messages array
-      setMessages(prev => [...prev, response.userMessage, response.aiResponse]);
-      
-      // Update session title if it's the first message
-      if (messages.length === 0) {
-        // Refresh session data to get updated title
+      // Update session title if it's the first message, and pick up the
+      // images follow-up questions will now be about
+      if ((messages.length === 0 || images.length > 0) && !result.cancelled) {
+        // Refresh session data to get updated title and image context
         const sessionData = await chatService.getSession(currentSession._id);
         setCurrentSession(sessionData.session);
       }
     } catch (error) {
       console.error('Error sending message:', error);
-      Alert.alert('Error', 'Failed to send message. Please try again.');
+      if (!connectivity.isOnline()) {
+        // The connection dropped; the outbox finishes the send (or fetches
+        // the reply to a message that did arrive) once it is back
+        const arrived = sentMessage as Message | null;
+        if (arrived) {
+          setMessages(prev => prev.filter(message => message._id !== arrived._id));
+        }
+        await queueMessage();
+      } else {
+        Alert.alert('Error', 'Failed to send message. Please try again.');
+      }
     } finally {
+      activeStreamRef.current = null;
+      setStreamingContent(null);
       setIsTyping(false);
     }
   };
 
-  const handleVoiceRecord = async () => {
+  const toAttachment = (asset: ImagePicker.ImagePickerAsset, index: number): OutboxAttachment => ({
+    uri: asset.uri,
+    mimeType: asset.mimeType || 'image/jpeg',
+    fileName: asset.fileName || `image_${Date.now()}_${index}.jpg`,
+  });
+
+  const showOutboxActions = (item: OutboxItem) => {
+    Alert.alert(
+      item.status === 'failed' ? 'Message not sent' : 'Waiting to send',
+      item.error || 'This message will be sent when the connection is back.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => outbox.discard(item.id) },
+        { text: 'Retry now', onPress: () => outbox.retry(item.id) },
+      ]
+    );
+  };
+
+  const stopGenerating = () => {
+    activeStreamRef.current?.cancel();
+  };
+
+  const buildLocalAiMessage = (
+    content: string,
+    completionStatus: 'partial' | 'cancelled'
+  ): Message => {
+    const now = new Date().toISOString();
+    return {
+      _id: `local-${Date.now()}`,
+      session: currentSession?._id || '',
+      user: '',
+      content,
+      isUserMessage: false,
+      messageType: 'text',
+      metadata: { completionStatus },
+      timestamp: now,
+      isEdited: false,
+      editHistory: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+  };
+
+  // Swap in updated copies of messages we already show; new ones go at the end
+  const replaceMessages = (updated: Message[]) => {
+    setMessages(prev => [
+      ...prev.map(message => updated.find(u => u._id === message._id) || message),
+      ...updated.filter(u => !prev.some(message => message._id === u._id)),
+    ]);
+  };
+
+  // Follow-up questions stay about these images until cleared, even when
+  // newer ones are sent
+  const pinImageContext = async (message: Message) => {
+    if (!currentSession) return;
+
     try {
-      if (isRecording && recording) {
-        // Stop recording
-        console.log('Stopping recording...');
-        setIsRecording(false);
-        await recording.stopAndUnloadAsync();
-        
-        const uri = recording.getURI();
-        console.log('Recording stopped and stored at', uri);
-        
-        if (uri) {
-          setRecordingUri(uri);
-          // Process the recorded audio
-          await processVoiceRecording(uri);
-        }
-        
-        setRecording(null);
-        setRecordingDuration(0);
-      } else {
-        // Start recording
-        console.log('Starting recording...');
-        
-        // Request permissions
-        const permissionResponse = await Audio.requestPermissionsAsync();
-        if (permissionResponse.status !== 'granted') {
-          Alert.alert('Permission Required', 'Please allow microphone access to record voice messages.');
-          return;
-        }
-        
-        // Configure audio mode
-        await Audio.setAudioModeAsync({
-          allowsRecordingIOS: true,
-          playsInSilentModeIOS: true,
-        });
-        
-        // Start recording
-        const { recording: newRecording } = await Audio.Recording.createAsync({
-          android: {
-            extension: '.m4a',
-            outputFormat: Audio.AndroidOutputFormat.MPEG_4,
-            audioEncoder: Audio.AndroidAudioEncoder.AAC,
-            sampleRate: 44100,
-            numberOfChannels: 2,
-            bitRate: 128000,
-          },
-          ios: {
-            extension: '.m4a',
-            outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
-            audioQuality: Audio.IOSAudioQuality.HIGH,
-            sampleRate: 44100,
-            numberOfChannels: 2,
-            bitRate: 128000,
-          },
-          web: {
-            mimeType: 'audio/webm',
-            bitsPerSecond: 128000,
+      setCurrentSession(await chatService.pinImageContext(currentSession._id, message._id));
+    } catch (error) {
+      console.error('Error pinning image:', error);
+      Alert.alert('Error', 'Failed to pin the image. Please try again.');
+    }
+  };
+
+  const clearImageContext = async () => {
+    if (!currentSession) return;
+
+    try {
+      setCurrentSession(await chatService.clearImageContext(currentSession._id));
+    } catch (error) {
+      console.error('Error clearing image context:', error);
+      Alert.alert('Error', 'Failed to clear the image. Please try again.');
+    }
+  };
+
+  const showMessageActions = (message: Message) => {
+    if (!currentSession || message._id.startsWith('local-') || streamingContent !== null || regeneratingMessageId) {
+      return;
+    }
+
+    const pinAction = chatService.getMessageImages(message).length > 0
+      ? [{ text: 'Ask follow-ups about this image', onPress: () => pinImageContext(message) }]
+      : [];
+    const actions = message.isUserMessage
+      ? [{ text: 'Edit & resend', onPress: () => startEditing(message) }, ...pinAction]
+      : [
+          {
+            text: selectedTemplate ? `Regenerate with "${selectedTemplate.name}"` : 'Regenerate',
+            onPress: () => regenerateMessage(message),
           },
-        });
-        
-        setRecording(newRecording);
-        setIsRecording(true);
-        
-        // Start duration counter
-        const startTime = Date.now();
-        const durationInterval = setInterval(() => {
-          if (isRecording) {
-            setRecordingDuration(Math.floor((Date.now() - startTime) / 1000));
-          } else {
-            clearInterval(durationInterval);
+          { text: 'Use another model', onPress: () => setModelSelectorMessage(message) },
+          ...(message.metadata?.hasImageInput && message.metadata.responseType !== 'alt_text'
+            ? [{ text: 'Describe for accessibility', onPress: () => regenerateMessage(message, { mode: 'accessibility' }) }]
+            : []),
+          ...(message.metadata?.hasImageInput && !message.metadata.contextImages?.length && message.metadata.responseType !== 'ocr'
+            ? [{ text: 'Extract text', onPress: () => regenerateMessage(message, { mode: 'ocr' }) }]
+            : []),
+        ];
+
+    if (Platform.OS === 'ios') {
+      ActionSheetIOS.showActionSheetWithOptions(
+        {
+          options: ['Cancel', ...actions.map(action => action.text)],
+          cancelButtonIndex: 0,
+        },
+        (buttonIndex) => {
+          if (buttonIndex > 0) {
+            actions[buttonIndex - 1].onPress();
           }
-        }, 1000);
-      }
+        }
+      );
+    } else {
+      Alert.alert('Message', undefined, [{ text: 'Cancel', style: 'cancel' }, ...actions]);
+    }
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessage(message);
+    setSelectedImages([]);
+    setInputText(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setInputText('');
+  };
+
+  const submitEdit = async () => {
+    if (!editingMessage || !currentSession || !inputText.trim()) return;
+
+    const messageText = inputText.trim();
+    const index = messages.findIndex(message => message._id === editingMessage._id);
+    const reply = messages[index + 1];
+
+    setEditingMessage(null);
+    setInputText('');
+    setRegeneratingMessageId(reply && !reply.isUserMessage ? reply._id : editingMessage._id);
+
+    try {
+      await chatService.editMessage(currentSession._id, editingMessage._id, messageText, {
+        promptTemplateId: selectedTemplate?._id,
+        templateVariables,
+      });
+      // The edit starts a new branch, so reload the now active path
+      showHistory(await chatService.getSession(currentSession._id));
     } catch (error) {
-      console.error('Failed to record voice:', error);
-      Alert.alert('Error', 'Failed to record voice message. Please try again.');
-      setIsRecording(false);
-      setRecording(null);
+      console.error('Error editing message:', error);
+      Alert.alert('Error', 'Failed to edit message. Please try again.');
+    } finally {
+      setRegeneratingMessageId(null);
+    }
+  };
+
+  const regenerateMessage = async (message: Message, options: RegenerateOptions = {}) => {
+    if (!currentSession) return;
+
+    setRegeneratingMessageId(message._id);
+    try {
+      const result = await chatService.regenerateMessage(currentSession._id, message._id, {
+        promptTemplateId: selectedTemplate?._id,
+        templateVariables,
+        ...options,
+      });
+      replaceMessages([result.aiResponse]);
+      // Accessibility mode stores the alt text on the user message
+      setMessages(prev => prev.map(message => message._id === result.userMessage._id ? result.userMessage : message));
+    } catch (error) {
+      console.error('Error regenerating message:', error);
+      Alert.alert('Error', 'Failed to regenerate response. Please try again.');
+    } finally {
+      setRegeneratingMessageId(null);
+    }
+  };
+
+  const selectVersion = async (message: Message, index: number) => {
+    if (!currentSession) return;
+
+    try {
+      const updated = await chatService.selectMessageVersion(currentSession._id, message._id, index);
+      replaceMessages([updated]);
+    } catch (error) {
+      console.error('Error selecting response version:', error);
+    }
+  };
+
+  const switchBranch = async (message: Message, index: number) => {
+    if (!currentSession || !message.branch) return;
+
+    try {
+      showHistory(await chatService.switchBranch(currentSession._id, message.branch.siblingIds[index]));
+    } catch (error) {
+      console.error('Error switching branch:', error);
+      Alert.alert('Error', 'Failed to switch branch. Please try again.');
+    }
+  };
+
+  const handleSend = () => {
+    if (editingMessage) {
+      submitEdit();
+    } else {
+      sendMessage(inputText);
+    }
+  };
+
+  const startDictation = () => {
+    setCancellingDictation(false);
+    dictationStartRef.current = dictation.start();
+  };
+
+  // Released: the transcript goes into the input to be checked before sending.
+  // A recording made offline is sent as a voice message instead.
+  const finishDictation = async (cancelled: boolean) => {
+    const started = await dictationStartRef.current;
+    dictationStartRef.current = null;
+    setCancellingDictation(false);
+    if (!started) return;
+
+    if (cancelled) {
+      await dictation.cancel();
+      return;
+    }
+
+    const result = await dictation.finish();
+    if (!result) return;
+
+    if (result.uri) {
+      await processVoiceRecording(result.uri);
+    } else if (result.text) {
+      const text = result.text.trim();
+      setInputText(previous => (previous.trim() ? `${previous.trimEnd()} ${text}` : text));
+    } else if (result.error) {
+      Alert.alert('Could Not Transcribe', result.error);
     }
   };
 
@@ -298,12 +704,19 @@ export default function ChatScreen() {
         return;
       }
 
+      const voiceFile: OutboxAttachment = {
+        uri: uri,
+        mimeType: 'audio/m4a',
+        fileName: `voice_${Date.now()}.m4a`,
+      };
+      const idempotencyKey = createIdempotencyKey();
+
       // Create FormData to send voice file
       const formData = new FormData();
       formData.append('voice', {
-        uri: uri,
-        type: 'audio/m4a',
-        name: `voice_${Date.now()}.m4a`,
+        uri: voiceFile.uri,
+        type: voiceFile.mimeType,
+        name: voiceFile.fileName,
       } as any);
       
       // Add optional text content
@@ -314,9 +727,24 @@ export default function ChatScreen() {
       
       formData.append('messageType', voiceMessage ? 'multimodal' : 'voice');
 
+      // Keep the recording in the outbox until the server can be reached
+      const queueVoiceMessage = async () => {
+        await outbox.enqueue({
+          sessionId: currentSession._id,
+          content: voiceMessage,
+          voice: voiceFile,
+        }, idempotencyKey);
+        setInputText('');
+      };
+
+      if (!connectivity.isOnline()) {
+        await queueVoiceMessage();
+        return;
+      }
+
       try {
         // Send voice message
-        const response = await chatService.sendMessageWithVoice(currentSession._id, formData);
+        const response = await chatService.sendMessageWithVoice(currentSession._id, formData, idempotencyKey);
         
         if (response.success) {
           // Add both user message and AI response to the messages
@@ -335,18 +763,26 @@ export default function ChatScreen() {
         }
       } catch (apiError) {
         console.error('API Error:', apiError);
-        Alert.alert('Error', 'Failed to send voice message. Please try again.');
+        if (connectivity.isNetworkError(apiError)) {
+          await queueVoiceMessage();
+        } else {
+          Alert.alert('Error', 'Failed to send voice message. Please try again.');
+        }
       }
     } catch (error) {
       console.error('Error processing voice recording:', error);
       Alert.alert('Error', 'Failed to process voice recording.');
     } finally {
       setIsTyping(false);
-      setRecordingUri(null);
     }
   };
 
   const handleImagePicker = async () => {
+    if (selectedImages.length >= MAX_IMAGES) {
+      Alert.alert('Image Limit', `A message can have up to ${MAX_IMAGES} images.`);
+      return;
+    }
+
     try {
       // Request permissions
       const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -406,7 +842,7 @@ export default function ChatScreen() {
       });
 
       if (!result.canceled && result.assets[0]) {
-        setSelectedImage(result.assets[0]);
+        addSelectedImages([result.assets[0]]);
       }
     } catch (error) {
       console.error('Error opening camera:', error);
@@ -416,15 +852,17 @@ export default function ChatScreen() {
 
   const openImageLibrary = async () => {
     try {
+      // Cropping is only offered for single images, so pick them as they are
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: 'images',
-        allowsEditing: true,
-        aspect: [4, 3],
+        allowsMultipleSelection: true,
+        selectionLimit: MAX_IMAGES - selectedImages.length,
+        orderedSelection: true,
         quality: 0.8,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        setSelectedImage(result.assets[0]);
+      if (!result.canceled && result.assets.length > 0) {
+        addSelectedImages(result.assets);
       }
     } catch (error) {
       console.error('Error opening image library:', error);
@@ -432,64 +870,137 @@ export default function ChatScreen() {
     }
   };
 
-  const removeSelectedImage = () => {
-    setSelectedImage(null);
+  const addSelectedImages = (assets: ImagePicker.ImagePickerAsset[]) => {
+    setSelectedImages(previous => [...previous, ...assets].slice(0, MAX_IMAGES));
   };
 
-  const speakText = async (text: string) => {
-    try {
-      // Stop any currently playing speech
-      if (isPlayingTTS) {
-        Speech.stop();
+  const removeSelectedImage = (index: number) => {
+    setSelectedImages(previous => previous.filter((_, position) => position !== index));
+  };
+
+  const stopSpeaking = async () => {
+    ttsRequestRef.current += 1;
+    Speech.stop();
+    const sound = ttsSoundRef.current;
+    ttsSoundRef.current = null;
+    setIsPlayingTTS(false);
+    if (sound) {
+      try {
+        await sound.stopAsync();
+        await sound.unloadAsync();
+      } catch (error) {
+        console.log('Error stopping speech:', error);
+      }
+    }
+  };
+
+  // The device's own voice, used when the server cannot synthesize speech
+  const speakOnDevice = (text: string, language?: string) => {
+    Speech.speak(text, {
+      language: language || 'en-US',
+      pitch: 1.0,
+      rate: 0.9,
+      onDone: () => {
+        setIsPlayingTTS(false);
+      },
+      onStopped: () => {
+        setIsPlayingTTS(false);
+      },
+      onError: (error) => {
+        console.error('TTS Error:', error);
         setIsPlayingTTS(false);
-        return;
       }
+    });
+  };
 
-      setIsPlayingTTS(true);
-      
-      await Speech.speak(text, {
-        language: 'en-US',
-        pitch: 1.0,
-        rate: 0.9,
-        onDone: () => {
-          setIsPlayingTTS(false);
-        },
-        onStopped: () => {
-          setIsPlayingTTS(false);
-        },
-        onError: (error) => {
-          console.error('TTS Error:', error);
-          setIsPlayingTTS(false);
+  // Read text aloud with the server's voice so it sounds the same on every
+  // device. Passing the message lets the server cache audio for it; the
+  // voice follows `language`, else the language the message is in.
+  const speakText = async (text: string, message?: Message, language?: string | null) => {
+    // Stop any currently playing speech
+    if (isPlayingTTS) {
+      await stopSpeaking();
+      return;
+    }
+
+    const request = ++ttsRequestRef.current;
+    const spokenLanguage = language || message?.metadata.language || undefined;
+    setIsPlayingTTS(true);
+
+    try {
+      const speech = message && currentSession && !message._id.startsWith('local-')
+        ? await chatService.synthesizeMessageSpeech(currentSession._id, message._id, { format: 'mp3', language: spokenLanguage })
+        : await chatService.synthesizeSpeech(text, { format: 'mp3', language: spokenLanguage });
+
+      // Stopped while the audio was being generated
+      if (request !== ttsRequestRef.current) return;
+
+      const { sound } = await Audio.Sound.createAsync(
+        { uri: chatService.getVoiceUrl(speech.fileName) },
+        { shouldPlay: true, isLooping: false }
+      );
+      ttsSoundRef.current = sound;
+
+      sound.setOnPlaybackStatusUpdate((status) => {
+        if (status.isLoaded && status.didJustFinish) {
+          sound.unloadAsync();
+          if (ttsSoundRef.current === sound) {
+            ttsSoundRef.current = null;
+            setIsPlayingTTS(false);
+          }
         }
       });
     } catch (error) {
-      console.error('Error with text-to-speech:', error);
-      setIsPlayingTTS(false);
+      console.log('Server text-to-speech unavailable, using device speech:', error);
+      if (request === ttsRequestRef.current) {
+        speakOnDevice(text, spokenLanguage);
+      }
     }
   };
 
-  const playVoiceMessage = async (message: Message) => {
+  // Play, pause or resume a voice message. `startAt` (seconds) seeks to a
+  // word tapped in the transcript and keeps playing from there.
+  const playVoiceMessage = async (message: Message, startAt?: number) => {
     try {
-      const voiceUrl = `${API_BASE_URL}/api/chat/voice/${message.metadata?.voiceFileName}`;
+      const voiceUrl = chatService.getVoiceUrl(message.metadata?.voiceFileName || '');
+      const loaded = playingAudio[message._id];
       
       // If already playing this message, pause it
-      if (playingMessageId === message._id && playingAudio[message._id]) {
-        await playingAudio[message._id].pauseAsync();
+      if (playingMessageId === message._id && loaded && startAt === undefined) {
+        await loaded.pauseAsync();
         setPlayingMessageId(null);
         return;
       }
       
-      // Stop any currently playing audio
-      if (playingMessageId && playingAudio[playingMessageId]) {
+      // Stop any other audio that is playing
+      if (playingMessageId && playingMessageId !== message._id && playingAudio[playingMessageId]) {
         await playingAudio[playingMessageId].stopAsync();
         await playingAudio[playingMessageId].unloadAsync();
         delete playingAudio[playingMessageId];
       }
+
+      // Continue a paused recording, or move within the one that is playing
+      if (loaded) {
+        if (startAt !== undefined) {
+          await loaded.setPositionAsync(startAt * 1000);
+        }
+        if (playingMessageId !== message._id) {
+          await loaded.playAsync();
+          setPlayingMessageId(message._id);
+        }
+        return;
+      }
       
       // Create and play new audio
       const { sound } = await Audio.Sound.createAsync(
         { uri: voiceUrl },
-        { shouldPlay: true, isLooping: false }
+        {
+          shouldPlay: true,
+          isLooping: false,
+          positionMillis: (startAt || 0) * 1000,
+          // Often enough for the transcript highlight to keep up with speech
+          progressUpdateIntervalMillis: 100,
+        }
       );
       
       setPlayingAudio(prev => ({ ...prev, [message._id]: sound }));
@@ -497,8 +1008,12 @@ export default function ChatScreen() {
       
       // Set up playback status listener
       sound.setOnPlaybackStatusUpdate((status) => {
-        if (status.isLoaded && status.didJustFinish) {
+        if (!status.isLoaded) return;
+        setPlaybackPosition({ messageId: message._id, seconds: status.positionMillis / 1000 });
+
+        if (status.didJustFinish) {
           setPlayingMessageId(null);
+          setPlaybackPosition(null);
           sound.unloadAsync();
           setPlayingAudio(prev => {
             const updated = { ...prev };
@@ -515,30 +1030,53 @@ export default function ChatScreen() {
   };
 
   const renderMessage = (message: Message) => (
-    <View key={message._id} style={[
-      styles.messageContainer,
-      message.isUserMessage ? styles.userMessage : styles.aiMessage
-    ]}>
+    <View
+      key={message._id}
+      style={[
+        styles.messageContainer,
+        message.isUserMessage ? styles.userMessage : styles.aiMessage
+      ]}
+      onLayout={(event) => handleMessageLayout(message._id, event)}
+    >
       {!message.isUserMessage && (
         <View style={[styles.aiAvatar, { backgroundColor: theme.primary }]}>
           <Ionicons name="sparkles" size={16} color="white" />
         </View>
       )}
-      <View style={[
-        styles.messageBubble,
-        message.isUserMessage 
-          ? { backgroundColor: theme.primary }
-          : { backgroundColor: theme.surface, borderColor: theme.border }
-      ]}>
-        {/* Show image if present */}
-        {message.metadata?.imagePath && (
-          <View style={styles.messageImageContainer}>
-            <Image 
-              source={{ uri: `${API_BASE_URL}/chat/images/${message.metadata.imageFileName}` }}
-              style={styles.messageImage}
-              onError={() => console.log('Error loading message image')}
-            />
-          </View>
+      <TouchableOpacity
+        activeOpacity={0.8}
+        delayLongPress={300}
+        onLongPress={() => showMessageActions(message)}
+        style={[
+          styles.messageBubble,
+          message.isUserMessage 
+            ? { backgroundColor: theme.primary }
+            : { backgroundColor: theme.surface, borderColor: theme.border },
+          regeneratingMessageId === message._id && styles.regeneratingBubble,
+          highlightedMessageId === message._id && [styles.highlightedBubble, { borderColor: theme.primary }]
+        ]}
+      >
+        {/* Show images if present */}
+        <ImageGallery
+          images={chatService.getMessageImages(message)}
+          accessibilityLabel={message.metadata?.accessibility?.altText}
+        />
+
+        {/* Alt text from accessibility mode; tap to hear the full description */}
+        {message.metadata?.accessibility?.altText && (
+          <TouchableOpacity
+            style={styles.altTextRow}
+            onPress={() => speakText(describeForSpeech(message.metadata.accessibility!), undefined, message.metadata.language)}
+            accessibilityRole="button"
+            accessibilityLabel={`Image description: ${message.metadata.accessibility.altText}`}
+            accessibilityHint="Reads the full description aloud"
+          >
+            <Ionicons name="accessibility-outline" size={14} color={message.isUserMessage ? 'rgba(255,255,255,0.85)' : theme.textSecondary} />
+            <Text style={[styles.altText, { color: message.isUserMessage ? 'rgba(255,255,255,0.85)' : theme.textSecondary }]}>
+              {message.metadata.accessibility.altText}
+            </Text>
+            <Ionicons name="volume-high" size={14} color={message.isUserMessage ? 'rgba(255,255,255,0.85)' : theme.textSecondary} />
+          </TouchableOpacity>
         )}
         
         {/* Show voice message if present */}
@@ -565,16 +1103,56 @@ export default function ChatScreen() {
           </View>
         )}
         
-        {/* Show text content */}
+        {/* Show text content; a timed voice transcript follows playback */}
         {message.content && (
-          <Text style={[
-            styles.messageText,
-            { color: message.isUserMessage ? 'white' : theme.text }
-          ]}>
-            {message.content}
-          </Text>
+          message.metadata?.voiceTranscriptTimings?.length && message.content === message.metadata.voiceTranscript ? (
+            <VoiceTranscript
+              timings={message.metadata.voiceTranscriptTimings}
+              position={playbackPosition?.messageId === message._id ? playbackPosition.seconds : null}
+              onSeek={(seconds) => playVoiceMessage(message, seconds)}
+              style={[
+                styles.messageText,
+                { color: message.isUserMessage ? 'white' : theme.text }
+              ]}
+              highlightColor={message.isUserMessage ? 'rgba(255,255,255,0.3)' : theme.border}
+            />
+          ) : (
+            <Text style={[
+              styles.messageText,
+              { color: message.isUserMessage ? 'white' : theme.text }
+            ]}>
+              {message.content}
+            </Text>
+          )
         )}
         
+        {/* Mark answers that were stopped or broke off before finishing */}
+        {(message.metadata?.completionStatus === 'cancelled' || message.metadata?.completionStatus === 'partial') && (
+          <View style={styles.messageTypeIndicator}>
+            <Ionicons name="alert-circle-outline" size={12} color={theme.textSecondary} />
+            <Text style={[styles.messageTypeText, { color: theme.textSecondary }]}>
+              {message.metadata.completionStatus === 'cancelled' ? 'Stopped by you' : 'Incomplete response'}
+            </Text>
+          </View>
+        )}
+
+        {/* The text of the images was extracted and can be searched */}
+        {message.metadata?.extractedText && (
+          <View style={styles.messageTypeIndicator}>
+            <Ionicons
+              name="document-text-outline"
+              size={12}
+              color={message.isUserMessage ? 'rgba(255,255,255,0.7)' : theme.textSecondary}
+            />
+            <Text style={[
+              styles.messageTypeText,
+              { color: message.isUserMessage ? 'rgba(255,255,255,0.7)' : theme.textSecondary }
+            ]}>
+              Text extracted
+            </Text>
+          </View>
+        )}
+
         {/* Show message type indicator for multimodal messages */}
         {(message.messageType === 'multimodal' || message.messageType === 'image' || message.messageType === 'multimodal_response') && (
           <View style={styles.messageTypeIndicator}>
@@ -587,7 +1165,9 @@ export default function ChatScreen() {
               styles.messageTypeText,
               { color: message.isUserMessage ? 'rgba(255,255,255,0.7)' : theme.textSecondary }
             ]}>
-              {message.messageType === 'multimodal_response' ? 'Vision AI' : 'Image'}
+              {message.metadata?.contextImages?.length
+                ? 'Vision AI • earlier image'
+                : message.messageType === 'multimodal_response' ? 'Vision AI' : 'Image'}
             </Text>
           </View>
         )}
@@ -599,13 +1179,64 @@ export default function ChatScreen() {
             { color: message.isUserMessage ? 'rgba(255,255,255,0.7)' : theme.textSecondary }
           ]}>
             {new Date(message.timestamp || message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {message.isEdited ? ' • edited' : ''}
           </Text>
+
+          {/* Switch between branches that fork at this turn */}
+          {message.branch && (
+            <View style={styles.versionSwitcher}>
+              <TouchableOpacity
+                onPress={() => switchBranch(message, message.branch!.index - 1)}
+                disabled={message.branch.index === 0 || streamingContent !== null}
+                accessibilityLabel="Previous branch"
+              >
+                <Ionicons name="chevron-back" size={14} color={message.isUserMessage ? 'white' : theme.textSecondary} />
+              </TouchableOpacity>
+              <Text style={[styles.versionText, { color: message.isUserMessage ? 'rgba(255,255,255,0.7)' : theme.textSecondary }]}>
+                {message.branch.index + 1}/{message.branch.count}
+              </Text>
+              <TouchableOpacity
+                onPress={() => switchBranch(message, message.branch!.index + 1)}
+                disabled={message.branch.index >= message.branch.count - 1 || streamingContent !== null}
+                accessibilityLabel="Next branch"
+              >
+                <Ionicons name="chevron-forward" size={14} color={message.isUserMessage ? 'white' : theme.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {regeneratingMessageId === message._id && (
+            <ActivityIndicator size="small" color={message.isUserMessage ? 'white' : theme.primary} />
+          )}
+
+          {/* Switch between regenerated answers */}
+          {!message.isUserMessage && (message.responseVersions?.length ?? 0) > 1 && (
+            <View style={styles.versionSwitcher}>
+              <TouchableOpacity
+                onPress={() => selectVersion(message, (message.activeVersion ?? 0) - 1)}
+                disabled={(message.activeVersion ?? 0) === 0 || !!regeneratingMessageId}
+                accessibilityLabel="Previous version"
+              >
+                <Ionicons name="chevron-back" size={14} color={theme.textSecondary} />
+              </TouchableOpacity>
+              <Text style={[styles.versionText, { color: theme.textSecondary }]}>
+                {(message.activeVersion ?? 0) + 1}/{message.responseVersions!.length}
+              </Text>
+              <TouchableOpacity
+                onPress={() => selectVersion(message, (message.activeVersion ?? 0) + 1)}
+                disabled={(message.activeVersion ?? 0) >= message.responseVersions!.length - 1 || !!regeneratingMessageId}
+                accessibilityLabel="Next version"
+              >
+                <Ionicons name="chevron-forward" size={14} color={theme.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          )}
           
           {/* Speak button for AI messages */}
           {!message.isUserMessage && message.content && (
             <TouchableOpacity
               style={[styles.speakButton, { backgroundColor: isPlayingTTS ? theme.error : 'transparent' }]}
-              onPress={() => speakText(message.content)}
+              onPress={() => speakText(message.content, message)}
             >
               <Ionicons 
                 name={isPlayingTTS ? "stop" : "volume-high"} 
@@ -615,6 +1246,65 @@ export default function ChatScreen() {
             </TouchableOpacity>
           )}
         </View>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderOutboxItem = (item: OutboxItem) => (
+    <View key={item.id} style={[styles.messageContainer, styles.userMessage]}>
+      <TouchableOpacity
+        activeOpacity={0.8}
+        onPress={() => showOutboxActions(item)}
+        style={[
+          styles.messageBubble,
+          { backgroundColor: theme.primary },
+          styles.outboxBubble,
+        ]}
+      >
+        {item.images && <ImageGallery images={item.images} />}
+
+        {item.voice && (
+          <View style={styles.messageTypeIndicator}>
+            <Ionicons name="mic" size={12} color="rgba(255,255,255,0.7)" />
+            <Text style={[styles.messageTypeText, { color: 'rgba(255,255,255,0.7)' }]}>Voice message</Text>
+          </View>
+        )}
+
+        {!!item.content && (
+          <Text style={[styles.messageText, { color: 'white' }]}>
+            {item.content}
+          </Text>
+        )}
+
+        <View style={styles.outboxStatusRow}>
+          <Ionicons
+            name={item.status === 'failed' ? 'alert-circle' : 'time-outline'}
+            size={12}
+            color={item.status === 'failed' ? theme.error : 'rgba(255,255,255,0.7)'}
+          />
+          <Text style={[styles.messageTime, styles.outboxStatus, { color: 'rgba(255,255,255,0.7)' }]}>
+            {item.status === 'failed'
+              ? 'Not sent • tap to retry'
+              : item.status === 'sending'
+                ? 'Sending...'
+                : online ? 'Pending' : 'Waiting for connection'}
+          </Text>
+          {item.status === 'sending' && <ActivityIndicator size="small" color="white" />}
+        </View>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderStreamingMessage = () => (
+    <View style={[styles.messageContainer, styles.aiMessage]}>
+      <View style={[styles.aiAvatar, { backgroundColor: theme.primary }]}>
+        <Ionicons name="sparkles" size={16} color="white" />
+      </View>
+      <View style={[styles.messageBubble, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+        <Text style={[styles.messageText, { color: theme.text }]}>
+          {streamingContent}
+          <Text style={{ color: theme.primary }}>▍</Text>
+        </Text>
       </View>
     </View>
   );
@@ -662,6 +1352,10 @@ export default function ChatScreen() {
         </TouchableOpacity>
       </View>
 
+      <OfflineBanner
+        onReconnect={() => currentSession ? loadSpecificSession(currentSession._id) : initializeChat()}
+      />
+
       {/* Messages */}
       <KeyboardAvoidingView 
         style={styles.chatContainer}
@@ -672,7 +1366,9 @@ export default function ChatScreen() {
           style={styles.messagesContainer}
           contentContainerStyle={styles.messagesContent}
           showsVerticalScrollIndicator={false}
-          onContentSizeChange={() => scrollViewRef.current?.scrollToEnd({ animated: true })}
+          onContentSizeChange={handleContentSizeChange}
+          onScroll={handleScroll}
+          scrollEventThrottle={100}
         >
           {messages.length === 0 && !loading ? (
             <View style={styles.emptyState}>
@@ -700,8 +1396,12 @@ export default function ChatScreen() {
             </View>
           ) : (
             <>
+              {loadingOlder && (
+                <ActivityIndicator style={styles.loadingOlder} size="small" color={theme.primary} />
+              )}
               {messages.map(renderMessage)}
-              {isTyping && renderTypingIndicator()}
+              {outboxItems.filter(item => item.sessionId === currentSession?._id).map(renderOutboxItem)}
+              {streamingContent ? renderStreamingMessage() : isTyping && renderTypingIndicator()}
             </>
           )}
         </ScrollView>
@@ -709,23 +1409,84 @@ export default function ChatScreen() {
         {/* Input Area */}
         <View style={[styles.inputContainer, { backgroundColor: theme.surface, borderTopColor: theme.border }]}>
           {/* Image Preview */}
-          {selectedImage && (
+          {selectedImages.length > 0 && (
             <View style={styles.imagePreviewContainer}>
-              <View style={styles.imagePreview}>
-                <Image source={{ uri: selectedImage.uri }} style={styles.previewImage} />
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.imagePreviewList}>
+                {selectedImages.map((image, index) => (
+                  <View key={`${image.uri}-${index}`} style={styles.imagePreview}>
+                    <Image source={{ uri: image.uri }} style={styles.previewImage} />
+                    <TouchableOpacity
+                      style={styles.removeImageButton}
+                      onPress={() => removeSelectedImage(index)}
+                      accessibilityLabel={`Remove image ${index + 1}`}
+                    >
+                      <Ionicons name="close-circle" size={24} color={theme.error} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                {selectedImages.length < MAX_IMAGES && (
+                  <TouchableOpacity
+                    style={[styles.addImageButton, { borderColor: theme.border }]}
+                    onPress={handleImagePicker}
+                    accessibilityLabel="Add another image"
+                  >
+                    <Ionicons name="add" size={28} color={theme.textSecondary} />
+                  </TouchableOpacity>
+                )}
+              </ScrollView>
+              <Text style={[styles.imagePreviewText, { color: theme.textSecondary }]}>
+                {selectedImages.length > 1
+                  ? `${selectedImages.length} images selected • Ask about or compare them`
+                  : 'Image selected • Add text or send as is'}
+              </Text>
+              {IMAGE_MODES.map(option => (
                 <TouchableOpacity
-                  style={styles.removeImageButton}
-                  onPress={removeSelectedImage}
+                  key={option.mode}
+                  style={styles.imageModeToggle}
+                  onPress={() => setImageMode(imageMode === option.mode ? null : option.mode)}
+                  accessibilityRole="switch"
+                  accessibilityState={{ checked: imageMode === option.mode }}
+                  accessibilityLabel={option.title}
                 >
-                  <Ionicons name="close-circle" size={24} color={theme.error} />
+                  <Ionicons
+                    name={imageMode === option.mode ? 'checkbox' : 'square-outline'}
+                    size={18}
+                    color={imageMode === option.mode ? theme.primary : theme.textSecondary}
+                  />
+                  <Text style={[styles.imageModeToggleText, { color: theme.text }]}>
+                    {option.title} ({option.detail})
+                  </Text>
                 </TouchableOpacity>
-              </View>
-              <Text style={[styles.imagePreviewText, { color: theme.textSecondary }]}>
-                Image selected • Add text or send as is
-              </Text>
+              ))}
             </View>
           )}
           
+          {/* Earlier images that text questions are still about */}
+          {selectedImages.length === 0 && !editingMessage && !!currentSession?.imageContext?.images.length && (
+            <View style={[styles.imageContextBanner, { borderColor: theme.border }]}>
+              {currentSession.imageContext.images.slice(0, 3).map((image, index) => (
+                <Image
+                  key={`${image.fileName}-${index}`}
+                  source={{ uri: chatService.getImageUrl(image.thumbnailFileName || image.fileName) }}
+                  style={styles.imageContextThumbnail}
+                />
+              ))}
+              <Ionicons
+                name={currentSession.imageContext.pinned ? 'pin' : 'image-outline'}
+                size={14}
+                color={theme.textSecondary}
+              />
+              <Text style={[styles.imageContextText, { color: theme.textSecondary }]} numberOfLines={1}>
+                {currentSession.imageContext.images.length > 1
+                  ? 'Follow-up questions include these images'
+                  : 'Follow-up questions include this image'}
+              </Text>
+              <TouchableOpacity onPress={clearImageContext} accessibilityLabel="Stop including the image">
+                <Ionicons name="close" size={18} color={theme.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* Selected Template Display */}
           {selectedTemplate && (
             <View style={[styles.selectedTemplateContainer, { 
@@ -737,12 +1498,41 @@ export default function ChatScreen() {
                   {selectedTemplate.name}
                 </Text>
                 <Text style={[styles.selectedTemplateDescription, { color: theme.textSecondary }]}>
-                  {selectedTemplate.description}
+                  {templateVariables && Object.keys(templateVariables).length > 0
+                    ? Object.entries(templateVariables).map(([name, value]) => `${name}: ${value}`).join(' · ')
+                    : selectedTemplate.description}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => {
+                  setSelectedTemplate(null);
+                  setTemplateVariables(undefined);
+                }}
+                style={styles.clearTemplateButton}
+              >
+                <Ionicons name="close" size={16} color={theme.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Editing banner */}
+          {editingMessage && (
+            <View style={[styles.selectedTemplateContainer, {
+              backgroundColor: theme.surface,
+              borderColor: theme.primary
+            }]}>
+              <View style={styles.selectedTemplateInfo}>
+                <Text style={[styles.selectedTemplateName, { color: theme.primary }]}>
+                  Editing message
+                </Text>
+                <Text style={[styles.selectedTemplateDescription, { color: theme.textSecondary }]} numberOfLines={1}>
+                  Sends as a new branch; the original conversation is kept
                 </Text>
               </View>
               <TouchableOpacity
-                onPress={() => setSelectedTemplate(null)}
+                onPress={cancelEditing}
                 style={styles.clearTemplateButton}
+                accessibilityLabel="Cancel editing"
               >
                 <Ionicons name="close" size={16} color={theme.textSecondary} />
               </TouchableOpacity>
@@ -750,37 +1540,94 @@ export default function ChatScreen() {
           )}
 
           <View style={styles.inputRow}>
-            <TextInput
-              style={[styles.textInput, { 
-                backgroundColor: theme.card, 
-                borderColor: isRecording ? theme.error : theme.border,
-                color: theme.text,
-                maxHeight: 100,
-              }]}
-              placeholder={
-                isRecording 
-                  ? `Recording... ${recordingDuration}s`
-                  : selectedImage 
-                    ? "Describe or ask about this image..." 
-                    : selectedTemplate
-                      ? `Ask anything with "${selectedTemplate.name}" style...`
-                      : "Ask anything..."
-              }
-              placeholderTextColor={isRecording ? theme.error : theme.textSecondary}
-              value={inputText}
-              onChangeText={setInputText}
-              multiline
-              onSubmitEditing={() => sendMessage(inputText)}
-              editable={!isRecording}
-            />
+            {dictation.status !== 'idle' ? (
+              <View
+                style={[styles.dictationPanel, {
+                  backgroundColor: theme.card,
+                  borderColor: cancellingDictation ? theme.error : theme.primary,
+                }]}
+                accessibilityLiveRegion="polite"
+              >
+                {isRecording ? (
+                  <>
+                    <View style={styles.dictationHeader}>
+                      <View style={[styles.recordingDot, { backgroundColor: theme.error }]} />
+                      <Text style={[styles.dictationTimer, { color: theme.text }]}>
+                        {formatRecordingTime(dictation.duration)}
+                      </Text>
+                      <View style={styles.waveform}>
+                        {Array.from({ length: WAVEFORM_BARS }, (_, index) => {
+                          const level = dictation.levels[index - (WAVEFORM_BARS - dictation.levels.length)] ?? 0;
+                          return (
+                            <View
+                              key={index}
+                              style={[styles.waveformBar, {
+                                height: 2 + level * 20,
+                                backgroundColor: cancellingDictation ? theme.error : theme.primary,
+                              }]}
+                            />
+                          );
+                        })}
+                      </View>
+                      <Text style={[styles.dictationHint, { color: cancellingDictation ? theme.error : theme.textSecondary }]}>
+                        {cancellingDictation ? 'Release to cancel' : '‹ Slide to cancel'}
+                      </Text>
+                    </View>
+                    {dictation.partial ? (
+                      <Text style={[styles.dictationPartial, { color: theme.text }]} numberOfLines={3}>
+                        {dictation.partial}
+                      </Text>
+                    ) : null}
+                  </>
+                ) : (
+                  <View style={styles.dictationHeader}>
+                    <ActivityIndicator size="small" color={theme.primary} />
+                    <Text style={[styles.dictationHint, { color: theme.textSecondary }]}>Transcribing...</Text>
+                  </View>
+                )}
+              </View>
+            ) : (
+              <TextInput
+                style={[styles.textInput, { 
+                  backgroundColor: theme.card, 
+                  borderColor: theme.border,
+                  color: theme.text,
+                  maxHeight: 100,
+                }]}
+                placeholder={
+                  selectedImages.length > 1
+                    ? "Compare or ask about these images..."
+                    : selectedImages.length === 1
+                      ? "Describe or ask about this image..." 
+                      : selectedTemplate
+                        ? `Ask anything with "${selectedTemplate.name}" style...`
+                        : "Ask anything..."
+                }
+                placeholderTextColor={theme.textSecondary}
+                value={inputText}
+                onChangeText={setInputText}
+                multiline
+                onSubmitEditing={handleSend}
+              />
+            )}
             
-            <TouchableOpacity
-              style={[styles.sendButton, { backgroundColor: theme.primary }]}
-              onPress={() => sendMessage(inputText)}
-              disabled={!inputText.trim() && !selectedImage}
-            >
-              <Ionicons name="send" size={20} color="white" />
-            </TouchableOpacity>
+            {streamingContent !== null ? (
+              <TouchableOpacity
+                style={[styles.sendButton, { backgroundColor: theme.error }]}
+                onPress={stopGenerating}
+                accessibilityLabel="Stop generating"
+              >
+                <Ionicons name="stop" size={20} color="white" />
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[styles.sendButton, { backgroundColor: theme.primary }]}
+                onPress={handleSend}
+                disabled={(!inputText.trim() && selectedImages.length === 0) || !!regeneratingMessageId}
+              >
+                <Ionicons name={editingMessage ? "checkmark" : "send"} size={20} color="white" />
+              </TouchableOpacity>
+            )}
           </View>
           
           <View style={styles.actionButtons}>
@@ -810,20 +1657,38 @@ export default function ChatScreen() {
               />
             </TouchableOpacity>
             
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.primary }]}
+              onPress={() => {
+                if (currentSession) {
+                  setTalkModeVisible(true);
+                } else {
+                  Alert.alert('No Chat Selected', 'Start or open a chat to talk with EchoMind.');
+                }
+              }}
+              accessibilityLabel="Talk mode"
+            >
+              <Ionicons name="headset" size={20} color="white" />
+            </TouchableOpacity>
+
             <Animated.View style={{ transform: [{ scale: pulseAnim }] }}>
-              <TouchableOpacity
+              <HoldToTalkButton
                 style={[
                   styles.voiceButton,
                   { backgroundColor: isRecording ? theme.error : theme.primary }
                 ]}
-                onPress={handleVoiceRecord}
+                disabled={dictation.status === 'transcribing'}
+                accessibilityLabel="Hold to dictate"
+                onStart={startDictation}
+                onSlide={setCancellingDictation}
+                onRelease={finishDictation}
               >
                 <Ionicons 
-                  name={isRecording ? "stop" : "mic"} 
+                  name={cancellingDictation ? "trash" : "mic"} 
                   size={24} 
                   color="white" 
                 />
-              </TouchableOpacity>
+              </HoldToTalkButton>
             </Animated.View>
           </View>
         </View>
@@ -840,11 +1705,39 @@ export default function ChatScreen() {
       <PromptTemplateSelector
         visible={showTemplateSelector}
         onClose={() => setShowTemplateSelector(false)}
-        onSelectTemplate={(template) => {
+        onSelectTemplate={(template, variables) => {
           setSelectedTemplate(template);
+          setTemplateVariables(variables);
           setShowTemplateSelector(false);
         }}
         selectedTemplateId={selectedTemplate?._id}
+        selectedTemplateVariables={templateVariables}
+      />
+
+      {/* Hands-free voice conversation */}
+      <TalkMode
+        visible={talkModeVisible}
+        sessionId={currentSession?._id || null}
+        onClose={() => setTalkModeVisible(false)}
+        onMessage={(message) => {
+          setMessages(prev => prev.some(existing => existing._id === message._id) ? prev : [...prev, message]);
+          setTimeout(() => {
+            scrollViewRef.current?.scrollToEnd({ animated: true });
+          }, 100);
+        }}
+      />
+
+      {/* Model picker for "Use another model" */}
+      <ModelSelector
+        visible={!!modelSelectorMessage}
+        onClose={() => setModelSelectorMessage(null)}
+        onSelectModel={(option) => {
+          const message = modelSelectorMessage;
+          setModelSelectorMessage(null);
+          if (message) {
+            regenerateMessage(message, { provider: option.provider, model: option.model });
+          }
+        }}
       />
     </SafeAreaView>
   );
@@ -1003,6 +1896,48 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 3,
   },
+  dictationPanel: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 24,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginRight: 8,
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+  dictationHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  recordingDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  dictationTimer: {
+    fontSize: 14,
+    fontVariant: ['tabular-nums'],
+  },
+  waveform: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    height: 24,
+  },
+  waveformBar: {
+    width: 2,
+    borderRadius: 1,
+  },
+  dictationHint: {
+    fontSize: 13,
+  },
+  dictationPartial: {
+    fontSize: 16,
+    marginTop: 8,
+  },
   voiceButton: {
     width: 56,
     height: 56,
@@ -1024,10 +1959,24 @@ const styles = StyleSheet.create({
     borderBottomColor: '#e0e0e0',
     marginBottom: 12,
   },
+  imagePreviewList: {
+    paddingTop: 8,
+    paddingRight: 8,
+    gap: 12,
+  },
   imagePreview: {
     position: 'relative',
     alignSelf: 'flex-start',
   },
+  addImageButton: {
+    width: 100,
+    height: 100,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   previewImage: {
     width: 100,
     height: 100,
@@ -1046,16 +1995,44 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontStyle: 'italic',
   },
-  messageImageContainer: {
+  imageContextBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingBottom: 8,
     marginBottom: 8,
-    borderRadius: 8,
-    overflow: 'hidden',
+    borderBottomWidth: 1,
   },
-  messageImage: {
-    width: 200,
-    height: 150,
-    borderRadius: 8,
-    resizeMode: 'cover',
+  imageContextThumbnail: {
+    width: 28,
+    height: 28,
+    borderRadius: 4,
+  },
+  imageContextText: {
+    flex: 1,
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
+  imageModeToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  imageModeToggleText: {
+    fontSize: 13,
+    marginLeft: 6,
+    flex: 1,
+  },
+  altTextRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  altText: {
+    flex: 1,
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginHorizontal: 6,
   },
   messageTypeIndicator: {
     flexDirection: 'row',
@@ -1131,4 +2108,34 @@ const styles = StyleSheet.create({
     padding: 4,
     marginLeft: 8,
   },
+  loadingOlder: {
+    marginBottom: 12,
+  },
+  highlightedBubble: {
+    borderWidth: 2,
+  },
+  regeneratingBubble: {
+    opacity: 0.6,
+  },
+  outboxBubble: {
+    opacity: 0.75,
+  },
+  outboxStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  outboxStatus: {
+    marginTop: 0,
+    marginHorizontal: 4,
+  },
+  versionSwitcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  versionText: {
+    fontSize: 11,
+    marginHorizontal: 4,
+  },
 });
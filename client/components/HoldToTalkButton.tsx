@@ -0,0 +1,77 @@
+import * as React from 'react';
+import { useRef, useEffect } from 'react';
+import { View, PanResponder, StyleProp, ViewStyle } from 'react-native';
+
+// How far left the finger has to slide to throw the recording away
+export const CANCEL_DISTANCE = 80;
+
+interface HoldToTalkButtonProps {
+  style?: StyleProp<ViewStyle>;
+  disabled?: boolean;
+  accessibilityLabel?: string;
+  onStart: () => void;
+  onSlide: (cancelling: boolean) => void;
+  onRelease: (cancelled: boolean) => void;
+  children: React.ReactNode;
+}
+
+// Records for as long as it is held. Sliding left past CANCEL_DISTANCE and
+// letting go throws the recording away; sliding back keeps it.
+export default function HoldToTalkButton({
+  style,
+  disabled,
+  accessibilityLabel,
+  onStart,
+  onSlide,
+  onRelease,
+  children,
+}: HoldToTalkButtonProps) {
+  // The responder is created once, so it reads the latest props from a ref
+  const propsRef = useRef({ disabled, onStart, onSlide, onRelease });
+  useEffect(() => {
+    propsRef.current = { disabled, onStart, onSlide, onRelease };
+  }, [disabled, onStart, onSlide, onRelease]);
+
+  const cancellingRef = useRef(false);
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => !propsRef.current.disabled,
+      onMoveShouldSetPanResponder: () => false,
+      // Keep the gesture when the finger leaves the button or a parent scrolls
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        cancellingRef.current = false;
+        propsRef.current.onStart();
+      },
+      onPanResponderMove: (_event, gesture) => {
+        const cancelling = gesture.dx < -CANCEL_DISTANCE;
+        if (cancelling !== cancellingRef.current) {
+          cancellingRef.current = cancelling;
+          propsRef.current.onSlide(cancelling);
+        }
+      },
+      onPanResponderRelease: () => {
+        propsRef.current.onRelease(cancellingRef.current);
+      },
+      // Taken away by the system (an incoming call, say): nothing to send
+      onPanResponderTerminate: () => {
+        propsRef.current.onRelease(true);
+      },
+    })
+  ).current;
+
+  return (
+    <View
+      style={style}
+      accessible
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityHint="Hold to record, release to transcribe, slide left to cancel"
+      accessibilityState={{ disabled: !!disabled }}
+      {...panResponder.panHandlers}
+    >
+      {children}
+    </View>
+  );
+}
@@ -0,0 +1,154 @@
+import * as React from 'react';
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  Modal,
+  ScrollView,
+  useWindowDimensions,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface GalleryImage {
+  uri: string;
+  thumbnailUri?: string; // Shown in the bubble; the full image opens on tap
+}
+
+interface ImageGalleryProps {
+  images: GalleryImage[];
+  accessibilityLabel?: string; // Describes the first image, e.g. its alt text
+}
+
+const GRID_WIDTH = 200;
+const GAP = 4;
+
+// The images of a message bubble: one large image, or a grid of numbered
+// thumbnails matching how the model refers to them ("image 2"). Tapping an
+// image opens it full screen, where the others are a swipe away.
+export default function ImageGallery({ images, accessibilityLabel }: ImageGalleryProps) {
+  const [viewing, setViewing] = useState<number | null>(null);
+  const { width, height } = useWindowDimensions();
+
+  if (images.length === 0) return null;
+
+  const tileSize = (GRID_WIDTH - GAP) / 2;
+  const describe = (index: number) => (index === 0 && accessibilityLabel)
+    || (images.length > 1 ? `Image ${index + 1} of ${images.length}` : 'Attached image');
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setViewing(Math.round(event.nativeEvent.contentOffset.x / width));
+  };
+
+  return (
+    <View style={styles.container}>
+      {images.length === 1 ? (
+        <TouchableOpacity onPress={() => setViewing(0)} accessibilityRole="imagebutton" accessibilityLabel={describe(0)}>
+          <Image source={{ uri: images[0].thumbnailUri || images[0].uri }} style={styles.single} />
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.grid}>
+          {images.map(({ uri, thumbnailUri }, index) => (
+            <TouchableOpacity
+              key={`${uri}-${index}`}
+              onPress={() => setViewing(index)}
+              accessibilityRole="imagebutton"
+              accessibilityLabel={describe(index)}
+            >
+              <Image source={{ uri: thumbnailUri || uri }} style={[styles.tile, { width: tileSize, height: tileSize }]} />
+              <View style={styles.badge}>
+                <Text style={styles.badgeText}>{index + 1}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <Modal visible={viewing !== null} transparent animationType="fade" onRequestClose={() => setViewing(null)}>
+        <View style={styles.viewer}>
+          <ScrollView
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            contentOffset={{ x: (viewing || 0) * width, y: 0 }}
+            onMomentumScrollEnd={handleScroll}
+          >
+            {images.map(({ uri }, index) => (
+              <Image
+                key={`${uri}-${index}`}
+                source={{ uri }}
+                style={{ width, height }}
+                resizeMode="contain"
+                accessibilityLabel={describe(index)}
+              />
+            ))}
+          </ScrollView>
+          {images.length > 1 && viewing !== null && (
+            <Text style={styles.counter}>{viewing + 1} / {images.length}</Text>
+          )}
+          <TouchableOpacity style={styles.closeButton} onPress={() => setViewing(null)} accessibilityLabel="Close image">
+            <Ionicons name="close" size={28} color="white" />
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+  },
+  single: {
+    width: GRID_WIDTH,
+    height: 150,
+    borderRadius: 8,
+    resizeMode: 'cover',
+  },
+  grid: {
+    width: GRID_WIDTH,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: GAP,
+  },
+  tile: {
+    borderRadius: 8,
+    resizeMode: 'cover',
+  },
+  badge: {
+    position: 'absolute',
+    top: 4,
+    left: 4,
+    minWidth: 18,
+    paddingHorizontal: 4,
+    borderRadius: 9,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  counter: {
+    position: 'absolute',
+    bottom: 48,
+    alignSelf: 'center',
+    color: 'white',
+    fontSize: 14,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 48,
+    right: 20,
+    padding: 8,
+  },
+});
@@ -0,0 +1,120 @@
+import * as React from 'react';
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import chatService, { AIModelOption } from '@/services/chatService';
+
+interface ModelSelectorProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelectModel: (option: AIModelOption) => void;
+}
+
+export default function ModelSelector({ visible, onClose, onSelectModel }: ModelSelectorProps) {
+  const { theme } = useTheme();
+  const [models, setModels] = useState<AIModelOption[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (visible) {
+      loadModels();
+    }
+  }, [visible]);
+
+  const loadModels = async () => {
+    setLoading(true);
+    setModels(await chatService.getAvailableModels());
+    setLoading(false);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={[styles.header, { borderBottomColor: theme.border }]}>
+          <Text style={[styles.title, { color: theme.text }]}>Regenerate with...</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={[styles.closeButtonText, { color: theme.primary }]}>Close</Text>
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={theme.primary} />
+          </View>
+        ) : models.length === 0 ? (
+          <View style={styles.centered}>
+            <Text style={{ color: theme.textSecondary }}>No AI models are available right now.</Text>
+          </View>
+        ) : (
+          <ScrollView>
+            {models.map(option => (
+              <TouchableOpacity
+                key={`${option.provider}:${option.model}`}
+                style={[styles.modelRow, { borderBottomColor: theme.border }]}
+                onPress={() => onSelectModel(option)}
+              >
+                <Ionicons name="hardware-chip-outline" size={20} color={theme.primary} />
+                <View style={styles.modelInfo}>
+                  <Text style={[styles.modelName, { color: theme.text }]}>{option.model}</Text>
+                  <Text style={[styles.providerName, { color: theme.textSecondary }]}>{option.displayName}</Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  closeButtonText: {
+    fontSize: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  modelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  modelInfo: {
+    marginLeft: 12,
+  },
+  modelName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  providerName: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,71 @@
+import * as React from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import connectivity from '@/services/connectivity';
+
+interface OfflineBannerProps {
+  // Called once the server is reachable again
+  onReconnect?: () => void;
+}
+
+export default function OfflineBanner({ onReconnect }: OfflineBannerProps) {
+  const { theme } = useTheme();
+  const online = useOnlineStatus();
+  const [checking, setChecking] = useState(false);
+  const wasOnlineRef = useRef(online);
+  const onReconnectRef = useRef(onReconnect);
+  onReconnectRef.current = onReconnect;
+
+  useEffect(() => {
+    if (online && !wasOnlineRef.current) {
+      onReconnectRef.current?.();
+    }
+    wasOnlineRef.current = online;
+  }, [online]);
+
+  const handleRetry = async () => {
+    setChecking(true);
+    await connectivity.check();
+    setChecking(false);
+  };
+
+  if (online) return null;
+
+  return (
+    <View style={[styles.banner, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+      <Ionicons name="cloud-offline-outline" size={18} color={theme.textSecondary} />
+      <Text style={[styles.text, { color: theme.textSecondary }]}>
+        Offline — showing saved conversations
+      </Text>
+      {checking ? (
+        <ActivityIndicator size="small" color={theme.primary} />
+      ) : (
+        <TouchableOpacity onPress={handleRetry}>
+          <Text style={[styles.retryText, { color: theme.primary }]}>Retry</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
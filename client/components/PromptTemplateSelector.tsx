@@ -12,20 +12,27 @@ import {
 } from 'react-native';
 import { Colors } from '../constants/Colors';
 import { useColorScheme } from '../hooks/useColorScheme';
-import promptTemplateService, { PromptTemplate } from '../services/promptTemplateService';
+import promptTemplateService, {
+  PromptTemplate,
+  PromptTemplateVariable,
+  TemplateVariableValues
+} from '../services/promptTemplateService';
 
 interface PromptTemplateSelectorProps {
   visible: boolean;
   onClose: () => void;
-  onSelectTemplate: (template: PromptTemplate) => void;
+  // `variables` has a value for each of the template's variables, if it has any
+  onSelectTemplate: (template: PromptTemplate, variables?: TemplateVariableValues) => void;
   selectedTemplateId?: string;
+  selectedTemplateVariables?: TemplateVariableValues;
 }
 
 export default function PromptTemplateSelector({
   visible,
   onClose,
   onSelectTemplate,
-  selectedTemplateId
+  selectedTemplateId,
+  selectedTemplateVariables
 }: PromptTemplateSelectorProps) {
   const colorScheme = useColorScheme();
   const [templates, setTemplates] = useState<PromptTemplate[]>([]);
@@ -34,6 +41,7 @@ export default function PromptTemplateSelector({
   const [searchTerm, setSearchTerm] = useState('');
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<PromptTemplate | null>(null);
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
 
   const styles = getStyles(colorScheme ?? 'light');
   const colors = Colors[colorScheme ?? 'light'];
@@ -64,16 +72,23 @@ export default function PromptTemplateSelector({
     }
   };
 
-  const handleSelectTemplate = async (template: PromptTemplate) => {
+  const handleSelectTemplate = async (template: PromptTemplate, variables?: TemplateVariableValues) => {
+    // Templates with variables are filled in first
+    if (template.variables?.length && !variables) {
+      setFillingTemplate(template);
+      return;
+    }
+
+    setFillingTemplate(null);
     try {
       // Record usage
       await promptTemplateService.useTemplate(template._id);
-      onSelectTemplate(template);
+      onSelectTemplate(template, variables);
       onClose();
     } catch (error) {
       console.error('Error using template:', error);
       // Still allow selection even if usage tracking fails
-      onSelectTemplate(template);
+      onSelectTemplate(template, variables);
       onClose();
     }
   };
@@ -236,6 +251,11 @@ export default function PromptTemplateSelector({
                       {template.isSystemTemplate && (
                         <Text style={styles.systemBadge}>System</Text>
                       )}
+                      {!!template.variables?.length && (
+                        <Text style={styles.systemBadge}>
+                          {template.variables.length} {template.variables.length === 1 ? 'field' : 'fields'}
+                        </Text>
+                      )}
                     </View>
                   </View>
                 </TouchableOpacity>
@@ -287,10 +307,187 @@ export default function PromptTemplateSelector({
           loadTemplates();
         }}
       />
+
+      <VariablesForm
+        template={fillingTemplate}
+        initialValues={fillingTemplate?._id === selectedTemplateId ? selectedTemplateVariables : undefined}
+        onClose={() => setFillingTemplate(null)}
+        onSubmit={(values) => fillingTemplate && handleSelectTemplate(fillingTemplate, values)}
+      />
+    </Modal>
+  );
+}
+
+// Form for a template's variables: a text field for text, numbers and
+// languages, a choice of chips for options. Defaults are filled in; the
+// server checks the values again when the message is sent.
+function VariablesForm({
+  template,
+  initialValues,
+  onClose,
+  onSubmit
+}: {
+  template: PromptTemplate | null;
+  initialValues?: TemplateVariableValues;
+  onClose: () => void;
+  onSubmit: (values: TemplateVariableValues) => void;
+}) {
+  const colorScheme = useColorScheme();
+  const [values, setValues] = useState<TemplateVariableValues>({});
+  const [errors, setErrors] = useState<TemplateVariableValues>({});
+
+  const styles = getStyles(colorScheme ?? 'light');
+  const colors = Colors[colorScheme ?? 'light'];
+  const variables = template?.variables ?? [];
+
+  useEffect(() => {
+    const defaults: TemplateVariableValues = {};
+    template?.variables?.forEach(variable => {
+      const value = initialValues?.[variable.name] ?? variable.default;
+      if (value !== undefined) {
+        defaults[variable.name] = value;
+      }
+    });
+    setValues(defaults);
+    setErrors({});
+  }, [template, initialValues]);
+
+  const setValue = (name: string, value: string) => {
+    setValues(prev => ({ ...prev, [name]: value }));
+    setErrors(prev => ({ ...prev, [name]: '' }));
+  };
+
+  const handleSubmit = () => {
+    const found: TemplateVariableValues = {};
+    variables.forEach(variable => {
+      const value = values[variable.name]?.trim() ?? '';
+      if (!value) {
+        if (variable.required) found[variable.name] = 'Required';
+      } else if (variable.type === 'number' && !Number.isFinite(Number(value))) {
+        found[variable.name] = 'Enter a number';
+      }
+    });
+
+    if (Object.keys(found).length > 0) {
+      setErrors(found);
+      return;
+    }
+
+    const filled: TemplateVariableValues = {};
+    Object.entries(values).forEach(([name, value]) => {
+      if (value.trim()) filled[name] = value.trim();
+    });
+    onSubmit(filled);
+  };
+
+  return (
+    <Modal visible={!!template} animationType="slide" presentationStyle="pageSheet">
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title} numberOfLines={1}>{template?.name}</Text>
+          <View style={styles.headerButtons}>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSubmit}>
+              <Text style={styles.saveButtonText}>Use</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Text style={styles.closeButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ScrollView style={styles.formContainer} keyboardShouldPersistTaps="handled">
+          {variables.map(variable => (
+            <View key={variable.name} style={styles.formGroup}>
+              <Text style={styles.label}>
+                {variable.label}{variable.required ? '' : ' (optional)'}
+              </Text>
+              {variable.type === 'enum' ? (
+                <View style={styles.optionsRow}>
+                  {variable.options?.map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[
+                        styles.categoryButton,
+                        values[variable.name] === option && styles.activeCategoryButton
+                      ]}
+                      onPress={() => setValue(variable.name, option)}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected: values[variable.name] === option }}
+                      accessibilityLabel={`${variable.label}: ${option}`}
+                    >
+                      <Text style={[
+                        styles.categoryButtonText,
+                        values[variable.name] === option && styles.activeCategoryButtonText
+                      ]}>
+                        {option}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              ) : (
+                <TextInput
+                  style={styles.input}
+                  value={values[variable.name] ?? ''}
+                  onChangeText={(value) => setValue(variable.name, value)}
+                  placeholder={variable.type === 'language' ? 'Language code, e.g. en-US or fr' : variable.label}
+                  placeholderTextColor={colors.tabIconDefault}
+                  keyboardType={variable.type === 'number' ? 'numeric' : 'default'}
+                  autoCapitalize={variable.type === 'language' ? 'none' : 'sentences'}
+                  autoCorrect={variable.type === 'text'}
+                  maxLength={200}
+                  accessibilityLabel={variable.label}
+                />
+              )}
+              {!!errors[variable.name] && (
+                <Text style={styles.fieldError}>{errors[variable.name]}</Text>
+              )}
+            </View>
+          ))}
+        </ScrollView>
+      </View>
     </Modal>
   );
 }
 
+// A variable as edited in the template form; enum options are typed on one
+// line, separated by commas
+interface VariableDraft {
+  name: string;
+  label: string;
+  type: PromptTemplateVariable['type'];
+  optionsText: string;
+  default: string;
+  required: boolean;
+}
+
+const VARIABLE_TYPES: { type: PromptTemplateVariable['type']; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'language', label: 'Language' },
+  { type: 'enum', label: 'Choice' }
+];
+
+const toDraft = (variable: PromptTemplateVariable): VariableDraft => ({
+  name: variable.name,
+  label: variable.label,
+  type: variable.type,
+  optionsText: variable.options?.join(', ') ?? '',
+  default: variable.default ?? '',
+  required: variable.required
+});
+
+// The server fills in labels and checks the rest
+const fromDraft = (draft: VariableDraft): PromptTemplateVariable => ({
+  name: draft.name.trim(),
+  label: draft.label.trim(),
+  type: draft.type,
+  options: draft.type === 'enum'
+    ? draft.optionsText.split(',').map(option => option.trim()).filter(Boolean)
+    : undefined,
+  default: draft.default.trim() || undefined,
+  required: draft.required
+});
+
 // Simple form component for creating/editing templates
 function TemplateForm({ 
   visible, 
@@ -308,6 +505,7 @@ function TemplateForm({
   const [description, setDescription] = useState('');
   const [templateText, setTemplateText] = useState('');
   const [category, setCategory] = useState<PromptTemplate['category']>('custom');
+  const [variables, setVariables] = useState<VariableDraft[]>([]);
   const [saving, setSaving] = useState(false);
 
   const styles = getStyles(colorScheme ?? 'light');
@@ -319,14 +517,31 @@ function TemplateForm({
       setDescription(template.description);
       setTemplateText(template.template);
       setCategory(template.category);
+      setVariables(template.variables?.map(toDraft) ?? []);
     } else {
       setName('');
       setDescription('');
       setTemplateText('');
       setCategory('custom');
+      setVariables([]);
     }
   }, [template, visible]);
 
+  const updateVariable = (index: number, changes: Partial<VariableDraft>) => {
+    setVariables(prev => prev.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)));
+  };
+
+  const addVariable = () => {
+    setVariables(prev => [
+      ...prev,
+      { name: '', label: '', type: 'text', optionsText: '', default: '', required: true }
+    ]);
+  };
+
+  const removeVariable = (index: number) => {
+    setVariables(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleSave = async () => {
     if (!name.trim() || !description.trim() || !templateText.trim()) {
       Alert.alert('Error', 'Please fill in all fields');
@@ -339,7 +554,8 @@ function TemplateForm({
         name: name.trim(),
         description: description.trim(),
         template: templateText.trim(),
-        category
+        category,
+        variables: variables.map(fromDraft)
       };
 
       if (template) {
@@ -351,7 +567,8 @@ function TemplateForm({
       onSave();
     } catch (error) {
       console.error('Error saving template:', error);
-      Alert.alert('Error', 'Failed to save template');
+      // Say what is wrong, e.g. a variable the text doesn't use
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save template');
     } finally {
       setSaving(false);
     }
@@ -414,6 +631,99 @@ function TemplateForm({
               multiline
               numberOfLines={6}
             />
+            <Text style={styles.hint}>
+              {'Use {prompt} for the message and {name} for each variable below. Other braces are sent as written.'}
+            </Text>
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Variables</Text>
+            {variables.map((variable, index) => (
+              <View key={index} style={styles.variableCard}>
+                <View style={styles.variableRow}>
+                  <TextInput
+                    style={[styles.input, styles.variableInput]}
+                    value={variable.name}
+                    onChangeText={(name) => updateVariable(index, { name })}
+                    placeholder="Name, e.g. audience"
+                    placeholderTextColor={colors.tabIconDefault}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    accessibilityLabel={`Variable ${index + 1} name`}
+                  />
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.deleteButton]}
+                    onPress={() => removeVariable(index)}
+                    accessibilityLabel={`Remove variable ${variable.name || index + 1}`}
+                  >
+                    <Text style={[styles.actionButtonText, styles.deleteButtonText]}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+                <TextInput
+                  style={styles.input}
+                  value={variable.label}
+                  onChangeText={(label) => updateVariable(index, { label })}
+                  placeholder="Label shown to the user (optional)"
+                  placeholderTextColor={colors.tabIconDefault}
+                  accessibilityLabel={`Variable ${index + 1} label`}
+                />
+                <View style={styles.optionsRow}>
+                  {VARIABLE_TYPES.map(({ type, label }) => (
+                    <TouchableOpacity
+                      key={type}
+                      style={[styles.categoryButton, variable.type === type && styles.activeCategoryButton]}
+                      onPress={() => updateVariable(index, { type })}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected: variable.type === type }}
+                    >
+                      <Text style={[
+                        styles.categoryButtonText,
+                        variable.type === type && styles.activeCategoryButtonText
+                      ]}>
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {variable.type === 'enum' && (
+                  <TextInput
+                    style={styles.input}
+                    value={variable.optionsText}
+                    onChangeText={(optionsText) => updateVariable(index, { optionsText })}
+                    placeholder="Options, separated by commas"
+                    placeholderTextColor={colors.tabIconDefault}
+                    accessibilityLabel={`Variable ${index + 1} options`}
+                  />
+                )}
+                <View style={styles.variableRow}>
+                  <TextInput
+                    style={[styles.input, styles.variableInput]}
+                    value={variable.default}
+                    onChangeText={(value) => updateVariable(index, { default: value })}
+                    placeholder="Default (optional)"
+                    placeholderTextColor={colors.tabIconDefault}
+                    keyboardType={variable.type === 'number' ? 'numeric' : 'default'}
+                    accessibilityLabel={`Variable ${index + 1} default`}
+                  />
+                  <TouchableOpacity
+                    style={[styles.categoryButton, !variable.required && styles.activeCategoryButton]}
+                    onPress={() => updateVariable(index, { required: !variable.required })}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: !variable.required }}
+                  >
+                    <Text style={[
+                      styles.categoryButtonText,
+                      !variable.required && styles.activeCategoryButtonText
+                    ]}>
+                      Optional
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+            <TouchableOpacity style={styles.actionButton} onPress={addVariable}>
+              <Text style={styles.actionButtonText}>Add variable</Text>
+            </TouchableOpacity>
           </View>
         </ScrollView>
       </View>
@@ -622,5 +932,36 @@ const getStyles = (colorScheme: 'light' | 'dark') => {
       height: 120,
       textAlignVertical: 'top',
     },
+    hint: {
+      fontSize: 12,
+      color: colors.tabIconDefault,
+      marginTop: 6,
+    },
+    optionsRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      rowGap: 8,
+    },
+    variableCard: {
+      borderWidth: 1,
+      borderColor: colors.tabIconDefault,
+      borderRadius: 8,
+      padding: 12,
+      marginBottom: 12,
+      gap: 8,
+    },
+    variableRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    variableInput: {
+      flex: 1,
+    },
+    fieldError: {
+      fontSize: 12,
+      color: '#ff4444',
+      marginTop: 4,
+    },
   });
 };
@@ -74,6 +74,12 @@ export default function Sidebar({ isOpen, onClose, currentTab }: SidebarProps) {
       icon: 'time-outline',
       route: '/(tabs)/history',
     },
+    {
+      id: 'analytics',
+      label: 'Analytics',
+      icon: 'bar-chart-outline',
+      route: '/(tabs)/analytics',
+    },
     {
       id: 'settings',
       label: 'Settings',
@@ -0,0 +1,374 @@
+import * as React from 'react';
+import { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  Platform,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Audio } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import * as Speech from 'expo-speech';
+import { useTheme } from '@/contexts/ThemeContext';
+import chatService, { Message } from '@/services/chatService';
+import talkService, {
+  SPEECH_RECORDING_ENCODING,
+  SPEECH_RECORDING_OPTIONS,
+  TalkConnection,
+  TalkEvent,
+  TalkSpeech,
+  TalkState,
+  readAudioAsBase64,
+} from '@/services/talkService';
+
+// The microphone is recorded in short segments, each sent as soon as it ends
+const SEGMENT_MS = 1000;
+
+const STATE_LABELS: Record<TalkState | 'connecting', string> = {
+  connecting: 'Connecting...',
+  listening: 'Listening',
+  thinking: 'Thinking...',
+  speaking: 'Speaking',
+};
+
+const STATE_ICONS: Record<TalkState | 'connecting', keyof typeof Ionicons.glyphMap> = {
+  connecting: 'hourglass-outline',
+  listening: 'mic',
+  thinking: 'ellipsis-horizontal',
+  speaking: 'volume-high',
+};
+
+interface TalkModeProps {
+  visible: boolean;
+  sessionId: string | null;
+  onClose: () => void;
+  onMessage: (message: Message) => void; // Each message saved to the session
+}
+
+// Hands-free conversation: the microphone stays open, the server decides when
+// the user has finished talking, and the reply is read aloud as it is
+// written. Talking over the reply stops it.
+export default function TalkMode({ visible, sessionId, onClose, onMessage }: TalkModeProps) {
+  const { theme } = useTheme();
+  const [state, setState] = useState<TalkState | 'connecting'>('connecting');
+  const [heard, setHeard] = useState('');
+  const [reply, setReply] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const connectionRef = useRef<TalkConnection | null>(null);
+
+  // Kept in refs so new callbacks from the parent do not reconnect
+  const onMessageRef = useRef(onMessage);
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+    onCloseRef.current = onClose;
+  }, [onMessage, onClose]);
+
+  useEffect(() => {
+    if (!visible || !sessionId) return;
+
+    let active = true;
+    let connection: TalkConnection | null = null;
+    let recording: Audio.Recording | null = null;
+    let sound: Audio.Sound | null = null;
+    let queue: TalkSpeech[] = [];
+    let playing = false;
+    let playback = 0; // Bumped when playback is stopped, so audio still loading is dropped
+
+    setState('connecting');
+    setHeard('');
+    setReply('');
+    setError(null);
+
+    const setPlaying = (value: boolean) => {
+      if (playing === value) return;
+      playing = value;
+      connection?.setPlayback(value);
+    };
+
+    const stopPlayback = () => {
+      playback += 1;
+      queue = [];
+      Speech.stop();
+      if (sound) {
+        sound.unloadAsync().catch(unloadError => console.log('Error unloading reply audio:', unloadError));
+        sound = null;
+      }
+      setPlaying(false);
+    };
+
+    // Play the reply one sentence at a time, in the order it arrives
+    const playNext = async () => {
+      const next = queue.shift();
+      if (!next || !active) {
+        setPlaying(false);
+        return;
+      }
+      setPlaying(true);
+
+      if (!next.fileName) {
+        Speech.speak(next.text, {
+          language: next.language || undefined,
+          onDone: () => {
+            playNext();
+          },
+          onError: () => {
+            playNext();
+          },
+        });
+        return;
+      }
+
+      const current = playback;
+      try {
+        const { sound: created } = await Audio.Sound.createAsync(
+          { uri: chatService.getVoiceUrl(next.fileName) },
+          { shouldPlay: true }
+        );
+        if (current !== playback || !active) {
+          created.unloadAsync();
+          return;
+        }
+        sound = created;
+        created.setOnPlaybackStatusUpdate((status) => {
+          if (status.isLoaded && status.didJustFinish) {
+            created.unloadAsync();
+            if (sound === created) {
+              sound = null;
+              playNext();
+            }
+          }
+        });
+      } catch (playError) {
+        console.log('Could not play reply audio:', playError);
+        if (current === playback) playNext();
+      }
+    };
+
+    const record = async () => {
+      const permission = await Audio.requestPermissionsAsync();
+      if (permission.status !== 'granted') {
+        Alert.alert('Permission Required', 'Please allow microphone access to talk with EchoMind.');
+        onCloseRef.current();
+        return;
+      }
+
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: true,
+        playsInSilentModeIOS: true,
+      });
+
+      while (active) {
+        try {
+          const created = await Audio.Recording.createAsync(SPEECH_RECORDING_OPTIONS);
+          recording = created.recording;
+          await new Promise(resolve => setTimeout(resolve, SEGMENT_MS));
+          if (!active || !recording) break;
+
+          await recording.stopAndUnloadAsync();
+          const uri = recording.getURI();
+          recording = null;
+
+          if (uri) {
+            connection?.sendAudio(await readAudioAsBase64(uri), SPEECH_RECORDING_ENCODING);
+            if (Platform.OS !== 'web') {
+              FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+            }
+          }
+        } catch (recordError) {
+          console.error('Talk mode recording error:', recordError);
+          setError('Could not record audio');
+          break;
+        }
+      }
+    };
+
+    const handleEvent = (event: TalkEvent) => {
+      switch (event.type) {
+        case 'ready':
+          setState('listening');
+          record();
+          break;
+        case 'state':
+          setState(event.state);
+          break;
+        case 'speech_start':
+          setHeard('');
+          break;
+        case 'partial':
+          setHeard(event.text);
+          break;
+        case 'transcript':
+          if (event.text) setHeard(event.text);
+          break;
+        case 'user_message':
+          setReply('');
+          onMessageRef.current(event.userMessage);
+          break;
+        case 'token':
+          setReply(previous => previous + event.delta);
+          break;
+        case 'speech':
+          queue.push(event);
+          if (!playing) playNext();
+          break;
+        case 'ai_message':
+          setReply(event.aiResponse.content);
+          onMessageRef.current(event.aiResponse);
+          break;
+        case 'interrupted':
+          stopPlayback();
+          break;
+        case 'error':
+          setError(event.message);
+          break;
+      }
+    };
+
+    talkService.connect(sessionId, {
+      onEvent: handleEvent,
+      onClose: (_code, reason) => {
+        if (active) {
+          setError(reason || 'Connection closed');
+          setState('connecting');
+        }
+      },
+    }).then(created => {
+      if (active) {
+        connection = created;
+        connectionRef.current = created;
+      } else {
+        created.close();
+      }
+    });
+
+    return () => {
+      active = false;
+      stopPlayback();
+      recording?.stopAndUnloadAsync().catch(() => {});
+      connection?.close();
+      connectionRef.current = null;
+    };
+  }, [visible, sessionId]);
+
+  // While listening the button ends the utterance right away; otherwise it
+  // stops the reply
+  const handleMainButton = () => {
+    if (state === 'listening') {
+      connectionRef.current?.endOfSpeech();
+    } else {
+      connectionRef.current?.interrupt();
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={[styles.header, { borderBottomColor: theme.border }]}>
+          <Text style={[styles.title, { color: theme.text }]}>Talk mode</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={[styles.closeButtonText, { color: theme.primary }]}>End</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.transcript}>
+          {heard ? (
+            <View style={styles.turn}>
+              <Text style={[styles.speaker, { color: theme.textSecondary }]}>You</Text>
+              <Text style={[styles.turnText, { color: theme.text }]}>{heard}</Text>
+            </View>
+          ) : null}
+          {reply ? (
+            <View style={styles.turn}>
+              <Text style={[styles.speaker, { color: theme.textSecondary }]}>EchoMind</Text>
+              <Text style={[styles.turnText, { color: theme.text }]}>{reply}</Text>
+            </View>
+          ) : null}
+        </ScrollView>
+
+        {error ? <Text style={[styles.error, { color: theme.error }]}>{error}</Text> : null}
+
+        <View style={styles.controls}>
+          <TouchableOpacity
+            style={[styles.mainButton, { backgroundColor: state === 'listening' ? theme.primary : theme.error }]}
+            onPress={handleMainButton}
+            disabled={state === 'connecting'}
+            accessibilityLabel={state === 'listening' ? 'Done talking' : 'Stop the reply'}
+          >
+            <Ionicons name={STATE_ICONS[state]} size={40} color="white" />
+          </TouchableOpacity>
+          <Text style={[styles.stateLabel, { color: theme.text }]}>{STATE_LABELS[state]}</Text>
+          <Text style={[styles.hint, { color: theme.textSecondary }]}>
+            {state === 'listening' ? 'Tap when you are done talking' : 'Tap or start talking to interrupt'}
+          </Text>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  closeButtonText: {
+    fontSize: 16,
+  },
+  transcript: {
+    padding: 24,
+  },
+  turn: {
+    marginBottom: 20,
+  },
+  speaker: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  turnText: {
+    fontSize: 18,
+    lineHeight: 26,
+  },
+  error: {
+    textAlign: 'center',
+    paddingHorizontal: 24,
+    marginBottom: 8,
+  },
+  controls: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  mainButton: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  stateLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+});
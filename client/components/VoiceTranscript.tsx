@@ -0,0 +1,46 @@
+import * as React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import type { TranscriptTiming } from '@/services/chatService';
+
+interface VoiceTranscriptProps {
+  timings: TranscriptTiming[];
+  // Playback position in seconds, or null when this recording is not loaded
+  position: number | null;
+  onSeek: (seconds: number) => void;
+  style?: StyleProp<TextStyle>;
+  highlightColor: string;
+}
+
+// Transcript of a voice message that follows playback karaoke-style:
+// the word being spoken is highlighted, and tapping a word seeks to it
+export default function VoiceTranscript({ timings, position, onSeek, style, highlightColor }: VoiceTranscriptProps) {
+  // The last word that has started, so the highlight stays put in pauses between words
+  const current = position === null
+    ? -1
+    : timings.reduce((found, timing, index) => (timing.start <= position ? index : found), -1);
+
+  return (
+    <Text style={style}>
+      {timings.map((timing, index) => (
+        <React.Fragment key={`${index}-${timing.start}`}>
+          {index > 0 && !/^[.,!?;:]/.test(timing.text) ? ' ' : null}
+          <Text
+            onPress={() => onSeek(timing.start)}
+            style={index === current && [styles.current, { backgroundColor: highlightColor }]}
+            accessibilityRole="button"
+            accessibilityHint="Plays the recording from this word"
+          >
+            {timing.text}
+          </Text>
+        </React.Fragment>
+      ))}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  current: {
+    borderRadius: 4,
+    fontWeight: '600',
+  },
+});
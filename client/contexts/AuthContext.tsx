@@ -1,6 +1,8 @@
 import * as React from 'react';
 import { createContext, useContext, useEffect, useState } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import offlineCache from '@/services/offlineCache';
+import outbox from '@/services/outbox';
 
 interface User {
   id: string;
@@ -69,7 +71,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       await Promise.all([
         AsyncStorage.removeItem('authToken'),
-        AsyncStorage.removeItem('userData')
+        AsyncStorage.removeItem('userData'),
+        offlineCache.clear(),
+        outbox.clear()
       ]);
       
       setToken(null);
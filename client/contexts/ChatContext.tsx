@@ -6,6 +6,9 @@ interface ChatContextType {
   setSelectedSessionId: (sessionId: string | null) => void;
   shouldLoadSpecificSession: boolean;
   setShouldLoadSpecificSession: (should: boolean) => void;
+  // Message to scroll to when the selected session opens (e.g. a search hit)
+  targetMessageId: string | null;
+  setTargetMessageId: (messageId: string | null) => void;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
@@ -13,6 +16,7 @@ const ChatContext = createContext<ChatContextType | undefined>(undefined);
 export function ChatProvider({ children }: { children: ReactNode }) {
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
   const [shouldLoadSpecificSession, setShouldLoadSpecificSession] = useState(false);
+  const [targetMessageId, setTargetMessageId] = useState<string | null>(null);
 
   return (
     <ChatContext.Provider
@@ -21,6 +25,8 @@ export function ChatProvider({ children }: { children: ReactNode }) {
         setSelectedSessionId,
         shouldLoadSpecificSession,
         setShouldLoadSpecificSession,
+        targetMessageId,
+        setTargetMessageId,
       }}
     >
       {children}
@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Alert, Platform } from 'react-native';
+import { Audio } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import connectivity from '@/services/connectivity';
+import talkService, {
+  DictationConnection,
+  SPEECH_RECORDING_ENCODING,
+  SPEECH_RECORDING_OPTIONS,
+  readAudioAsBase64,
+} from '@/services/talkService';
+
+export type DictationStatus = 'idle' | 'recording' | 'transcribing';
+
+// What a finished recording became: the transcript to edit, or, when there
+// was no connection to transcribe it, the recording itself
+export interface DictationResult {
+  text: string | null;
+  language?: string | null;
+  error?: string;
+  uri?: string;
+}
+
+// Short segments keep partial transcripts coming while the button is held
+const SEGMENT_MS = 800;
+
+// How many recent loudness readings the waveform shows
+export const WAVEFORM_BARS = 32;
+
+// Longest wait for the final transcript after release
+const FINAL_TIMEOUT_MS = 30000;
+
+interface Run {
+  active: boolean;
+  cancelled: boolean;
+  offline: boolean;
+  startedAt: number;
+  recording: Audio.Recording | null;
+  connection: DictationConnection | null;
+  uri: string | null; // Whole recording, when offline
+  wake: (() => void) | null; // Ends the segment being recorded early
+  loop: Promise<void>;
+  final: Promise<DictationResult>;
+}
+
+// Metering is in dBFS (-160 to 0); speech sits in the top 60 dB
+const toLevel = (metering: number) => Math.min(Math.max((metering + 60) / 60, 0), 1);
+
+const deleteRecording = (uri: string) => {
+  if (Platform.OS !== 'web') {
+    FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+  }
+};
+
+// Press-and-hold recording with live transcripts. While online the recording
+// is streamed to the server in short segments, which answers with partial
+// transcripts and a final one on release. Offline, one recording is made and
+// handed back to be sent as a voice message once the server is reachable.
+export function useDictation() {
+  const [status, setStatus] = useState<DictationStatus>('idle');
+  const [partial, setPartial] = useState('');
+  const [levels, setLevels] = useState<number[]>([]);
+  const [duration, setDuration] = useState(0);
+  const runRef = useRef<Run | null>(null);
+
+  const handleStatus = useCallback((recordingStatus: Audio.RecordingStatus) => {
+    const run = runRef.current;
+    if (!run || !recordingStatus.isRecording) return;
+
+    setDuration(Math.floor((Date.now() - run.startedAt) / 1000));
+    if (recordingStatus.metering !== undefined) {
+      const level = toLevel(recordingStatus.metering);
+      setLevels(previous => [...previous.slice(-(WAVEFORM_BARS - 1)), level]);
+    }
+  }, []);
+
+  // Record until woken, then stop; resolves with the recording's URI
+  const recordOnce = useCallback(async (run: Run, maxMs?: number): Promise<string | null> => {
+    const { recording } = await Audio.Recording.createAsync(
+      { ...SPEECH_RECORDING_OPTIONS, isMeteringEnabled: true },
+      handleStatus,
+      100
+    );
+    run.recording = recording;
+
+    await new Promise<void>(resolve => {
+      run.wake = resolve;
+      if (!run.active) resolve();
+      if (maxMs) setTimeout(resolve, maxMs);
+    });
+    run.wake = null;
+
+    await recording.stopAndUnloadAsync();
+    run.recording = null;
+    return recording.getURI();
+  }, [handleStatus]);
+
+  const recordSegments = useCallback(async (run: Run) => {
+    while (run.active) {
+      const uri = await recordOnce(run, SEGMENT_MS);
+      if (!uri) continue;
+
+      if (!run.cancelled) {
+        run.connection?.sendAudio(await readAudioAsBase64(uri), SPEECH_RECORDING_ENCODING);
+      }
+      deleteRecording(uri);
+    }
+  }, [recordOnce]);
+
+  const reset = useCallback(() => {
+    runRef.current = null;
+    setStatus('idle');
+    setPartial('');
+    setLevels([]);
+    setDuration(0);
+  }, []);
+
+  // Start recording; false when the microphone cannot be used
+  const start = useCallback(async (): Promise<boolean> => {
+    if (runRef.current) return false;
+
+    try {
+      const permission = await Audio.requestPermissionsAsync();
+      if (permission.status !== 'granted') {
+        Alert.alert('Permission Required', 'Please allow microphone access to record voice messages.');
+        return false;
+      }
+
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: true,
+        playsInSilentModeIOS: true,
+      });
+
+      const offline = !connectivity.isOnline();
+      let settle: (result: DictationResult) => void = () => {};
+      const run: Run = {
+        active: true,
+        cancelled: false,
+        offline,
+        startedAt: Date.now(),
+        recording: null,
+        connection: null,
+        uri: null,
+        wake: null,
+        loop: Promise.resolve(),
+        final: new Promise<DictationResult>(resolve => {
+          settle = resolve;
+        }),
+      };
+      if (!offline) {
+        run.connection = await talkService.dictate({
+          onEvent: (event) => {
+            if (event.type === 'partial' && runRef.current === run) {
+              setPartial(event.text);
+            } else if (event.type === 'final') {
+              settle({ text: event.text, language: event.language, error: event.error });
+            } else if (event.type === 'error') {
+              console.log('Dictation error:', event.message);
+            }
+          },
+          onClose: () => settle({ text: null, error: 'Connection closed' }),
+        });
+      }
+
+      runRef.current = run;
+      setStatus('recording');
+      run.loop = offline
+        ? recordOnce(run).then(uri => {
+            run.uri = uri;
+          })
+        : recordSegments(run);
+      return true;
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      Alert.alert('Error', 'Failed to record voice message. Please try again.');
+      reset();
+      return false;
+    }
+  }, [recordOnce, recordSegments, reset]);
+
+  // Stop recording and wait for the final transcript
+  const finish = useCallback(async (): Promise<DictationResult | null> => {
+    const run = runRef.current;
+    if (!run) return null;
+
+    run.active = false;
+    run.wake?.();
+    setStatus('transcribing');
+
+    try {
+      await run.loop;
+      if (run.offline) {
+        return run.uri ? { text: null, uri: run.uri } : null;
+      }
+
+      run.connection?.finish();
+      return await Promise.race([
+        run.final,
+        new Promise<DictationResult>(resolve =>
+          setTimeout(() => resolve({ text: null, error: 'Transcription timed out' }), FINAL_TIMEOUT_MS)),
+      ]);
+    } catch (error) {
+      console.error('Failed to finish recording:', error);
+      return { text: null, error: error instanceof Error ? error.message : 'Recording failed' };
+    } finally {
+      run.connection?.cancel();
+      reset();
+    }
+  }, [reset]);
+
+  // Throw the recording away
+  const cancel = useCallback(async () => {
+    const run = runRef.current;
+    if (!run) return;
+
+    run.active = false;
+    run.cancelled = true;
+    run.wake?.();
+    reset();
+
+    try {
+      await run.loop;
+    } catch (error) {
+      console.log('Error stopping cancelled recording:', error);
+    }
+    run.connection?.cancel();
+    if (run.uri) deleteRecording(run.uri);
+  }, [reset]);
+
+  // Leaving the screen throws away a recording in progress
+  useEffect(() => () => {
+    const run = runRef.current;
+    if (!run) return;
+    run.active = false;
+    run.cancelled = true;
+    run.wake?.();
+    run.connection?.cancel();
+  }, []);
+
+  return { status, partial, levels, duration, start, finish, cancel };
+}
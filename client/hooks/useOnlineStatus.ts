@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import connectivity from '@/services/connectivity';
+
+export function useOnlineStatus() {
+  const [online, setOnline] = useState(connectivity.isOnline());
+
+  useEffect(() => connectivity.subscribe(setOnline), []);
+
+  return online;
+}
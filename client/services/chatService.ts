@@ -1,6 +1,9 @@
 import axios from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { getApiBaseUrl } from '@/config/network';
+import connectivity from '@/services/connectivity';
+import offlineCache from '@/services/offlineCache';
+import type { TemplateVariableValues } from '@/services/promptTemplateService';
 
 const API_BASE_URL = getApiBaseUrl();
 
@@ -11,16 +14,28 @@ export interface ChatSession {
   isActive: boolean;
   lastActivity: string;
   messageCount: number;
+  imageContext?: SessionImageContext;
   createdAt: string;
   updatedAt: string;
 }
 
+// The images follow-up questions in a session are asked about: the latest
+// ones sent, or ones pinned from an earlier message
+export interface SessionImageContext {
+  images: { path: string; fileName: string; thumbnailFileName?: string }[];
+  message: string | null;
+  pinned: boolean;
+  updatedAt: string | null;
+}
+
 export interface Message {
   _id: string;
   session: string;
   user: string;
   content: string;
   isUserMessage: boolean;
+  parent?: string | null;
+  branch?: MessageBranch;
   messageType: 'text' | 'voice' | 'system' | 'image' | 'multimodal' | 'multimodal_response';
   metadata: {
     voiceData?: string;
@@ -28,16 +43,35 @@ export interface Message {
     voiceOriginalName?: string;
     voiceSize?: number;
     voiceMimeType?: string;
-    voiceDuration?: number;
+    voiceDuration?: number | null;
+    voiceCodec?: string | null;
+    voiceSampleRate?: number | null;
+    voiceTranscript?: string | null;
+    voiceTranscriptConfidence?: number | null;
+    voiceTranscriptEngine?: string | null;
+    voiceTranscriptTimings?: TranscriptTiming[] | null;
     processingTime?: number;
     aiModel?: string;
-    imagePath?: string;
+    aiProvider?: string;
+    promptTemplate?: {
+      id: string;
+      name: string;
+      category: string;
+    };
+    attachments?: MessageAttachment[]; // Every image, in the order they were sent
+    imagePath?: string; // The image fields describe the first image
     imageFileName?: string;
     imageOriginalName?: string;
     imageSize?: number;
     imageMimeType?: string;
+    localImageUri?: string; // Offline copy of the image, set by the offline cache
     hasImageInput?: boolean;
+    contextImages?: string[]; // Earlier images a text question was answered about
+    accessibility?: AltTextPackage | null;
+    extractedText?: string; // Text of all the images, from OCR mode
     responseType?: string;
+    completionStatus?: 'complete' | 'partial' | 'cancelled';
+    language?: string | null; // BCP-47 code the message is written or spoken in
   };
   timestamp: string;
   isEdited: boolean;
@@ -45,10 +79,210 @@ export interface Message {
     content: string;
     editedAt: string;
   }>;
+  responseVersions?: ResponseVersion[];
+  activeVersion?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// When a word of a voice transcript is spoken, in seconds from the start.
+// Engines without word timings give one entry per segment instead.
+export interface TranscriptTiming {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface MessageAttachment {
+  type: 'image';
+  fileName: string; // Served from /chat/images/:fileName
+  originalName?: string;
+  size?: number;
+  mimeType?: string;
+  width?: number; // Upright dimensions, when the server could read the image
+  height?: number;
+  thumbnail?: { fileName: string; width: number; height: number };
+  ocr?: ImageOcr; // Set once the text of the image has been extracted
+  localUri?: string; // Offline copy of the thumbnail (or image), set by the offline cache
+}
+
+// An image of a message as shown: the thumbnail in the bubble, the full
+// image when opened
+export interface MessageImage {
+  fileName: string;
+  uri: string;
+  thumbnailUri: string;
+}
+
+// An image picked on the device, to be uploaded with a message
+export interface ImageUpload {
+  uri: string;
+  mimeType?: string | null;
+  fileName?: string | null;
+}
+
+// Structured description of an image, generated in accessibility mode
+export interface AltTextPackage {
+  altText: string;
+  longDescription: string;
+  detectedText: string;
+  people: { description: string; position: string }[];
+  objects: { label: string; position: string }[];
+  hazards: { description: string; severity: 'low' | 'medium' | 'high' }[];
+  model?: string;
+  generatedAt?: string;
+}
+
+// How the server answers an image: a normal reply, an alt-text package, or
+// the text in the image
+export type MessageMode = 'accessibility' | 'ocr';
+
+// Text read from an image in OCR mode, with its layout
+export interface ImageOcr {
+  text: string;
+  blocks: {
+    type: 'heading' | 'paragraph' | 'list_item' | 'line_item' | 'total' | 'table_row' | 'other';
+    text: string;
+  }[];
+  documentType?: string | null;
+  language?: string | null;
+  confidence?: number | null;
+  engine: string;
+  model?: string | null;
+  extractedAt: string;
+}
+
+// Position of a turn among the alternatives that follow the same message
+export interface MessageBranch {
+  index: number;
+  count: number;
+  siblingIds: string[];
+}
+
+export interface MessagePagination {
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+export interface SessionHistory {
+  session: ChatSession;
+  messages: Message[];
+  pagination: MessagePagination;
+}
+
+export interface SearchFilters {
+  type?: 'text' | 'voice' | 'image';
+  from?: string;
+  to?: string;
+  templateId?: string;
+  model?: string;
+  limit?: number;
+  page?: number;
+}
+
+export interface SearchResult {
+  messageId: string;
+  sessionId: string;
+  sessionTitle: string;
+  isUserMessage: boolean;
+  messageType: Message['messageType'];
+  aiModel: string | null;
+  promptTemplate: string | null;
+  createdAt: string;
+  snippet: string;
+  // Character ranges of the matched words within `snippet`
+  highlights: { start: number; end: number }[];
+}
+
+export interface AnalyticsFilters {
+  from?: string;
+  to?: string;
+  interval?: 'day' | 'week' | 'month';
+}
+
+export interface SessionAnalytics {
+  range: { from: string; to: string; interval: 'day' | 'week' | 'month' };
+  totals: { messages: number; userMessages: number; aiMessages: number; sessions: number };
+  messageTypes: { type: Message['messageType']; count: number }[];
+  // One entry per day/week/month of the range, labelled like 2024-05-01, 2024-W18 or 2024-05
+  activity: { period: string; userMessages: number; aiMessages: number }[];
+  // Milliseconds; null when there were no AI replies in the range
+  processingTime: { count: number; average: number | null; p95: number | null };
+  models: { model: string; provider: string | null; count: number; averageProcessingTime: number | null }[];
+  templates: { id: string; name: string; category: string; count: number }[];
+}
+
+export interface ChatBranch {
+  leafId: string;
+  messageCount: number;
+  lastMessage: {
+    content: string;
+    isUserMessage: boolean;
+    createdAt: string;
+  };
+  isActive: boolean;
+}
+
+export interface ResponseVersion {
+  content: string;
+  aiModel?: string;
+  aiProvider?: string;
+  promptTemplate?: {
+    id: string;
+    name: string;
+    category: string;
+  };
+  processingTime?: number;
+  completionStatus?: 'complete' | 'partial' | 'cancelled';
+  language?: string | null;
+  createdAt: string;
+}
+
+export interface RegenerateOptions {
+  promptTemplateId?: string;
+  templateVariables?: TemplateVariableValues; // Defaults to the values the message was sent with
+  provider?: string;
+  model?: string;
+  mode?: MessageMode;
+  replyLanguage?: string; // Overrides the user's reply language preference
+}
+
+export type SpeechFormat = 'wav' | 'mp3' | 'ogg';
+
+export interface SpeechOptions {
+  voice?: string;
+  rate?: number; // 0.5 - 2, 1 is the voice's normal speed
+  format?: SpeechFormat;
+  engine?: string;
+  language?: string; // Picks a voice for the language when no voice is given
+}
+
+// Audio generated by the server's text-to-speech, cached under uploads/voice
+export interface SpeechAudio {
+  fileName: string;
+  url: string;
+  format: SpeechFormat;
+  engine: string;
+  voice: string;
+  rate: number;
+  cached: boolean;
+}
+
+// One provider as reported by /ai/status; a model slot is null when unset
+export interface AIProviderStatus {
+  name: string;
+  displayName: string;
+  available: boolean;
+  capabilities: { text: boolean; vision: boolean; streaming: boolean };
+  models: { text: string | null; vision: string | null };
+}
+
+export interface AIModelOption {
+  provider: string;
+  displayName: string;
+  model: string;
+}
+
 export interface ChatResponse {
   success: boolean;
   data?: any;
@@ -56,7 +290,35 @@ export interface ChatResponse {
   error?: string;
 }
 
+export interface StreamHandlers {
+  onUserMessage?: (message: Message) => void;
+  onToken?: (delta: string) => void;
+  onAiMessage?: (message: Message) => void;
+  onError?: (error: string) => void;
+}
+
+export interface StreamResult {
+  userMessage: Message | null;
+  aiResponse: Message | null;
+  cancelled: boolean;
+}
+
+export interface MessageStream {
+  done: Promise<StreamResult>;
+  cancel: () => void;
+}
+
 class ChatService {
+  // Cache updates must never break the request that triggered them
+  private remember(task: Promise<void>) {
+    task.catch(error => console.log('Error updating offline cache:', error));
+  }
+
+  // Lets the server recognise a repeated send (see services/outbox.ts)
+  private idempotencyHeaders(idempotencyKey?: string): Record<string, string> {
+    return idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {};
+  }
+
   private async getAuthHeaders() {
     const token = await AsyncStorage.getItem('authToken');
     return {
@@ -69,8 +331,13 @@ class ChatService {
     try {
       const headers = await this.getAuthHeaders();
       const response = await axios.get(`${API_BASE_URL}/chat/sessions`, { headers });
-      return response.data.success ? response.data.data : [];
+      const sessions = response.data.success ? response.data.data : [];
+      this.remember(offlineCache.saveSessions(sessions));
+      return sessions;
     } catch (error) {
+      if (connectivity.isNetworkError(error)) {
+        return offlineCache.getSessions();
+      }
       console.error('Error fetching chat sessions:', error);
       throw error;
     }
@@ -90,34 +357,65 @@ class ChatService {
     }
   }
 
-  async getSession(sessionId: string): Promise<{ session: ChatSession; messages: Message[] }> {
+  // Returns the session with the newest page of its messages
+  async getSession(sessionId: string): Promise<SessionHistory> {
     try {
       const headers = await this.getAuthHeaders();
       const response = await axios.get(`${API_BASE_URL}/chat/sessions/${sessionId}`, { headers });
+      this.remember(offlineCache.saveSession(response.data.data));
       return response.data.data;
     } catch (error) {
+      if (connectivity.isNetworkError(error)) {
+        const cached = await offlineCache.getSession(sessionId);
+        if (cached) return cached;
+      }
       console.error('Error fetching chat session:', error);
       throw error;
     }
   }
 
+  async getMessages(
+    sessionId: string,
+    cursor: { before?: string; after?: string; around?: string; limit?: number } = {}
+  ): Promise<{ messages: Message[]; pagination: MessagePagination }> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.get(`${API_BASE_URL}/chat/sessions/${sessionId}/messages`, {
+        headers,
+        params: cursor,
+      });
+      return {
+        messages: response.data.data,
+        pagination: response.data.pagination,
+      };
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+      throw error;
+    }
+  }
+
   async sendMessage(
     sessionId: string, 
     content: string, 
     promptTemplateId?: string,
-    messageType: 'text' | 'voice' = 'text'
+    messageType: 'text' | 'voice' = 'text',
+    idempotencyKey?: string,
+    templateVariables?: TemplateVariableValues
   ): Promise<{ userMessage: Message; aiResponse: Message }> {
     try {
-      const headers = await this.getAuthHeaders();
+      const headers = { ...await this.getAuthHeaders(), ...this.idempotencyHeaders(idempotencyKey) };
       const payload: any = { content, messageType };
       if (promptTemplateId) {
         payload.promptTemplateId = promptTemplateId;
+        payload.templateVariables = templateVariables;
       }
       
       const response = await axios.post(`${API_BASE_URL}/chat/sessions/${sessionId}/messages`, 
         payload, 
         { headers }
       );
+      const { userMessage, aiResponse } = response.data.data;
+      this.remember(offlineCache.saveMessages(sessionId, [userMessage, aiResponse]));
       return response.data.data;
     } catch (error) {
       console.error('Error sending message:', error);
@@ -125,15 +423,18 @@ class ChatService {
     }
   }
 
-  async sendMessageWithImage(
+  async sendMessageWithImages(
     sessionId: string, 
     content: string, 
-    imageAsset: any,
+    images: ImageUpload[],
     promptTemplateId?: string,
-    messageType: 'multimodal' | 'image' = 'multimodal'
+    messageType: 'multimodal' | 'image' = 'multimodal',
+    idempotencyKey?: string,
+    mode?: MessageMode,
+    templateVariables?: TemplateVariableValues
   ): Promise<{ userMessage: Message; aiResponse: Message }> {
     try {
-      const headers = await this.getAuthHeaders();
+      const headers = { ...await this.getAuthHeaders(), ...this.idempotencyHeaders(idempotencyKey) };
       
       // Create FormData for multipart upload
       const formData = new FormData();
@@ -141,16 +442,15 @@ class ChatService {
       formData.append('messageType', messageType);
       if (promptTemplateId) {
         formData.append('promptTemplateId', promptTemplateId);
+        if (templateVariables) {
+          formData.append('templateVariables', JSON.stringify(templateVariables));
+        }
+      }
+      if (mode) {
+        formData.append('mode', mode);
       }
       
-      // Add image file
-      const imageFile = {
-        uri: imageAsset.uri,
-        type: imageAsset.mimeType || 'image/jpeg',
-        name: imageAsset.fileName || `image_${Date.now()}.jpg`,
-      } as any;
-      
-      formData.append('image', imageFile);
+      this.appendImages(formData, images);
       
       // Update headers for multipart form data
       const multipartHeaders = {
@@ -164,16 +464,202 @@ class ChatService {
         { headers: multipartHeaders }
       );
       
+      const { userMessage, aiResponse } = response.data.data;
+      this.remember(offlineCache.saveMessages(sessionId, [userMessage, aiResponse]));
       return response.data.data;
     } catch (error) {
-      console.error('Error sending message with image:', error);
+      console.error('Error sending message with images:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a message and receive the AI reply as Server-Sent Events.
+   * Uses XMLHttpRequest because it exposes the partial response body on
+   * React Native, where fetch/axios only resolve once the body is complete.
+   */
+  streamMessage(
+    sessionId: string,
+    content: string,
+    handlers: StreamHandlers,
+    options: {
+      images?: ImageUpload[];
+      promptTemplateId?: string;
+      templateVariables?: TemplateVariableValues;
+      idempotencyKey?: string;
+      mode?: MessageMode;
+    } = {}
+  ): MessageStream {
+    let xhr: XMLHttpRequest | null = null;
+    let cancelled = false;
+
+    const run = async (): Promise<StreamResult> => {
+      const token = await AsyncStorage.getItem('authToken');
+      const result: StreamResult = { userMessage: null, aiResponse: null, cancelled: false };
+
+      let body: FormData | string;
+      if (options.images?.length) {
+        const formData = new FormData();
+        formData.append('content', content);
+        formData.append('messageType', 'multimodal');
+        if (options.promptTemplateId) {
+          formData.append('promptTemplateId', options.promptTemplateId);
+          if (options.templateVariables) {
+            formData.append('templateVariables', JSON.stringify(options.templateVariables));
+          }
+        }
+        if (options.mode) {
+          formData.append('mode', options.mode);
+        }
+        this.appendImages(formData, options.images);
+        body = formData;
+      } else {
+        body = JSON.stringify({
+          content,
+          messageType: 'text',
+          promptTemplateId: options.promptTemplateId,
+          templateVariables: options.promptTemplateId ? options.templateVariables : undefined
+        });
+      }
+
+      const handleEvent = (event: string, data: any) => {
+        switch (event) {
+          // Sent again if the server updates the message (e.g. with alt text)
+          case 'user_message':
+            result.userMessage = data.userMessage;
+            handlers.onUserMessage?.(data.userMessage);
+            break;
+          case 'token':
+            handlers.onToken?.(data.delta);
+            break;
+          case 'ai_message':
+            result.aiResponse = data.aiResponse;
+            handlers.onAiMessage?.(data.aiResponse);
+            break;
+          case 'error':
+            handlers.onError?.(data.error || data.message);
+            break;
+        }
+      };
+
+      return new Promise((resolve, reject) => {
+        if (cancelled) {
+          resolve({ ...result, cancelled: true });
+          return;
+        }
+
+        const request = new XMLHttpRequest();
+        xhr = request;
+        let processed = 0;
+
+        // Events are separated by a blank line; only parse complete ones
+        const parseEvents = () => {
+          const text = request.responseText || '';
+          let boundary = text.indexOf('\n\n', processed);
+          while (boundary !== -1) {
+            const block = text.slice(processed, boundary);
+            processed = boundary + 2;
+
+            let event = 'message';
+            let data = '';
+            block.split('\n').forEach(line => {
+              if (line.startsWith('event:')) event = line.slice(6).trim();
+              if (line.startsWith('data:')) data += line.slice(5).trim();
+            });
+
+            try {
+              handleEvent(event, data ? JSON.parse(data) : {});
+            } catch (error) {
+              console.error('Error parsing stream event:', error);
+            }
+            boundary = text.indexOf('\n\n', processed);
+          }
+        };
+
+        request.open('POST', `${API_BASE_URL}/chat/sessions/${sessionId}/messages?stream=true`);
+        request.setRequestHeader('Authorization', `Bearer ${token}`);
+        request.setRequestHeader('Accept', 'text/event-stream');
+        if (options.idempotencyKey) {
+          request.setRequestHeader('Idempotency-Key', options.idempotencyKey);
+        }
+        if (typeof body === 'string') {
+          request.setRequestHeader('Content-Type', 'application/json');
+        }
+
+        request.onprogress = parseEvents;
+        request.onload = () => {
+          if (request.status >= 400) {
+            let message = `Request failed with status ${request.status}`;
+            try {
+              message = JSON.parse(request.responseText).message || message;
+            } catch {}
+            reject(new Error(message));
+            return;
+          }
+          parseEvents();
+          resolve(result);
+        };
+        request.onerror = () => {
+          connectivity.reportOffline();
+          reject(new Error('Network error while streaming message'));
+        };
+        request.onabort = () => resolve({ ...result, cancelled: true });
+
+        request.send(body);
+      });
+    };
+
+    return {
+      done: run()
+        .then(result => {
+          if (result.userMessage) {
+            const messages = result.aiResponse ? [result.userMessage, result.aiResponse] : [result.userMessage];
+            this.remember(offlineCache.saveMessages(sessionId, messages));
+          }
+          return result;
+        })
+        .catch(error => {
+          console.error('Error streaming message:', error);
+          throw error;
+        }),
+      cancel: () => {
+        cancelled = true;
+        xhr?.abort();
+      },
+    };
+  }
+
+  // Keep a message's images in view for follow-up questions, even after newer ones are sent
+  async pinImageContext(sessionId: string, messageId: string): Promise<ChatSession> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.put(
+        `${API_BASE_URL}/chat/sessions/${sessionId}/image-context`,
+        { messageId },
+        { headers }
+      );
+      return response.data.data.session;
+    } catch (error) {
+      console.error('Error pinning image context:', error);
       throw error;
     }
   }
 
-  async sendMessageWithVoice(sessionId: string, formData: FormData): Promise<any> {
+  // Stop asking follow-up questions about earlier images
+  async clearImageContext(sessionId: string): Promise<ChatSession> {
     try {
       const headers = await this.getAuthHeaders();
+      const response = await axios.delete(`${API_BASE_URL}/chat/sessions/${sessionId}/image-context`, { headers });
+      return response.data.data.session;
+    } catch (error) {
+      console.error('Error clearing image context:', error);
+      throw error;
+    }
+  }
+
+  async sendMessageWithVoice(sessionId: string, formData: FormData, idempotencyKey?: string): Promise<any> {
+    try {
+      const headers = { ...await this.getAuthHeaders(), ...this.idempotencyHeaders(idempotencyKey) };
       
       // Update headers for multipart form data
       const multipartHeaders = {
@@ -187,6 +673,10 @@ class ChatService {
         { headers: multipartHeaders }
       );
       
+      if (response.data.success) {
+        const { userMessage, aiResponse } = response.data.data;
+        this.remember(offlineCache.saveMessages(sessionId, [userMessage, aiResponse]));
+      }
       return response.data;
     } catch (error) {
       console.error('Error sending message with voice:', error);
@@ -194,6 +684,223 @@ class ChatService {
     }
   }
 
+  async editMessage(
+    sessionId: string,
+    messageId: string,
+    content: string,
+    options: RegenerateOptions = {}
+  ): Promise<{ userMessage: Message; aiResponse: Message }> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.put(
+        `${API_BASE_URL}/chat/sessions/${sessionId}/messages/${messageId}`,
+        { content, ...options },
+        { headers }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Error editing message:', error);
+      throw error;
+    }
+  }
+
+  async regenerateMessage(
+    sessionId: string,
+    messageId: string,
+    options: RegenerateOptions = {}
+  ): Promise<{ userMessage: Message; aiResponse: Message }> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.post(
+        `${API_BASE_URL}/chat/sessions/${sessionId}/messages/${messageId}/regenerate`,
+        options,
+        { headers }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Error regenerating message:', error);
+      throw error;
+    }
+  }
+
+  async selectMessageVersion(sessionId: string, messageId: string, index: number): Promise<Message> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.put(
+        `${API_BASE_URL}/chat/sessions/${sessionId}/messages/${messageId}/versions/${index}`,
+        {},
+        { headers }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Error selecting message version:', error);
+      throw error;
+    }
+  }
+
+  async synthesizeSpeech(text: string, options: SpeechOptions = {}): Promise<SpeechAudio> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.post(`${API_BASE_URL}/ai/tts`, { text, ...options }, { headers });
+      return response.data.data;
+    } catch (error) {
+      console.error('Error synthesizing speech:', error);
+      throw error;
+    }
+  }
+
+  async synthesizeMessageSpeech(
+    sessionId: string,
+    messageId: string,
+    options: SpeechOptions = {}
+  ): Promise<SpeechAudio> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.post(
+        `${API_BASE_URL}/chat/sessions/${sessionId}/messages/${messageId}/tts`,
+        options,
+        { headers }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Error synthesizing message speech:', error);
+      throw error;
+    }
+  }
+
+  getVoiceUrl(fileName: string): string {
+    return `${API_BASE_URL}/chat/voice/${fileName}`;
+  }
+
+  getImageUrl(fileName: string): string {
+    return `${API_BASE_URL}/chat/images/${fileName}`;
+  }
+
+  // Where to load each of a message's images and their thumbnails from,
+  // preferring offline copies. Messages sent before attachments only
+  // describe a single image, and images sent before thumbnails existed are
+  // their own thumbnail.
+  getMessageImages(message: Message): MessageImage[] {
+    const { attachments, imageFileName, localImageUri } = message.metadata || {};
+    if (attachments?.length) {
+      return attachments
+        .filter(attachment => attachment.type === 'image')
+        .map(attachment => {
+          const url = this.getImageUrl(attachment.fileName);
+          // The offline copy is of the thumbnail, if there is one; the full
+          // image comes from the server while it can be reached
+          const useLocal = !!attachment.localUri && (!attachment.thumbnail || !connectivity.isOnline());
+          return {
+            fileName: attachment.fileName,
+            uri: useLocal ? attachment.localUri! : url,
+            thumbnailUri: attachment.localUri
+              || (attachment.thumbnail ? this.getImageUrl(attachment.thumbnail.fileName) : url),
+          };
+        });
+    }
+    if (!imageFileName) return [];
+    const uri = localImageUri || this.getImageUrl(imageFileName);
+    return [{ fileName: imageFileName, uri, thumbnailUri: uri }];
+  }
+
+  // Images go in `images` fields, in order
+  private appendImages(formData: FormData, images: ImageUpload[]) {
+    images.forEach((image, index) => {
+      formData.append('images', {
+        uri: image.uri,
+        type: image.mimeType || 'image/jpeg',
+        name: image.fileName || `image_${Date.now()}_${index}.jpg`,
+      } as any);
+    });
+  }
+
+  async searchMessages(
+    query: string,
+    filters: SearchFilters = {}
+  ): Promise<{ results: SearchResult[]; pagination: { page: number; total: number; hasMore: boolean } }> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.get(`${API_BASE_URL}/chat/search`, {
+        headers,
+        params: { q: query, ...filters },
+      });
+      return {
+        results: response.data.data,
+        pagination: response.data.pagination,
+      };
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      throw error;
+    }
+  }
+
+  async getAnalytics(filters: AnalyticsFilters = {}): Promise<SessionAnalytics> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.get(`${API_BASE_URL}/chat/analytics`, {
+        headers,
+        // Buckets follow the device's local days
+        params: { ...filters, utcOffset: -new Date().getTimezoneOffset() },
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+      throw error;
+    }
+  }
+
+  async getBranches(sessionId: string): Promise<ChatBranch[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.get(`${API_BASE_URL}/chat/sessions/${sessionId}/branches`, { headers });
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching branches:', error);
+      throw error;
+    }
+  }
+
+  async switchBranch(sessionId: string, messageId: string): Promise<SessionHistory> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.put(
+        `${API_BASE_URL}/chat/sessions/${sessionId}/branches/active`,
+        { messageId },
+        { headers }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Error switching branch:', error);
+      throw error;
+    }
+  }
+
+  // Models of the AI providers that are currently reachable, for "regenerate with..."
+  async getAvailableModels(): Promise<AIModelOption[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.get(`${API_BASE_URL}/ai/status`, { headers });
+      const providers: AIProviderStatus[] = response.data.data?.providers || [];
+      const options: AIModelOption[] = [];
+
+      providers
+        .filter(provider => provider.available)
+        .forEach(provider => {
+          const models = new Set(
+            Object.values(provider.models || {}).filter((model): model is string => !!model)
+          );
+          models.forEach(model => {
+            options.push({ provider: provider.name, displayName: provider.displayName, model });
+          });
+        });
+
+      return options;
+    } catch (error) {
+      console.error('Error fetching AI models:', error);
+      return [];
+    }
+  }
+
   async deleteSession(sessionId: string): Promise<void> {
     try {
       const headers = await this.getAuthHeaders();
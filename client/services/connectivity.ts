@@ -0,0 +1,77 @@
+import axios, { isAxiosError } from 'axios';
+import { getApiBaseUrl } from '@/config/network';
+
+type ConnectivityListener = (online: boolean) => void;
+
+const RECHECK_INTERVAL_MS = 15000;
+
+// Tracks whether the EchoMind server is reachable. Every axios response
+// reports in; while offline the server is polled until it answers again.
+class Connectivity {
+  private online = true;
+  private listeners = new Set<ConnectivityListener>();
+  private recheckTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    axios.interceptors.response.use(
+      (response) => {
+        this.setOnline(true);
+        return response;
+      },
+      (error) => {
+        if (this.isNetworkError(error)) {
+          this.setOnline(false);
+        } else if (error.response) {
+          this.setOnline(true);
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // True when a request failed without any answer from the server
+  isNetworkError(error: any): boolean {
+    return isAxiosError(error) && !error.response && error.code !== 'ERR_CANCELED';
+  }
+
+  // For requests made without axios (e.g. the streaming XMLHttpRequest)
+  reportOffline() {
+    this.setOnline(false);
+  }
+
+  async check(): Promise<boolean> {
+    try {
+      await axios.get(`${getApiBaseUrl()}/ai/status`, { timeout: 5000 });
+    } catch {
+      // The interceptor has already recorded the outcome
+    }
+    return this.online;
+  }
+
+  private setOnline(online: boolean) {
+    if (online === this.online) return;
+    this.online = online;
+
+    if (online && this.recheckTimer) {
+      clearInterval(this.recheckTimer);
+      this.recheckTimer = null;
+    } else if (!online && !this.recheckTimer) {
+      this.recheckTimer = setInterval(() => this.check(), RECHECK_INTERVAL_MS);
+    }
+
+    this.listeners.forEach(listener => listener(online));
+  }
+}
+
+export default new Connectivity();
@@ -0,0 +1,164 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { getApiBaseUrl } from '@/config/network';
+import type { ChatSession, Message, SessionHistory } from '@/services/chatService';
+
+const API_BASE_URL = getApiBaseUrl();
+
+const SESSIONS_KEY = 'offlineCache:sessions';
+const INTERACTIONS_KEY = 'offlineCache:interactions';
+
+// README: the last 10 interactions stay available without the server
+const MAX_INTERACTIONS = 10;
+const MAX_SESSIONS = 20;
+
+// Local copies of images in cached interactions (not available on web)
+const IMAGE_DIR = FileSystem.cacheDirectory ? `${FileSystem.cacheDirectory}offline-images/` : null;
+
+// One user message and the AI reply to it
+interface CachedInteraction {
+  sessionId: string;
+  userMessage: Message;
+  aiResponse: Message | null;
+}
+
+class OfflineCache {
+  async getSessions(): Promise<ChatSession[]> {
+    const stored = await AsyncStorage.getItem(SESSIONS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  async saveSessions(sessions: ChatSession[]): Promise<void> {
+    await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions.slice(0, MAX_SESSIONS)));
+  }
+
+  // The cached part of a session, shaped like a server response
+  async getSession(sessionId: string): Promise<SessionHistory | null> {
+    const session = (await this.getSessions()).find(s => s._id === sessionId);
+    if (!session) return null;
+
+    const messages = (await this.getInteractions())
+      .filter(interaction => interaction.sessionId === sessionId)
+      .reverse()
+      .flatMap(interaction => interaction.aiResponse
+        ? [interaction.userMessage, interaction.aiResponse]
+        : [interaction.userMessage]);
+
+    return {
+      session,
+      messages,
+      pagination: { hasOlder: false, hasNewer: false },
+    };
+  }
+
+  async saveSession(sessionData: SessionHistory): Promise<void> {
+    const sessions = await this.getSessions();
+    await this.saveSessions([
+      sessionData.session,
+      ...sessions.filter(s => s._id !== sessionData.session._id),
+    ]);
+    await this.saveMessages(sessionData.session._id, sessionData.messages);
+  }
+
+  // Merge messages into the cached interactions, keeping only the newest ones
+  async saveMessages(sessionId: string, messages: Message[]): Promise<void> {
+    const incoming = this.toInteractions(sessionId, messages);
+    if (incoming.length === 0) return;
+
+    const replaced = new Set(incoming.map(interaction => interaction.userMessage._id));
+    const interactions = [
+      ...incoming,
+      ...(await this.getInteractions()).filter(interaction => !replaced.has(interaction.userMessage._id)),
+    ]
+      .sort((a, b) => b.userMessage.createdAt.localeCompare(a.userMessage.createdAt))
+      .slice(0, MAX_INTERACTIONS);
+
+    for (const interaction of interactions) {
+      interaction.userMessage = await this.cacheImage(interaction.userMessage);
+    }
+
+    await AsyncStorage.setItem(INTERACTIONS_KEY, JSON.stringify(interactions));
+    await this.pruneImages(interactions);
+  }
+
+  async clear(): Promise<void> {
+    await AsyncStorage.multiRemove([SESSIONS_KEY, INTERACTIONS_KEY]);
+    if (IMAGE_DIR) {
+      await FileSystem.deleteAsync(IMAGE_DIR, { idempotent: true });
+    }
+  }
+
+  private async getInteractions(): Promise<CachedInteraction[]> {
+    const stored = await AsyncStorage.getItem(INTERACTIONS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  private toInteractions(sessionId: string, messages: Message[]): CachedInteraction[] {
+    return messages
+      .map((message, index) => ({ message, index }))
+      .filter(({ message }) => message.isUserMessage && !message._id.startsWith('local-'))
+      .map(({ message, index }) => {
+        const next = messages[index + 1];
+        const aiResponse = messages.find(m => !m.isUserMessage && m.parent === message._id)
+          || (next && !next.isUserMessage ? next : null);
+        return { sessionId, userMessage: message, aiResponse };
+      });
+  }
+
+  // Keep local copies of the message's images; voice messages keep their file reference
+  private async cacheImage(message: Message): Promise<Message> {
+    const fileName = message.metadata?.imageFileName;
+    if (!IMAGE_DIR || !fileName || message.metadata.localImageUri) {
+      return message;
+    }
+
+    try {
+      await FileSystem.makeDirectoryAsync(IMAGE_DIR, { intermediates: true });
+      const attachments = message.metadata.attachments && await Promise.all(
+        message.metadata.attachments.map(async attachment => ({
+          ...attachment,
+          // Bubbles show thumbnails, so those are what is kept offline
+          localUri: await this.downloadImage(attachment.thumbnail?.fileName || attachment.fileName),
+        })));
+      const localImageUri = attachments?.[0]?.localUri || await this.downloadImage(fileName);
+      return { ...message, metadata: { ...message.metadata, attachments, localImageUri } };
+    } catch (error) {
+      console.log('Could not cache image for offline use:', error);
+      return message;
+    }
+  }
+
+  private async downloadImage(fileName: string): Promise<string> {
+    const localUri = `${IMAGE_DIR}${fileName}`;
+    const info = await FileSystem.getInfoAsync(localUri);
+    if (!info.exists) {
+      await FileSystem.downloadAsync(`${API_BASE_URL}/chat/images/${fileName}`, localUri);
+    }
+    return localUri;
+  }
+
+  private async pruneImages(interactions: CachedInteraction[]): Promise<void> {
+    if (!IMAGE_DIR) return;
+
+    try {
+      const info = await FileSystem.getInfoAsync(IMAGE_DIR);
+      if (!info.exists) return;
+
+      const keep = new Set(interactions.flatMap(({ userMessage }) => [
+        userMessage.metadata?.imageFileName,
+        ...(userMessage.metadata?.attachments || []).flatMap(attachment => [
+          attachment.fileName,
+          attachment.thumbnail?.fileName,
+        ]),
+      ]));
+      const files = await FileSystem.readDirectoryAsync(IMAGE_DIR);
+      await Promise.all(files
+        .filter(file => !keep.has(file))
+        .map(file => FileSystem.deleteAsync(`${IMAGE_DIR}${file}`, { idempotent: true })));
+    } catch (error) {
+      console.log('Error pruning offline images:', error);
+    }
+  }
+}
+
+export default new OfflineCache();
@@ -0,0 +1,313 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { isAxiosError } from 'axios';
+import chatService, { Message, MessageMode } from '@/services/chatService';
+import connectivity from '@/services/connectivity';
+import type { TemplateVariableValues } from '@/services/promptTemplateService';
+
+const OUTBOX_KEY = 'outbox:items';
+
+// Attachments are copied here so they survive until the send goes through
+const ATTACHMENT_DIR = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}outbox/` : null;
+
+// Retries back off from 2 seconds up to 5 minutes. Sends waiting for a connection
+// stay pending; ones the server keeps rejecting are marked failed.
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxAttachment {
+  uri: string;
+  mimeType: string;
+  fileName: string;
+}
+
+export interface OutboxItem {
+  id: string; // Sent as the Idempotency-Key, so the server saves the message once
+  sessionId: string;
+  content: string;
+  promptTemplateId?: string;
+  templateVariables?: TemplateVariableValues;
+  mode?: MessageMode;
+  images?: OutboxAttachment[];
+  voice?: OutboxAttachment;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  error?: string;
+  createdAt: string;
+}
+
+export type NewOutboxItem = Pick<
+  OutboxItem,
+  'sessionId' | 'content' | 'promptTemplateId' | 'templateVariables' | 'mode' | 'images' | 'voice'
+>;
+
+// Items queued before messages could carry several images
+type StoredOutboxItem = OutboxItem & { image?: OutboxAttachment };
+
+type OutboxListener = (items: OutboxItem[]) => void;
+type DeliveryListener = (item: OutboxItem, result: { userMessage: Message; aiResponse: Message }) => void;
+
+export const createIdempotencyKey = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}${Math.random().toString(36).slice(2, 10)}`;
+
+// Messages that could not be sent yet. Pending sends are retried with backoff
+// whenever the server is reachable; each keeps its idempotency key across
+// retries so a send that did arrive is never saved twice.
+class Outbox {
+  private items: OutboxItem[] = [];
+  private loaded: Promise<void>;
+  private flushing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<OutboxListener>();
+  private deliveryListeners = new Set<DeliveryListener>();
+
+  constructor() {
+    this.loaded = this.load();
+    connectivity.subscribe(online => {
+      if (online) this.flush();
+    });
+  }
+
+  getItems(): OutboxItem[] {
+    return this.items;
+  }
+
+  // The listener is called right away with the current items and on every change
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.loaded.then(() => {
+      if (this.listeners.has(listener)) listener(this.items);
+    });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onDelivered(listener: DeliveryListener): () => void {
+    this.deliveryListeners.add(listener);
+    return () => {
+      this.deliveryListeners.delete(listener);
+    };
+  }
+
+  async enqueue(message: NewOutboxItem, id: string = createIdempotencyKey()): Promise<OutboxItem> {
+    await this.loaded;
+
+    const item: OutboxItem = {
+      ...message,
+      id,
+      images: message.images && await Promise.all(message.images.map((image, index) =>
+        this.keepAttachment(`${id}-${index}`, image))),
+      voice: message.voice && await this.keepAttachment(id, message.voice),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.update([...this.items.filter(existing => existing.id !== id), item]);
+    this.flush();
+    return item;
+  }
+
+  async retry(id: string): Promise<void> {
+    await this.loaded;
+    await this.update(this.items.map(item => item.id === id
+      ? { ...item, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), error: undefined }
+      : item));
+    this.flush();
+  }
+
+  async discard(id: string): Promise<void> {
+    await this.loaded;
+    const item = this.items.find(existing => existing.id === id);
+    if (!item) return;
+
+    await this.update(this.items.filter(existing => existing.id !== id));
+    await this.removeAttachments(item);
+  }
+
+  async clear(): Promise<void> {
+    await this.loaded;
+    this.cancelRetry();
+    await this.update([]);
+    if (ATTACHMENT_DIR) {
+      await FileSystem.deleteAsync(ATTACHMENT_DIR, { idempotent: true });
+    }
+  }
+
+  // Send every pending item that is due, oldest first, so a conversation keeps its order
+  async flush(): Promise<void> {
+    await this.loaded;
+    if (this.flushing) return;
+
+    this.flushing = true;
+    this.cancelRetry();
+    try {
+      for (const item of [...this.items]) {
+        if (item.status !== 'pending' || item.nextAttemptAt > Date.now()) continue;
+        const delivered = await this.send(item);
+        if (!delivered && !connectivity.isOnline()) break;
+      }
+    } finally {
+      this.flushing = false;
+      this.scheduleRetry();
+    }
+  }
+
+  private async send(item: OutboxItem): Promise<boolean> {
+    await this.setItem(item.id, { status: 'sending' });
+
+    try {
+      const result = await this.deliver(item);
+      await this.update(this.items.filter(existing => existing.id !== item.id));
+      await this.removeAttachments(item);
+      this.deliveryListeners.forEach(listener => listener(item, result));
+      return true;
+    } catch (error) {
+      const attempts = item.attempts + 1;
+      const canRetry = connectivity.isNetworkError(error) || (this.isRetryable(error) && attempts < MAX_ATTEMPTS);
+      await this.setItem(item.id, {
+        status: canRetry ? 'pending' : 'failed',
+        attempts,
+        nextAttemptAt: Date.now() + Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS),
+        error: this.describeError(error),
+      });
+      return false;
+    }
+  }
+
+  private async deliver(item: OutboxItem): Promise<{ userMessage: Message; aiResponse: Message }> {
+    if (item.voice) {
+      const formData = new FormData();
+      formData.append('voice', {
+        uri: item.voice.uri,
+        type: item.voice.mimeType,
+        name: item.voice.fileName,
+      } as any);
+      if (item.content) {
+        formData.append('message', item.content);
+      }
+      formData.append('messageType', item.content ? 'multimodal' : 'voice');
+
+      const response = await chatService.sendMessageWithVoice(item.sessionId, formData, item.id);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to send voice message');
+      }
+      return response.data;
+    }
+
+    if (item.images?.length) {
+      return chatService.sendMessageWithImages(
+        item.sessionId,
+        item.content,
+        item.images,
+        item.promptTemplateId,
+        item.content ? 'multimodal' : 'image',
+        item.id,
+        item.mode,
+        item.templateVariables
+      );
+    }
+
+    return chatService.sendMessage(
+      item.sessionId,
+      item.content,
+      item.promptTemplateId,
+      'text',
+      item.id,
+      item.templateVariables
+    );
+  }
+
+  // Worth trying again: a server error or the same send still being
+  // handled. Other client errors will not go away.
+  private isRetryable(error: any): boolean {
+    if (!isAxiosError(error) || !error.response) return false;
+    const status = error.response.status;
+    return status >= 500 || status === 408 || status === 409 || status === 429;
+  }
+
+  private describeError(error: any): string {
+    if (connectivity.isNetworkError(error)) return 'No connection';
+    if (isAxiosError(error)) return error.response?.data?.message || error.message;
+    return error instanceof Error ? error.message : 'Failed to send';
+  }
+
+  private scheduleRetry() {
+    const pending = this.items.filter(item => item.status === 'pending');
+    if (pending.length === 0 || !connectivity.isOnline()) return;
+
+    const next = Math.min(...pending.map(item => item.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, Math.max(next - Date.now(), 0));
+  }
+
+  private cancelRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+      // A send that was in flight when the app closed may or may not have
+      // arrived; its idempotency key makes sending it again safe
+      this.items = stored
+        ? (JSON.parse(stored) as StoredOutboxItem[]).map(({ image, ...item }) => ({
+            ...item,
+            images: item.images || (image ? [image] : undefined),
+            status: item.status === 'sending' ? 'pending' : item.status,
+          }))
+        : [];
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+      this.items = [];
+    }
+  }
+
+  private async update(items: OutboxItem[]): Promise<void> {
+    this.items = items;
+    this.listeners.forEach(listener => listener(items));
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+  }
+
+  private async setItem(id: string, changes: Partial<OutboxItem>): Promise<void> {
+    await this.update(this.items.map(item => item.id === id ? { ...item, ...changes } : item));
+  }
+
+  // Picked images and recordings can live in temporary locations the OS clears
+  private async keepAttachment(prefix: string, attachment: OutboxAttachment): Promise<OutboxAttachment> {
+    if (!ATTACHMENT_DIR) return attachment;
+
+    try {
+      await FileSystem.makeDirectoryAsync(ATTACHMENT_DIR, { intermediates: true });
+      const uri = `${ATTACHMENT_DIR}${prefix}-${attachment.fileName}`;
+      await FileSystem.copyAsync({ from: attachment.uri, to: uri });
+      return { ...attachment, uri };
+    } catch (error) {
+      console.log('Could not copy attachment into the outbox:', error);
+      return attachment;
+    }
+  }
+
+  private async removeAttachments(item: OutboxItem): Promise<void> {
+    const uris = [...(item.images || []).map(image => image.uri), item.voice?.uri]
+      .filter((uri): uri is string => !!uri && !!ATTACHMENT_DIR && uri.startsWith(ATTACHMENT_DIR));
+
+    await Promise.all(uris.map(uri =>
+      FileSystem.deleteAsync(uri, { idempotent: true }).catch(error => {
+        console.log('Error removing outbox attachment:', error);
+      })));
+  }
+}
+
+export default new Outbox();
@@ -1,6 +1,20 @@
 import { API_ENDPOINTS } from '../config/network';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
+// A variable the template declares and uses in its text as {name}; the user
+// fills it in when picking the template
+export interface PromptTemplateVariable {
+  name: string;
+  label: string;
+  type: 'text' | 'number' | 'language' | 'enum';
+  options?: string[]; // For enums
+  default?: string;
+  required: boolean;
+}
+
+// Values for a template's variables, by name
+export type TemplateVariableValues = Record<string, string>;
+
 export interface PromptTemplate {
   _id: string;
   name: string;
@@ -11,6 +25,7 @@ export interface PromptTemplate {
   isActive: boolean;
   usageCount: number;
   isSystemTemplate: boolean;
+  variables?: PromptTemplateVariable[];
   createdAt: string;
   updatedAt: string;
 }
@@ -35,6 +50,7 @@ export interface CreateTemplateRequest {
   description: string;
   template: string;
   category: PromptTemplate['category'];
+  variables?: PromptTemplateVariable[];
 }
 
 export interface UpdateTemplateRequest extends Partial<CreateTemplateRequest> {}
@@ -0,0 +1,220 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Audio } from 'expo-av';
+import { getWebSocketUrl } from '@/config/network';
+import { Message } from '@/services/chatService';
+
+export type TalkState = 'listening' | 'thinking' | 'speaking';
+
+// Compressed formats the server decodes; 'pcm' is raw 16 kHz mono 16-bit audio
+export type TalkAudioEncoding = 'pcm' | 'm4a' | 'mp4' | 'aac' | 'webm' | 'ogg' | 'wav' | 'mp3';
+
+// One sentence of the reply. Without a file name the server could not
+// synthesize it and the device should read `text` itself.
+export interface TalkSpeech {
+  index: number;
+  text: string;
+  language: string | null;
+  url: string | null;
+  fileName: string | null;
+}
+
+// Speech recognition needs no more than 16 kHz mono
+export const SPEECH_RECORDING_OPTIONS: Audio.RecordingOptions = {
+  isMeteringEnabled: false,
+  android: {
+    extension: '.m4a',
+    outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+    audioEncoder: Audio.AndroidAudioEncoder.AAC,
+    sampleRate: 16000,
+    numberOfChannels: 1,
+    bitRate: 64000,
+  },
+  ios: {
+    extension: '.m4a',
+    outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
+    audioQuality: Audio.IOSAudioQuality.MEDIUM,
+    sampleRate: 16000,
+    numberOfChannels: 1,
+    bitRate: 64000,
+  },
+  web: {
+    mimeType: 'audio/webm',
+    bitsPerSecond: 64000,
+  },
+};
+
+// Format of recordings made with SPEECH_RECORDING_OPTIONS
+export const SPEECH_RECORDING_ENCODING: TalkAudioEncoding = Platform.OS === 'web' ? 'webm' : 'm4a';
+
+// Works for file:// URIs on devices and blob: URIs on the web
+export const readAudioAsBase64 = async (uri: string): Promise<string> => {
+  const blob = await (await fetch(uri)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export type TalkEvent =
+  | { type: 'ready'; sessionId: string; sampleRate: number; encodings: TalkAudioEncoding[] }
+  | { type: 'state'; state: TalkState }
+  | { type: 'speech_start' }
+  | { type: 'speech_end'; discarded: boolean }
+  | { type: 'partial'; text: string }
+  | { type: 'transcript'; text: string | null; language?: string | null; error?: string }
+  | { type: 'user_message'; userMessage: Message }
+  | { type: 'token'; delta: string }
+  | ({ type: 'speech' } & TalkSpeech)
+  | { type: 'ai_message'; aiResponse: Message }
+  | { type: 'speech_done'; count: number }
+  | { type: 'interrupted' }
+  | { type: 'error'; message: string; error?: string };
+
+export interface TalkHandlers {
+  onEvent: (event: TalkEvent) => void;
+  onClose?: (code: number, reason: string) => void;
+}
+
+// A hands-free conversation with the server: microphone audio goes up,
+// transcripts, reply text and reply speech come back (see
+// server/services/talk/TalkSession.js for the protocol)
+export class TalkConnection {
+  private socket: WebSocket;
+
+  constructor(url: string, handlers: TalkHandlers) {
+    this.socket = new WebSocket(url);
+
+    this.socket.onmessage = (event) => {
+      try {
+        handlers.onEvent(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Error reading talk mode event:', error);
+      }
+    };
+    this.socket.onerror = () => {
+      console.log('Talk mode connection error');
+    };
+    this.socket.onclose = (event) => {
+      handlers.onClose?.(event.code, event.reason);
+    };
+  }
+
+  isOpen(): boolean {
+    return this.socket.readyState === WebSocket.OPEN;
+  }
+
+  private send(message: object) {
+    if (this.isOpen()) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  sendAudio(base64: string, encoding: TalkAudioEncoding) {
+    this.send({ type: 'audio', data: base64, encoding });
+  }
+
+  // The user is done talking, even if the server has not heard a pause yet
+  endOfSpeech() {
+    this.send({ type: 'end_of_speech' });
+  }
+
+  interrupt() {
+    this.send({ type: 'interrupt' });
+  }
+
+  // Lets the server tell the reply's own echo apart from the user talking over it
+  setPlayback(playing: boolean) {
+    this.send({ type: 'playback', playing });
+  }
+
+  close() {
+    this.socket.close();
+  }
+}
+
+export type DictationEvent =
+  | { type: 'ready'; sampleRate: number; encodings: TalkAudioEncoding[]; maxDuration: number }
+  | { type: 'partial'; text: string }
+  | { type: 'final'; text: string | null; language?: string | null; confidence?: number | null; error?: string }
+  | { type: 'error'; message: string; error?: string };
+
+export interface DictationHandlers {
+  onEvent: (event: DictationEvent) => void;
+  onClose?: (code: number, reason: string) => void;
+}
+
+// Press-and-hold dictation: the recording goes up while the button is held,
+// partial transcripts come back, and `finish` asks for the final one.
+// Audio sent before the connection opens is held until it does.
+export class DictationConnection {
+  private socket: WebSocket;
+  private pending: string[] = [];
+
+  constructor(url: string, handlers: DictationHandlers) {
+    this.socket = new WebSocket(url);
+
+    this.socket.onopen = () => {
+      this.pending.forEach(message => this.socket.send(message));
+      this.pending = [];
+    };
+    this.socket.onmessage = (event) => {
+      try {
+        handlers.onEvent(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Error reading dictation event:', error);
+      }
+    };
+    this.socket.onerror = () => {
+      console.log('Dictation connection error');
+    };
+    this.socket.onclose = (event) => {
+      handlers.onClose?.(event.code, event.reason);
+    };
+  }
+
+  private send(message: object) {
+    const data = JSON.stringify(message);
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(data);
+    } else if (this.socket.readyState === WebSocket.CONNECTING) {
+      this.pending.push(data);
+    }
+  }
+
+  sendAudio(base64: string, encoding: TalkAudioEncoding) {
+    this.send({ type: 'audio', data: base64, encoding });
+  }
+
+  finish() {
+    this.send({ type: 'finish' });
+  }
+
+  cancel() {
+    this.send({ type: 'cancel' });
+    this.socket.close();
+  }
+}
+
+class TalkService {
+  async connect(sessionId: string, handlers: TalkHandlers, replyLanguage?: string): Promise<TalkConnection> {
+    const token = await AsyncStorage.getItem('authToken');
+    const params = new URLSearchParams({ sessionId, token: token || '' });
+    if (replyLanguage) {
+      params.append('replyLanguage', replyLanguage);
+    }
+
+    return new TalkConnection(`${getWebSocketUrl()}/api/chat/talk?${params.toString()}`, handlers);
+  }
+
+  async dictate(handlers: DictationHandlers): Promise<DictationConnection> {
+    const token = await AsyncStorage.getItem('authToken');
+    const params = new URLSearchParams({ token: token || '' });
+
+    return new DictationConnection(`${getWebSocketUrl()}/api/chat/dictate?${params.toString()}`, handlers);
+  }
+}
+
+export default new TalkService();
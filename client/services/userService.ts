@@ -0,0 +1,44 @@
+import axios from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getApiBaseUrl } from '@/config/network';
+
+const API_BASE_URL = getApiBaseUrl();
+
+export interface UserPreferences {
+  languages: string[]; // BCP-47 codes, most used first
+  replyLanguage: string | null; // null replies in the language the user used
+}
+
+class UserService {
+  private async getAuthHeaders() {
+    const token = await AsyncStorage.getItem('authToken');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    };
+  }
+
+  async getPreferences(): Promise<UserPreferences> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.get(`${API_BASE_URL}/auth/preferences`, { headers });
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching preferences:', error);
+      throw error;
+    }
+  }
+
+  async updatePreferences(changes: Partial<UserPreferences>): Promise<UserPreferences> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await axios.put(`${API_BASE_URL}/auth/preferences`, changes, { headers });
+      return response.data.data;
+    } catch (error) {
+      console.error('Error updating preferences:', error);
+      throw error;
+    }
+  }
+}
+
+export default new UserService();
@@ -1,4 +1,8 @@
 const aiService = require('../services/aiService');
+const ttsService = require('../services/ttsService');
+const contextService = require('../services/contextService');
+const imageService = require('../services/imageService');
+const ocrService = require('../services/ocrService');
 const Message = require('../models/Message');
 const ChatSession = require('../models/ChatSession');
 const path = require('path');
@@ -20,16 +24,11 @@ const generateTextResponse = async (req, res, next) => {
 
     // Get conversation context if sessionId provided
     let context = [];
+    let contextInfo = null;
     if (sessionId) {
-      const recentMessages = await Message.find({ session: sessionId })
-        .sort({ createdAt: -1 })
-        .limit(10)
-        .select('content isUserMessage');
-
-      context = recentMessages.reverse().map(msg => ({
-        role: msg.isUserMessage ? 'user' : 'assistant',
-        content: msg.content
-      }));
+      const builtContext = await contextService.buildContext(sessionId, { prompt: message });
+      context = builtContext.context;
+      contextInfo = builtContext.info;
     }
 
     // Generate AI response
@@ -48,7 +47,8 @@ const generateTextResponse = async (req, res, next) => {
       data: {
         response: aiResponse.content,
         model: aiResponse.model,
-        type: aiResponse.type
+        type: aiResponse.type,
+        context: contextInfo
       }
     });
   } catch (error) {
@@ -70,11 +70,11 @@ const generateImageCaption = async (req, res, next) => {
       });
     }
 
-    const imagePath = req.file.path;
+    const image = await imageService.ingest(req.file);
 
     try {
       // Generate caption
-      const aiResponse = await aiService.generateImageCaption(imagePath, customPrompt);
+      const aiResponse = await aiService.generateImageCaption(imageService.getModelPath(image), customPrompt);
 
       if (!aiResponse.success) {
         return res.status(503).json({
@@ -94,10 +94,64 @@ const generateImageCaption = async (req, res, next) => {
         }
       });
     } finally {
-      // Clean up uploaded file after processing
-      if (fs.existsSync(imagePath)) {
-        fs.unlinkSync(imagePath);
+      // Clean up uploaded file and its copies after processing
+      await imageService.remove(image);
+    }
+  } catch (error) {
+    // Clean up file on error
+    if (req.file && fs.existsSync(req.file.path)) {
+      fs.unlinkSync(req.file.path);
+    }
+    next(error);
+  }
+};
+
+// @desc    Extract the text of an image, keeping its layout. `engine`
+//          picks an OCR engine (tesseract, vision); by default the first
+//          available one that finds text is used.
+// @route   POST /api/ai/ocr
+// @access  Private
+const extractText = async (req, res, next) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'Image file is required'
+      });
+    }
+
+    const image = await imageService.ingest(req.file);
+
+    try {
+      const result = await ocrService.extract(
+        [{ path: imageService.getModelPath(image), originalPath: image.path }],
+        { engine: req.body.engine, languages: req.user.preferences?.languages || [] }
+      );
+
+      if (!result.success) {
+        return res.status(503).json({
+          success: false,
+          message: 'Text extraction unavailable',
+          error: result.error
+        });
       }
+
+      const [page] = result.pages;
+      res.status(200).json({
+        success: true,
+        data: {
+          text: page.text,
+          blocks: page.blocks,
+          documentType: page.documentType,
+          language: page.language,
+          confidence: page.confidence,
+          engine: page.engine,
+          model: page.model
+        }
+      });
+    } finally {
+      // Clean up uploaded file and its copies after processing
+      await imageService.remove(image);
     }
   } catch (error) {
     // Clean up file on error
@@ -108,7 +162,12 @@ const generateImageCaption = async (req, res, next) => {
   }
 };
 
-// @desc    Answer question about image
+// Uploads kept as a session's active image live with the chat images
+const chatImagesDir = path.join(__dirname, '../uploads/images');
+
+// @desc    Answer question about image. With a `sessionId`, the uploaded
+//          image becomes the session's active image and is kept, and later
+//          questions may leave the image out to ask about it again.
 // @route   POST /api/chat/ai/image-qa
 // @access  Private
 const answerImageQuestion = async (req, res, next) => {
@@ -116,21 +175,64 @@ const answerImageQuestion = async (req, res, next) => {
     const { question, sessionId } = req.body;
 
     if (!question) {
+      if (req.file) fs.unlinkSync(req.file.path);
       return res.status(400).json({
         success: false,
         message: 'Question is required'
       });
     }
 
-    if (!req.file) {
+    const session = sessionId
+      ? await ChatSession.findOne({ _id: sessionId, user: req.user.id })
+      : null;
+
+    if (sessionId && !session) {
+      if (req.file) fs.unlinkSync(req.file.path);
+      return res.status(404).json({
+        success: false,
+        message: 'Chat session not found'
+      });
+    }
+
+    let image = null;
+    let imagePaths = [];
+    let kept = false;
+
+    if (req.file && session) {
+      fs.mkdirSync(chatImagesDir, { recursive: true });
+      const keptPath = path.join(chatImagesDir, req.file.filename);
+      fs.renameSync(req.file.path, keptPath);
+      try {
+        image = await imageService.ingest({ ...req.file, path: keptPath });
+      } catch (error) {
+        fs.unlinkSync(keptPath);
+        throw error;
+      }
+      imagePaths = [imageService.getModelPath(image)];
+      kept = true;
+
+      const contextImage = {
+        path: imagePaths[0],
+        fileName: image.fileName,
+        thumbnailFileName: image.thumbnail?.fileName
+      };
+      if (session.noteImages([contextImage])) {
+        await session.save();
+      }
+    } else if (req.file) {
+      image = await imageService.ingest(req.file);
+      imagePaths = [imageService.getModelPath(image)];
+    } else if (session) {
+      imagePaths = session.getActiveImagePaths();
+    }
+
+    if (imagePaths.length === 0) {
       return res.status(400).json({
         success: false,
         message: 'Image file is required'
       });
     }
 
-    const imagePath = req.file.path;
-
     try {
       // Get previous context for this image session if needed
       let previousContext = [];
@@ -150,7 +252,7 @@ const answerImageQuestion = async (req, res, next) => {
 
       // Generate answer
       const aiResponse = await aiService.answerImageQuestion(
-        imagePath, 
+        imagePaths,
         question, 
         previousContext
       );
@@ -170,13 +272,16 @@ const answerImageQuestion = async (req, res, next) => {
           question: question,
           model: aiResponse.model,
           type: aiResponse.type,
-          imageUrl: `/uploads/${req.file.filename}`
+          imageUrl: kept
+            ? `/api/chat/images/${image.fileName}`
+            : req.file && `/uploads/${req.file.filename}`,
+          imageContext: session ? session.imageContext : null
         }
       });
     } finally {
-      // Clean up uploaded file
-      if (fs.existsSync(imagePath)) {
-        fs.unlinkSync(imagePath);
+      // Clean up an upload nobody will ask about again
+      if (image && !kept) {
+        await imageService.remove(image);
       }
     }
   } catch (error) {
@@ -194,7 +299,6 @@ const answerImageQuestion = async (req, res, next) => {
 const streamResponse = async (req, res, next) => {
   try {
     const { message, sessionId } = req.body;
-    const imagePath = req.file ? req.file.path : null;
 
     if (!message) {
       return res.status(400).json({
@@ -203,6 +307,8 @@ const streamResponse = async (req, res, next) => {
       });
     }
 
+    const image = req.file ? await imageService.ingest(req.file) : null;
+
     // Set headers for Server-Sent Events
     res.writeHead(200, {
       'Content-Type': 'text/plain',
@@ -214,7 +320,7 @@ const streamResponse = async (req, res, next) => {
     try {
       await aiService.streamResponse(
         message,
-        imagePath,
+        image && imageService.getModelPath(image),
         (chunk) => {
           // Send chunk to client
           res.write(chunk);
@@ -223,9 +329,9 @@ const streamResponse = async (req, res, next) => {
 
       res.end();
     } finally {
-      // Clean up uploaded file if exists
-      if (imagePath && fs.existsSync(imagePath)) {
-        fs.unlinkSync(imagePath);
+      // Clean up uploaded file and its copies if any
+      if (image) {
+        await imageService.remove(image);
       }
     }
   } catch (error) {
@@ -248,7 +354,8 @@ const getAIStatus = async (req, res, next) => {
       success: true,
       data: {
         isReady: aiService.isReady(),
-        ...modelInfo
+        ...modelInfo,
+        ocr: await ocrService.getStatus()
       }
     });
   } catch (error) {
@@ -278,11 +385,47 @@ const healthCheck = async (req, res, next) => {
   }
 };
 
+// @desc    Convert text to speech, cached as an audio file
+// @route   POST /api/ai/tts
+// @access  Private
+const synthesizeSpeech = async (req, res, next) => {
+  try {
+    const { text, voice, rate, format, engine, language } = req.body;
+
+    // Validation errors carry a 400 status for the error handler
+    const speech = await ttsService.synthesize(text, { voice, rate, format, engine, language });
+
+    res.status(speech.cached ? 200 : 201).json({
+      success: true,
+      data: speech
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    List text-to-speech engines, voices and formats
+// @route   GET /api/ai/tts/voices
+// @access  Private
+const getSpeechVoices = async (req, res, next) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: await ttsService.getStatus()
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 module.exports = {
   generateTextResponse,
   generateImageCaption,
+  extractText,
   answerImageQuestion,
   streamResponse,
   getAIStatus,
-  healthCheck
+  healthCheck,
+  synthesizeSpeech,
+  getSpeechVoices
 };
@@ -1,5 +1,6 @@
 const User = require('../models/User');
 const jwt = require('jsonwebtoken');
+const languageService = require('../services/languageService');
 
 // Generate JWT Token
 const generateToken = (id) => {
@@ -179,7 +180,8 @@ const getMe = async (req, res, next) => {
         email: user.email,
         role: user.role,
         lastLogin: user.lastLogin,
-        createdAt: user.createdAt
+        createdAt: user.createdAt,
+        preferences: user.preferences
       }
     });
   } catch (error) {
@@ -209,6 +211,61 @@ const logout = async (req, res, next) => {
   }
 };
 
+// @desc    Get the user's language preferences
+// @route   GET /api/auth/preferences
+// @access  Private
+const getPreferences = async (req, res, next) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: req.user.preferences
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Update the user's language preferences
+// @route   PUT /api/auth/preferences
+// @access  Private
+const updatePreferences = async (req, res, next) => {
+  try {
+    const { languages, replyLanguage } = req.body;
+    const user = await User.findById(req.user.id);
+
+    if (languages !== undefined) {
+      const normalized = Array.isArray(languages) ? languages.map(code => languageService.normalize(code)) : null;
+      if (!normalized || normalized.includes(null)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Languages must be a list of language codes such as en-US'
+        });
+      }
+      user.preferences.languages = [...new Set(normalized)];
+    }
+
+    if (replyLanguage !== undefined) {
+      const normalized = replyLanguage === null ? null : languageService.normalize(replyLanguage);
+      if (replyLanguage !== null && !normalized) {
+        return res.status(400).json({
+          success: false,
+          message: 'Reply language must be a language code such as fr-FR, or null'
+        });
+      }
+      user.preferences.replyLanguage = normalized;
+    }
+
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      data: user.preferences
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // @desc    Test server connection
 // @route   GET /api/auth/test-connection
 // @access  Public
@@ -227,5 +284,7 @@ module.exports = {
   adminLogin,
   getMe,
   logout,
+  getPreferences,
+  updatePreferences,
   testConnection
 };
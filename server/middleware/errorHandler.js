@@ -41,6 +41,14 @@ const errorHandler = (err, req, res, next) => {
     error = { message, statusCode: 401 };
   }
 
+  // Upload errors: too many files, too large, unexpected field
+  if (err.name === 'MulterError') {
+    const message = err.code === 'LIMIT_UNEXPECTED_FILE'
+      ? `Too many files or unexpected field: ${err.field}`
+      : err.message;
+    error = { message, statusCode: 400 };
+  }
+
   res.status(error.statusCode || 500).json({
     success: false,
     message: error.message || 'Server Error',
@@ -1,3 +1,4 @@
+const fs = require('fs');
 const mongoose = require('mongoose');
 
 const chatSessionSchema = new mongoose.Schema({
@@ -23,6 +24,52 @@ const chatSessionSchema = new mongoose.Schema({
   messageCount: {
     type: Number,
     default: 0
+  },
+  activeLeaf: {
+    type: mongoose.Schema.Types.ObjectId, // Last message of the branch being shown and continued
+    ref: 'Message',
+    default: null
+  },
+  contextSummary: {
+    content: {
+      type: String, // Rolling summary of turns that no longer fit the context window
+      default: null
+    },
+    summarizedUntil: {
+      type: Date, // createdAt of the newest message covered by the summary
+      default: null
+    },
+    summarizedThrough: {
+      type: mongoose.Schema.Types.ObjectId, // Newest message covered; ties the summary to a branch
+      ref: 'Message',
+      default: null
+    },
+    messageCount: {
+      type: Number, // Number of messages folded into the summary
+      default: 0
+    }
+  },
+  imageContext: {
+    // Images that text-only turns keep asking about, until the user clears them
+    images: [{
+      path: String,
+      fileName: String, // Served from /api/chat/images/:filename
+      thumbnailFileName: String,
+      _id: false
+    }],
+    message: {
+      type: mongoose.Schema.Types.ObjectId, // Message the images came from; null for image Q&A uploads
+      ref: 'Message',
+      default: null
+    },
+    pinned: {
+      type: Boolean, // Chosen by the user; newer images don't replace pinned ones
+      default: false
+    },
+    updatedAt: {
+      type: Date,
+      default: null
+    }
   }
 }, {
   timestamps: true
@@ -38,6 +85,34 @@ chatSessionSchema.methods.updateActivity = function() {
   return this.save();
 };
 
+// Make newly sent images the active image context, unless the user pinned
+// others. Returns whether the context changed; the caller saves.
+chatSessionSchema.methods.noteImages = function(images, messageId = null) {
+  if (images.length === 0 || this.imageContext?.pinned) {
+    return false;
+  }
+  this.imageContext = { images, message: messageId, pinned: false, updatedAt: new Date() };
+  return true;
+};
+
+// Keep asking about these images, whatever is sent later
+chatSessionSchema.methods.pinImages = function(images, messageId) {
+  this.imageContext = { images, message: messageId, pinned: true, updatedAt: new Date() };
+  return this.save();
+};
+
+chatSessionSchema.methods.clearImageContext = function() {
+  this.imageContext = { images: [], message: null, pinned: false, updatedAt: new Date() };
+  return this.save();
+};
+
+// Paths of the active images that are still on disk
+chatSessionSchema.methods.getActiveImagePaths = function() {
+  return (this.imageContext?.images || [])
+    .map(image => image.path)
+    .filter(imagePath => imagePath && fs.existsSync(imagePath));
+};
+
 // Generate title from first message
 chatSessionSchema.methods.generateTitle = function(firstMessage) {
   if (firstMessage && firstMessage.length > 0) {
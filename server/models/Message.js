@@ -1,5 +1,79 @@
 const mongoose = require('mongoose');
 
+// Structured description of an image for screen reader and TTS users
+const altTextSchema = new mongoose.Schema({
+  altText: String, // Short alt text for the image itself
+  longDescription: String,
+  detectedText: String, // Legible text in the image
+  people: [{
+    description: String,
+    position: String,
+    _id: false
+  }],
+  objects: [{
+    label: String,
+    position: String,
+    _id: false
+  }],
+  hazards: [{
+    description: String,
+    severity: {
+      type: String,
+      enum: ['low', 'medium', 'high']
+    },
+    _id: false
+  }],
+  model: String,
+  generatedAt: Date
+}, { _id: false });
+
+// Text read from an image in OCR mode (see services/ocrService.js)
+const ocrSchema = new mongoose.Schema({
+  text: String, // One printed line per line, blank lines between blocks
+  blocks: [{
+    type: {
+      type: String,
+      enum: ['heading', 'paragraph', 'list_item', 'line_item', 'total', 'table_row', 'other']
+    },
+    text: String,
+    _id: false
+  }],
+  documentType: String, // receipt, sign, slide, ... when the engine can tell
+  language: String,
+  confidence: Number, // 0 to 1, when the engine reports one
+  engine: String,
+  model: String,
+  extractedAt: Date
+}, { _id: false });
+
+// A smaller JPEG copy of an image, made on upload (see services/imageService.js)
+const imageCopySchema = new mongoose.Schema({
+  path: String,
+  fileName: String, // Served from /api/chat/images/:filename like the original
+  width: Number,
+  height: Number,
+  size: Number
+}, { _id: false });
+
+// A file sent with a message. Only images for now.
+const attachmentSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['image'],
+    default: 'image'
+  },
+  path: String, // Path to the uploaded file
+  fileName: String, // Generated filename, served from /api/chat/images/:filename
+  originalName: String, // Original name from client
+  size: Number, // Size of the file in bytes
+  mimeType: String,
+  width: Number, // Upright dimensions; unset for images that could not be decoded
+  height: Number,
+  thumbnail: imageCopySchema, // Shown in chat bubbles
+  modelCopy: imageCopySchema, // Sent to the model; unset when the original is small enough
+  ocr: ocrSchema // Set once the text of the image has been extracted
+}, { _id: false });
+
 const messageSchema = new mongoose.Schema({
   session: {
     type: mongoose.Schema.Types.ObjectId,
@@ -22,6 +96,11 @@ const messageSchema = new mongoose.Schema({
     required: true,
     default: true
   },
+  parent: {
+    type: mongoose.Schema.Types.ObjectId, // Previous turn on the same branch; null for a first turn
+    ref: 'Message',
+    default: null
+  },
   messageType: {
     type: String,
     enum: ['text', 'voice', 'system', 'image', 'multimodal', 'multimodal_response'],
@@ -56,6 +135,36 @@ const messageSchema = new mongoose.Schema({
       type: Number, // Duration of voice in seconds
       default: null
     },
+    voiceCodec: {
+      type: String, // Audio codec reported by ffprobe (aac, opus, ...)
+      default: null
+    },
+    voiceSampleRate: {
+      type: Number, // Sample rate of the recording in Hz
+      default: null
+    },
+    voiceTranscript: {
+      type: String, // Speech-to-text result, also used as content when nothing was typed
+      default: null
+    },
+    voiceTranscriptConfidence: {
+      type: Number, // 0-1, null when the engine does not report one
+      default: null
+    },
+    voiceTranscriptEngine: {
+      type: String, // Speech-to-text engine that produced the transcript
+      default: null
+    },
+    voiceTranscriptTimings: {
+      // When each word (or segment, if the engine has no word timings) is spoken
+      type: [{
+        text: String,
+        start: Number, // Seconds from the start of the recording
+        end: Number,
+        _id: false
+      }],
+      default: undefined
+    },
     processingTime: {
       type: Number, // Time taken to process the message in milliseconds
       default: null
@@ -64,6 +173,32 @@ const messageSchema = new mongoose.Schema({
       type: String, // AI model used for response
       default: null
     },
+    aiProvider: {
+      type: String, // AI provider that generated the response (gemini, ollama, ...)
+      default: null
+    },
+    promptTemplate: {
+      id: {
+        type: mongoose.Schema.Types.ObjectId, // Prompt template applied to the request
+        ref: 'PromptTemplate'
+      },
+      name: String,
+      category: String,
+      variables: mongoose.Schema.Types.Mixed // Values its variables were filled in with
+    },
+    // Values the user gave for the prompt template's variables; regenerating
+    // the answer uses them again
+    templateVariables: {
+      type: mongoose.Schema.Types.Mixed,
+      default: undefined
+    },
+    attachments: {
+      // Every image sent with the message, in the order they were picked
+      type: [attachmentSchema],
+      default: undefined
+    },
+    // The first image, also kept on its own for clients and services that
+    // only handle one
     imagePath: {
       type: String, // Path to uploaded image file
       default: null
@@ -88,15 +223,93 @@ const messageSchema = new mongoose.Schema({
       type: Boolean, // Whether AI response was generated with image input
       default: false
     },
+    contextImages: {
+      // File names of the session's active images a text-only turn was answered with
+      type: [String],
+      default: undefined
+    },
+    accessibility: {
+      type: altTextSchema, // Alt-text package of the image, from accessibility mode
+      default: null
+    },
+    extractedText: {
+      // Text of all the message's images from OCR mode, headed "Image N:" when
+      // there are several; searched with the content and sent as context
+      type: String,
+      default: undefined
+    },
     responseType: {
       type: String, // Type of AI response (text, multimodal, etc.)
       default: null
+    },
+    completionStatus: {
+      type: String, // Whether the AI response finished, was stopped by the user, or broke off
+      enum: ['complete', 'partial', 'cancelled'],
+      default: 'complete'
+    },
+    language: {
+      type: String, // BCP-47 code: detected for user messages, the reply language for AI answers
+      default: null
+    },
+    context: {
+      messageIds: [{
+        type: mongoose.Schema.Types.ObjectId, // Messages sent verbatim as context
+        ref: 'Message'
+      }],
+      summarizedCount: {
+        type: Number, // Older messages represented by the session summary
+        default: 0
+      },
+      tokenEstimate: {
+        type: Number, // Estimated tokens used by the context
+        default: null
+      },
+      tokenBudget: {
+        type: Number, // Token budget the context was packed into
+        default: null
+      }
     }
   },
   timestamp: {
     type: Date,
     default: Date.now
   },
+  responseVersions: [{
+    // Alternative AI answers for the same prompt; `content` mirrors the active one
+    content: String,
+    aiModel: String,
+    aiProvider: String,
+    promptTemplate: {
+      id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'PromptTemplate'
+      },
+      name: String,
+      category: String,
+      variables: mongoose.Schema.Types.Mixed
+    },
+    processingTime: Number,
+    completionStatus: String,
+    language: String,
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  activeVersion: {
+    type: Number,
+    default: 0
+  },
+  idempotencyKey: {
+    type: String // Client-generated key of the send request, so retries aren't saved twice
+  },
+  replyStatus: {
+    type: String, // Of a sent user message: whether its reply is being generated or failed
+    enum: ['pending', 'complete', 'failed']
+  },
+  replyStartedAt: {
+    type: Date
+  },
   isEdited: {
     type: Boolean,
     default: false
@@ -113,9 +326,52 @@ const messageSchema = new mongoose.Schema({
 });
 
 // Index for better query performance
-messageSchema.index({ session: 1, timestamp: 1 });
-messageSchema.index({ user: 1, timestamp: -1 });
+messageSchema.index({ session: 1, createdAt: 1 });
+messageSchema.index({ user: 1, createdAt: -1 });
 messageSchema.index({ session: 1, isUserMessage: 1 });
+messageSchema.index({ session: 1, parent: 1 });
+// The only text index of the collection; databases that still have the
+// older content-only index (content_text) need npm run migrate-text-index
+messageSchema.index(
+  { content: 'text', 'metadata.extractedText': 'text' },
+  { name: 'content_extracted_text' }
+);
+messageSchema.index(
+  { user: 1, idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } }
+);
+
+// Tree helpers. `nodes` are lean { _id, parent, createdAt } documents sorted oldest first.
+
+// Messages from the first turn down to `leafId`, following parent pointers
+const pathTo = (nodes, leafId) => {
+  const byId = new Map(nodes.map(node => [String(node._id), node]));
+  const path = [];
+  let node = leafId ? byId.get(String(leafId)) : null;
+  while (node) {
+    path.unshift(node);
+    node = node.parent ? byId.get(String(node.parent)) : null;
+  }
+  return path;
+};
+
+// Sessions from before branching have no active leaf; use their newest message
+const resolveLeaf = (nodes, leafId) => {
+  if (leafId && nodes.some(node => node._id.equals(leafId))) {
+    return leafId;
+  }
+  return nodes.length > 0 ? nodes[nodes.length - 1]._id : null;
+};
+
+const groupChildren = (nodes) => {
+  const children = new Map();
+  nodes.forEach(node => {
+    const key = String(node.parent);
+    if (!children.has(key)) children.set(key, []);
+    children.get(key).push(node);
+  });
+  return children;
+};
 
 // Method to edit message
 messageSchema.methods.editMessage = function(newContent) {
@@ -131,20 +387,337 @@ messageSchema.methods.editMessage = function(newContent) {
   return this.save();
 };
 
-// Static method to get conversation history
-messageSchema.statics.getConversationHistory = function(sessionId, limit = 50, skip = 0) {
-  return this.find({ session: sessionId })
-    .sort({ timestamp: 1 })
-    .limit(limit)
-    .skip(skip)
-    .populate('user', 'name email')
-    .populate('session', 'title');
+// Method to list the message's images as { path, originalPath, fileName,
+// thumbnailFileName }, where path is the copy to send to a model. Messages saved before
+// attachments existed only have metadata.imagePath.
+messageSchema.methods.getImages = function() {
+  const attachments = (this.metadata?.attachments || []).filter(attachment => attachment.type === 'image');
+  if (attachments.length > 0) {
+    return attachments.map(attachment => ({
+      path: attachment.modelCopy?.path || attachment.path,
+      originalPath: attachment.path,
+      fileName: attachment.fileName,
+      thumbnailFileName: attachment.thumbnail?.fileName
+    }));
+  }
+  return this.metadata?.imagePath
+    ? [{ path: this.metadata.imagePath, originalPath: this.metadata.imagePath, fileName: this.metadata.imageFileName }]
+    : [];
+};
+
+messageSchema.methods.getImagePaths = function() {
+  return this.getImages().map(image => image.path);
+};
+
+// Snapshot of the fields that make up one AI answer
+const toResponseVersion = (message) => ({
+  content: message.content,
+  aiModel: message.metadata?.aiModel,
+  aiProvider: message.metadata?.aiProvider,
+  promptTemplate: message.metadata?.promptTemplate,
+  processingTime: message.metadata?.processingTime,
+  completionStatus: message.metadata?.completionStatus,
+  language: message.metadata?.language,
+  createdAt: message.createdAt
+});
+
+// Method to add a regenerated AI answer, keeping earlier answers as versions
+messageSchema.methods.addResponseVersion = function(version) {
+  // The original answer becomes version 0 the first time we regenerate
+  if (this.responseVersions.length === 0) {
+    this.responseVersions.push(toResponseVersion(this));
+  }
+
+  this.responseVersions.push({ ...version, createdAt: new Date() });
+  return this.selectVersion(this.responseVersions.length - 1);
+};
+
+// Method to make one of the stored answers the visible one
+messageSchema.methods.selectVersion = function(index) {
+  const version = this.responseVersions[index];
+  if (!version) {
+    throw new Error(`Version ${index} does not exist`);
+  }
+
+  this.activeVersion = index;
+  this.content = version.content;
+  this.metadata.aiModel = version.aiModel;
+  this.metadata.aiProvider = version.aiProvider;
+  this.metadata.promptTemplate = version.promptTemplate;
+  this.metadata.processingTime = version.processingTime;
+  this.metadata.completionStatus = version.completionStatus || 'complete';
+  this.metadata.language = version.language || null;
+  return this.save();
+};
+
+// A reply still pending after this long is taken to have died with its
+// request (a crash or restart), and a retried send may generate it again
+const PENDING_REPLY_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Method to record how answering a sent user message went: 'pending' while
+// its reply is generated, then 'complete' or 'failed'. Only this field is
+// written, so it can be called for a message whose save failed.
+messageSchema.methods.setReplyStatus = function(status) {
+  this.replyStatus = status;
+  if (status === 'pending') {
+    this.replyStartedAt = new Date();
+  }
+  return this.constructor.updateOne(
+    { _id: this._id },
+    { replyStatus: status, replyStartedAt: this.replyStartedAt }
+  );
+};
+
+// Static method to take over answering a sent message that has no reply, for
+// a retried send. Resolves with the message, marked pending, or null while
+// another request is still generating its reply.
+messageSchema.statics.claimReply = function(messageId) {
+  return this.findOneAndUpdate(
+    {
+      _id: messageId,
+      $or: [
+        { replyStatus: { $ne: 'pending' } },
+        { replyStartedAt: { $lt: new Date(Date.now() - PENDING_REPLY_TIMEOUT_MS) } }
+      ]
+    },
+    { replyStatus: 'pending', replyStartedAt: new Date() },
+    { new: true }
+  );
+};
+
+// Static method to get the shape of a session's message tree. This reads
+// every message of the session; helpers that need only one branch walk it
+// with getAncestors instead.
+messageSchema.statics.getTree = async function(sessionId) {
+  const nodes = await this.find({ session: sessionId })
+    .select('parent createdAt')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  // Messages saved before branching have no parent until
+  // scripts/backfill-message-parents.js has run: chain them in the order they were sent
+  nodes.forEach((node, index) => {
+    if (node.parent === undefined) {
+      node.parent = index > 0 ? nodes[index - 1]._id : null;
+    }
+  });
+
+  return nodes;
+};
+
+// Static method to get up to `count` messages of the branch ending at
+// `messageId`, newest first, as lean { _id, parent } nodes. Parent pointers
+// are followed in the database, so only that part of the branch is read.
+messageSchema.statics.getAncestors = async function(sessionId, messageId, count) {
+  if (!mongoose.isValidObjectId(messageId) || count < 1) return [];
+  const session = new mongoose.Types.ObjectId(String(sessionId));
+
+  const [start] = await this.aggregate([
+    { $match: { _id: new mongoose.Types.ObjectId(String(messageId)), session } },
+    {
+      $graphLookup: {
+        from: this.collection.collectionName,
+        startWith: '$parent',
+        connectFromField: 'parent',
+        connectToField: '_id',
+        as: 'ancestors',
+        maxDepth: Math.max(count - 2, 0),
+        depthField: 'depth',
+        restrictSearchWithMatch: { session }
+      }
+    },
+    { $project: { parent: 1, 'ancestors._id': 1, 'ancestors.parent': 1, 'ancestors.depth': 1 } }
+  ]);
+  if (!start) return [];
+
+  const ancestors = start.ancestors
+    .sort((a, b) => a.depth - b.depth)
+    .map(({ _id, parent }) => ({ _id, parent }));
+  return [{ _id: start._id, parent: start.parent }, ...ancestors].slice(0, count);
+};
+
+// Messages fetched per step when walking a branch up from its leaf
+const BRANCH_WALK_STEP = 100;
+
+// Static method to get the end of a session's active branch as a lean
+// { _id, parent } node, or null for an empty session. Sessions from before
+// branching have no active leaf; their newest message is used.
+messageSchema.statics.getActiveLeaf = async function(session) {
+  const leaf = session.activeLeaf && (await this.getAncestors(session._id, session.activeLeaf, 1))[0];
+  if (leaf) return leaf;
+  return this.findOne({ session: session._id }).sort({ createdAt: -1 }).select('parent').lean();
+};
+
+// Static method to get the messages (as { _id, parent } nodes) leading up to
+// `leafId`, oldest first. The branch is walked up from the leaf in steps, so
+// other branches of the session are never read.
+// Sessions from before branching need scripts/backfill-message-parents.js.
+messageSchema.statics.getBranchPath = async function(sessionId, leafId) {
+  const path = [];
+  let next = leafId;
+  while (next) {
+    const step = await this.getAncestors(sessionId, next, BRANCH_WALK_STEP);
+    path.push(...step);
+    next = step.length === BRANCH_WALK_STEP ? step[step.length - 1].parent : null;
+  }
+  return path.reverse();
+};
+
+// Static method to get the messages (as tree nodes) of a session's active branch
+messageSchema.statics.getActivePath = async function(session) {
+  const leaf = await this.getActiveLeaf(session);
+  return leaf ? this.getBranchPath(session._id, leaf._id) : [];
+};
+
+// Static method to find the newest message below `messageId`; switching to a
+// branch continues where it was last added to. The subtree is read a level
+// at a time through the { session, parent } index.
+messageSchema.statics.getLatestLeaf = async function(sessionId, messageId) {
+  let latest = await this.findOne({ _id: messageId, session: sessionId }).select('createdAt').lean();
+  let level = latest ? [latest] : [];
+  while (level.length > 0) {
+    level = await this.find({ session: sessionId, parent: { $in: level.map(node => node._id) } })
+      .select('createdAt')
+      .lean();
+    level.forEach(node => {
+      if (node.createdAt > latest.createdAt) latest = node;
+    });
+  }
+
+  return latest ? latest._id : null;
+};
+
+// Static method to list the branches of a session, newest first
+messageSchema.statics.getBranches = async function(session) {
+  const nodes = await this.getTree(session._id);
+  const activeLeaf = resolveLeaf(nodes, session.activeLeaf);
+  const children = groupChildren(nodes);
+  const leaves = nodes.filter(node => !children.has(String(node._id)));
+
+  const leafMessages = await this.find({ _id: { $in: leaves.map(leaf => leaf._id) } })
+    .select('content isUserMessage createdAt');
+
+  return leaves
+    .map(leaf => {
+      const message = leafMessages.find(m => m._id.equals(leaf._id));
+      return {
+        leafId: leaf._id,
+        messageCount: pathTo(nodes, leaf._id).length,
+        lastMessage: {
+          content: message.content.substring(0, 100),
+          isUserMessage: message.isUserMessage,
+          createdAt: message.createdAt
+        },
+        isActive: leaf._id.equals(activeLeaf)
+      };
+    })
+    .sort((a, b) => b.lastMessage.createdAt - a.lastMessage.createdAt);
+};
+
+// Static method to get one page of conversation history along the session's
+// active branch, oldest first. Without a cursor the newest page is returned;
+// `before`/`after`/`around` are message ids on the branch. Returns null for a
+// cursor that isn't on the branch.
+// Only the page is read: older messages by following parent pointers up from
+// the cursor, newer ones by walking up from the active leaf to the cursor.
+// Sessions from before branching need scripts/backfill-message-parents.js.
+// Turns that have alternatives carry `branch: { index, count, siblingIds }`.
+messageSchema.statics.getConversationHistory = async function(sessionId, { limit = 50, before = null, after = null, around = null } = {}) {
+  const session = await mongoose.model('ChatSession').findById(sessionId).select('activeLeaf');
+  if (!session) return null;
+
+  const leaf = await this.getActiveLeaf(session);
+  if (!leaf) {
+    return { messages: [], pagination: { hasOlder: false, hasNewer: false } };
+  }
+
+  // The branch from the leaf up to the cursor, newest first, or null when
+  // the cursor is not on it
+  const walkToCursor = async (cursor) => {
+    const walked = [];
+    let next = leaf._id;
+    while (next) {
+      const step = await this.getAncestors(sessionId, next, BRANCH_WALK_STEP);
+      const position = step.findIndex(node => String(node._id) === String(cursor));
+      if (position !== -1) {
+        return [...walked, ...step.slice(0, position + 1)];
+      }
+      walked.push(...step);
+      next = step.length === BRANCH_WALK_STEP ? step[step.length - 1].parent : null;
+    }
+    return null;
+  };
+
+  let page;
+  let hasOlder;
+  let hasNewer;
+  if (before) {
+    // The cursor and the `limit` messages above it, plus one to tell if there are more
+    const nodes = await this.getAncestors(sessionId, before, limit + 2);
+    if (nodes.length === 0) return null;
+    const older = nodes.slice(1);
+    page = older.slice(0, limit).reverse();
+    hasOlder = older.length > limit;
+    hasNewer = true;
+  } else if (after || around) {
+    const walked = await walkToCursor(after || around);
+    if (!walked) return null;
+    const newer = walked.slice(0, -1).reverse();
+
+    if (after) {
+      page = newer.slice(0, limit);
+      hasOlder = true;
+      hasNewer = newer.length > limit;
+    } else {
+      // Half a page before the message, or more when there is less after it
+      const older = (await this.getAncestors(sessionId, around, limit + 1)).slice(1);
+      const olderCount = Math.min(older.length, Math.max(Math.floor(limit / 2), limit - 1 - newer.length));
+      const newerCount = Math.min(newer.length, limit - 1 - olderCount);
+      page = [...older.slice(0, olderCount).reverse(), walked[walked.length - 1], ...newer.slice(0, newerCount)];
+      hasOlder = older.length > olderCount;
+      hasNewer = newer.length > newerCount;
+    }
+  } else {
+    const nodes = await this.getAncestors(sessionId, leaf._id, limit + 1);
+    page = nodes.slice(0, limit).reverse();
+    hasOlder = nodes.length > limit;
+    hasNewer = false;
+  }
+
+  const [messages, siblings] = await Promise.all([
+    this.find({ _id: { $in: page.map(node => node._id) } })
+      .sort({ createdAt: 1 })
+      .populate('user', 'name email')
+      .populate('session', 'title'),
+    // Alternatives to the page's messages: other children of their parents
+    this.find({ session: sessionId, parent: { $in: page.map(node => node.parent || null) } })
+      .select('parent createdAt')
+      .sort({ createdAt: 1 })
+      .lean()
+  ]);
+  const children = groupChildren(siblings);
+
+  return {
+    messages: messages.map(message => {
+      const alternatives = children.get(String(message.parent || null)) || [];
+      const history = message.toObject();
+      if (alternatives.length > 1) {
+        history.branch = {
+          index: alternatives.findIndex(sibling => sibling._id.equals(message._id)),
+          count: alternatives.length,
+          siblingIds: alternatives.map(sibling => sibling._id)
+        };
+      }
+      return history;
+    }),
+    pagination: { hasOlder, hasNewer }
+  };
 };
 
 // Static method to get latest messages for a user
 messageSchema.statics.getLatestMessages = function(userId, limit = 20) {
   return this.find({ user: userId })
-    .sort({ timestamp: -1 })
+    .sort({ createdAt: -1 })
     .limit(limit)
     .populate('session', 'title');
 };
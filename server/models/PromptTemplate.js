@@ -1,4 +1,27 @@
 const mongoose = require('mongoose');
+// A value the user fills in when picking the template, used in its text as
+// {name}; checked by templateService.checkVariables before saving
+const templateVariableSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true
+  },
+  label: String,
+  type: {
+    type: String,
+    enum: ['text', 'number', 'language', 'enum'],
+    default: 'text'
+  },
+  options: {
+    type: [String], // For enums
+    default: undefined
+  },
+  default: String,
+  required: {
+    type: Boolean,
+    default: true
+  }
+}, { _id: false });
 
 const promptTemplateSchema = new mongoose.Schema({
   user: {
@@ -24,6 +47,11 @@ const promptTemplateSchema = new mongoose.Schema({
     trim: true,
     maxlength: 2000
   },
+  // Only these are filled in; other braces in the text are left as they are
+  variables: {
+    type: [templateVariableSchema],
+    default: []
+  },
   category: {
     type: String,
     enum: ['educational', 'technical', 'creative', 'professional', 'casual', 'accessibility', 'custom'],
@@ -46,7 +74,8 @@ const promptTemplateSchema = new mongoose.Schema({
     default: false
   }
 }, {
-  timestamps: true
+  timestamps: true,
+  toJSON: { virtuals: true }
 });
 
 // Index for efficient queries
@@ -110,7 +139,7 @@ promptTemplateSchema.methods.incrementUsage = function() {
 
 // Virtual for formatted creation date
 promptTemplateSchema.virtual('formattedCreatedAt').get(function() {
-  return this.createdAt.toLocaleDateString();
+  return this.createdAt?.toLocaleDateString();
 });
 
 module.exports = mongoose.model('PromptTemplate', promptTemplateSchema);
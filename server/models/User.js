@@ -43,6 +43,16 @@ const userSchema = new mongoose.Schema({
   },
   sessionToken: {
     type: String
+  },
+  preferences: {
+    languages: {
+      type: [String], // BCP-47 codes the user writes and speaks, most used first
+      default: []
+    },
+    replyLanguage: {
+      type: String, // Always reply in this language; null replies in the user's own
+      default: null
+    }
   }
 }, {
   timestamps: true
@@ -57,12 +57,19 @@ router.post('/text', aiController.generateTextResponse);
 // Image captioning
 router.post('/caption', upload.single('image'), aiController.generateImageCaption);
 
+// Text extraction (OCR)
+router.post('/ocr', upload.single('image'), aiController.extractText);
+
 // Image Q&A
 router.post('/image-qa', upload.single('image'), aiController.answerImageQuestion);
 
 // Streaming responses (for real-time chat)
 router.post('/stream', upload.single('image'), aiController.streamResponse);
 
+// Text-to-speech
+router.get('/tts/voices', aiController.getSpeechVoices);
+router.post('/tts', aiController.synthesizeSpeech);
+
 // Error handling middleware for multer
 router.use((error, req, res, next) => {
   if (error instanceof multer.MulterError) {
@@ -1,4 +1,5 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
@@ -6,7 +7,13 @@ const router = express.Router();
 const ChatSession = require('../models/ChatSession');
 const Message = require('../models/Message');
 const { protect } = require('../middleware/auth');
-const aiService = require('../services/aiService');
+const searchService = require('../services/searchService');
+const analyticsService = require('../services/analyticsService');
+const ttsService = require('../services/ttsService');
+const voiceService = require('../services/voiceService');
+const imageService = require('../services/imageService');
+const languageService = require('../services/languageService');
+const replyService = require('../services/replyService');
 
 // Configure multer for media uploads (images and voice)
 const storage = multer.diskStorage({
@@ -50,6 +57,149 @@ const upload = multer({
   }
 });
 
+// Most images one message can carry
+const MAX_IMAGES_PER_MESSAGE = 6;
+
+// Streaming is requested with ?stream=true, a `stream` form/body field,
+// or an `Accept: text/event-stream` header
+const wantsEventStream = (req) => {
+  const flag = req.query.stream ?? req.body?.stream;
+  return flag === true || flag === 'true' || (req.headers.accept || '').includes('text/event-stream');
+};
+
+const openEventStream = (res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Disable proxy buffering so tokens arrive immediately
+  });
+  res.flushHeaders();
+};
+
+const sendEvent = (res, event, data) => {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// The AI answer to a user message, if there is one
+const findReplyTo = (userMessage) => Message.findOne({
+  session: userMessage.session,
+  parent: userMessage._id,
+  isUserMessage: false
+}).sort({ createdAt: -1 });
+
+// Values for the prompt template's variables, by name. Multipart requests
+// send them as a JSON string.
+const parseTemplateVariables = (value) => {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (error) {
+      return undefined;
+    }
+  }
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+};
+
+// 400 for a template whose variables are not filled in properly
+const sendTemplateErrors = (res, errors) => res.status(400).json({
+  success: false,
+  message: `Prompt template variables: ${errors.join('; ')}`,
+  errors
+});
+
+// Generate a new answer to a user message. An existing answer keeps its
+// previous content as a selectable version; otherwise a new AI message is saved.
+const regenerateReply = async ({ session, userMessage, aiResponse, body, preferences }) => {
+  const { promptTemplateId, provider, model, replyLanguage } = body;
+  const templateVariables = parseTemplateVariables(body.templateVariables);
+  // Answers from accessibility and OCR mode are regenerated in the same mode
+  const mode = body.mode || { alt_text: 'accessibility', ocr: 'ocr' }[aiResponse?.metadata?.responseType];
+
+  const reply = await replyService.generate({
+    sessionId: session._id,
+    userId: session.user,
+    userMessage,
+    promptTemplateId,
+    templateVariables,
+    mode,
+    preferences,
+    replyLanguage,
+    options: { provider, model }
+  });
+
+  if (!reply.aiResult.success) {
+    console.warn('AI service unavailable:', reply.aiResult.error);
+  }
+
+  if (aiResponse) {
+    aiResponse.metadata.context = reply.contextInfo;
+    await aiResponse.addResponseVersion(replyService.toFields(reply));
+    return aiResponse;
+  }
+
+  return replyService.saveReply({ session, userMessage, reply });
+};
+
+// Files multer stored for a request whose message is not going to be saved
+const discardUploads = (files = {}) => {
+  Object.values(files).flat().forEach(file => {
+    fs.unlink(file.path, (error) => {
+      // Images that were converted on ingest are already gone
+      if (error && error.code !== 'ENOENT') console.warn('Could not remove unused upload:', error.message);
+    });
+  });
+};
+
+// Answer a retried send that already reached us with the stored messages
+// instead of saving them twice. While the first request is still generating
+// the reply the retry gets a 409, to try again later; only when that attempt
+// failed (or died with the server) is the reply generated now.
+const replaySentMessage = async ({ req, res, session, userMessage, streaming }) => {
+  let aiResponse = await findReplyTo(userMessage);
+  if (!aiResponse) {
+    const claimed = await Message.claimReply(userMessage._id);
+    if (!claimed) {
+      return res.status(409).json({
+        success: false,
+        message: 'This message is still being answered'
+      });
+    }
+
+    try {
+      aiResponse = await regenerateReply({
+        session,
+        userMessage: claimed,
+        aiResponse: null,
+        body: req.body,
+        preferences: req.user.preferences
+      });
+      await claimed.setReplyStatus('complete');
+    } catch (error) {
+      await claimed.setReplyStatus('failed');
+      throw error;
+    }
+  }
+
+  if (streaming) {
+    openEventStream(res);
+    sendEvent(res, 'user_message', { userMessage });
+    sendEvent(res, 'ai_message', { aiResponse });
+    sendEvent(res, 'done', {});
+    return res.end();
+  }
+
+  res.json({
+    success: true,
+    data: {
+      userMessage,
+      aiResponse
+    },
+    message: 'Message was already sent'
+  });
+};
+
 // @route   GET /api/chat/sessions
 // @desc    Get all chat sessions for the authenticated user
 // @access  Private
@@ -120,8 +270,8 @@ router.get('/sessions/:id', protect, async (req, res) => {
       });
     }
 
-    // Get messages for this session
-    const messages = await Message.getConversationHistory(req.params.id);
+    // Get the newest page of messages; older ones come from GET /sessions/:id/messages
+    const { messages, pagination } = await Message.getConversationHistory(req.params.id);
 
     // Update session activity
     await session.updateActivity();
@@ -130,7 +280,8 @@ router.get('/sessions/:id', protect, async (req, res) => {
       success: true,
       data: {
         session,
-        messages
+        messages,
+        pagination
       }
     });
   } catch (error) {
@@ -143,20 +294,115 @@ router.get('/sessions/:id', protect, async (req, res) => {
   }
 });
 
+// @route   GET /api/chat/sessions/:id/messages
+// @desc    Get a page of messages on the active branch, oldest first.
+//          Query: `before`, `after` or `around` (message id cursor) and `limit` (max 100).
+// @access  Private
+router.get('/sessions/:id/messages', protect, async (req, res) => {
+  try {
+    const { before, after, around } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), 100);
+
+    if ([before, after, around].filter(Boolean).length > 1) {
+      return res.status(400).json({
+        success: false,
+        message: 'Use only one of before, after or around'
+      });
+    }
+
+    const session = await ChatSession.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat session not found'
+      });
+    }
+
+    const history = await Message.getConversationHistory(req.params.id, { limit, before, after, around });
+
+    if (!history) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cursor message is not on the active branch'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: history.messages,
+      count: history.messages.length,
+      pagination: history.pagination
+    });
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching messages',
+      error: error.message
+    });
+  }
+});
+
 // @route   POST /api/chat/sessions/:id/messages
-// @desc    Send a message to a chat session (with optional image)
+// @desc    Send a message to a chat session (with optional images).
+//          In streaming mode the response is a Server-Sent Events stream of
+//          `user_message`, `token`, `ai_message`, `error` and `done` events.
+//          Clients may send an `Idempotency-Key` header; repeating a request
+//          with the same key returns the messages saved the first time, or a
+//          409 while the first request is still generating the reply. Keys
+//          are unique per user; one already used in another session is a 422.
+//          Up to six images go in `images` fields, in order; a single
+//          `image` field is still accepted. With images, `mode:
+//          'accessibility'` replies with an alt-text package of the first
+//          (see services/altTextService.js), and `mode: 'ocr'` with the text
+//          of the images, which is stored on the message (see
+//          services/ocrService.js).
+//          The reply is in the language the user wrote or spoke in, or in
+//          `replyLanguage` (BCP-47) when given.
+//          Images sent become the session's active image context: text-only
+//          messages after them are answered with the images in view, until
+//          cleared (see /sessions/:id/image-context).
+//          With a `promptTemplateId`, `templateVariables` gives values for the
+//          template's variables by name (JSON in multipart requests); missing
+//          or invalid values are a 400 (see services/templateService.js).
 // @access  Private
 router.post('/sessions/:id/messages', protect, upload.fields([
+  { name: 'images', maxCount: MAX_IMAGES_PER_MESSAGE },
   { name: 'image', maxCount: 1 },
   { name: 'voice', maxCount: 1 }
 ]), async (req, res) => {
+  const streaming = wantsEventStream(req);
+  let userMessage = null; // Once saved, marked failed if no reply gets saved
+
   try {
-    const { content, message, messageType = 'text', promptTemplateId } = req.body;
+    const { content, message, messageType = 'text', promptTemplateId, mode, replyLanguage } = req.body;
     const messageContent = content || message; // Support both field names
-    const imageFile = req.files?.image?.[0];
+    const imageFiles = [...(req.files?.images || []), ...(req.files?.image || [])];
     const voiceFile = req.files?.voice?.[0];
+    const templateVariables = parseTemplateVariables(req.body.templateVariables);
+    const idempotencyKey = req.get('Idempotency-Key') || undefined;
+
+    if (idempotencyKey && idempotencyKey.length > 100) {
+      discardUploads(req.files);
+      return res.status(400).json({
+        success: false,
+        message: 'Idempotency key must be at most 100 characters'
+      });
+    }
+
+    if (imageFiles.length > MAX_IMAGES_PER_MESSAGE) {
+      discardUploads(req.files);
+      return res.status(400).json({
+        success: false,
+        message: `A message can have at most ${MAX_IMAGES_PER_MESSAGE} images`
+      });
+    }
 
-    if ((!messageContent || messageContent.trim().length === 0) && !imageFile && !voiceFile) {
+    if ((!messageContent || messageContent.trim().length === 0) && imageFiles.length === 0 && !voiceFile) {
       return res.status(400).json({
         success: false,
         message: 'Message content, image, or voice is required'
@@ -170,197 +416,227 @@ router.post('/sessions/:id/messages', protect, upload.fields([
     });
 
     if (!session) {
+      discardUploads(req.files);
       return res.status(404).json({
         success: false,
         message: 'Chat session not found'
       });
     }
 
+    // Keys are unique per user (see the Message index), not per session
+    if (idempotencyKey) {
+      const existingMessage = await Message.findOne({
+        user: req.user.id,
+        idempotencyKey
+      });
+
+      if (existingMessage && !existingMessage.session.equals(session._id)) {
+        discardUploads(req.files);
+        return res.status(422).json({
+          success: false,
+          message: 'This Idempotency-Key was already used in another chat session'
+        });
+      }
+
+      if (existingMessage) {
+        console.log('Repeated send, returning saved message:', idempotencyKey);
+        discardUploads(req.files);
+        return replaySentMessage({ req, res, session, userMessage: existingMessage, streaming });
+      }
+    }
+
+    const templateCheck = await replyService.checkTemplateVariables({
+      userId: req.user.id,
+      promptTemplateId,
+      templateVariables
+    });
+    if (templateCheck.errors.length > 0) {
+      discardUploads(req.files);
+      return sendTemplateErrors(res, templateCheck.errors);
+    }
+
     // Determine message type and prepare user message
     let actualMessageType = messageType;
     let userMessageContent = messageContent ? messageContent.trim() : '';
-    let imagePath = null;
-    let voicePath = null;
+    const hasTypedText = userMessageContent.length > 0;
+    const preferences = req.user.preferences || {};
+    const hasImages = imageFiles.length > 0;
+    const metadata = {};
 
-    // Handle different file types
-    if (imageFile && voiceFile) {
-      actualMessageType = 'multimodal';
-      imagePath = imageFile.path;
-      voicePath = voiceFile.path;
-      if (!userMessageContent) {
-        userMessageContent = '[Image and voice uploaded]';
-      }
-    } else if (imageFile) {
-      actualMessageType = userMessageContent ? 'multimodal' : 'image';
-      imagePath = imageFile.path;
-      if (!userMessageContent) {
-        userMessageContent = '[Image uploaded]';
-      }
-    } else if (voiceFile) {
-      actualMessageType = userMessageContent ? 'multimodal' : 'voice';
-      voicePath = voiceFile.path;
-      
-      // If no text content provided, try to transcribe the voice message
-      if (!userMessageContent) {
-        try {
-          console.log('Attempting to transcribe voice message:', voiceFile.filename);
-          const transcriptionResult = await aiService.transcribeAudio(voiceFile.path);
-          
-          if (transcriptionResult.success && transcriptionResult.transcription) {
-            userMessageContent = transcriptionResult.transcription;
-            console.log('Voice transcription successful:', userMessageContent);
-          } else {
-            console.log('Voice transcription failed, using placeholder');
-            userMessageContent = '[Voice message - click to play]';
-          }
-        } catch (error) {
-          console.error('Voice transcription error:', error);
-          userMessageContent = '[Voice message - transcription failed]';
-        }
+    if (templateCheck.values && Object.keys(templateCheck.values).length > 0) {
+      metadata.templateVariables = templateCheck.values;
+    }
+
+    // Upright, without EXIF location, with a thumbnail and a model-sized copy.
+    // Images that can't be re-encoded are refused rather than stored as sent.
+    if (hasImages) {
+      const ingested = await Promise.allSettled(imageFiles.map(file => imageService.ingest(file)));
+      const failed = ingested.find(result => result.status === 'rejected');
+      if (failed) {
+        await Promise.all(ingested
+          .filter(result => result.status === 'fulfilled')
+          .map(result => imageService.remove(result.value)));
+        discardUploads(req.files);
+        if (!failed.reason.statusCode) throw failed.reason;
+        return res.status(failed.reason.statusCode).json({
+          success: false,
+          message: failed.reason.message
+        });
       }
+      metadata.attachments = ingested.map(result => result.value);
+
+      const [firstImage] = metadata.attachments;
+      metadata.imagePath = firstImage.path;
+      metadata.imageFileName = firstImage.fileName;
+      metadata.imageOriginalName = firstImage.originalName;
+      metadata.imageSize = firstImage.size;
+      metadata.imageMimeType = firstImage.mimeType;
     }
 
-    // Create metadata object
-    const metadata = {};
-    let voiceDuration = null;
-    
-    // Extract voice duration if we have a voice file
+    // Probe and transcribe the recording once; typed text still wins as the content
     if (voiceFile) {
-      try {
-        const transcriptionResult = await aiService.transcribeAudio(voiceFile.path);
-        if (transcriptionResult.audioInfo) {
-          voiceDuration = transcriptionResult.audioInfo.duration;
-        }
-      } catch (error) {
-        console.log('Could not extract voice duration:', error.message);
+      console.log('Ingesting voice message:', voiceFile.filename);
+      const voice = await voiceService.ingest(voiceFile, { languages: preferences.languages });
+      Object.assign(metadata, voice.metadata);
+      metadata.language = voice.language;
+
+      if (!userMessageContent) {
+        userMessageContent = voice.transcription || '[Voice message - click to play]';
       }
     }
-    
-    if (imageFile) {
-      metadata.imagePath = imagePath;
-      metadata.imageFileName = imageFile.filename;
-      metadata.imageOriginalName = imageFile.originalname;
-      metadata.imageSize = imageFile.size;
-      metadata.imageMimeType = imageFile.mimetype;
+
+    // Typed text tells us the language better than a recording the user commented on
+    if (hasTypedText) {
+      metadata.language = languageService.detect(userMessageContent, preferences.languages)?.language
+        || metadata.language
+        || null;
     }
-    
-    if (voiceFile) {
-      metadata.voicePath = voicePath;
-      metadata.voiceFileName = voiceFile.filename;
-      metadata.voiceOriginalName = voiceFile.originalname;
-      metadata.voiceSize = voiceFile.size;
-      metadata.voiceMimeType = voiceFile.mimetype;
-      metadata.voiceDuration = voiceDuration;
+
+    if (hasImages && voiceFile) {
+      actualMessageType = 'multimodal';
+    } else if (hasImages) {
+      actualMessageType = hasTypedText ? 'multimodal' : 'image';
+      if (!userMessageContent) {
+        userMessageContent = imageFiles.length > 1 ? `[${imageFiles.length} images uploaded]` : '[Image uploaded]';
+      }
+    } else if (voiceFile) {
+      actualMessageType = hasTypedText ? 'multimodal' : 'voice';
     }
 
-    // Create user message
-    const userMessage = new Message({
+    // New turns continue the active branch
+    const parent = await replyService.branchParent(session);
+
+    // Create user message; retries of the send wait while its reply is pending
+    userMessage = new Message({
       session: req.params.id,
       user: req.user.id,
+      parent,
       content: userMessageContent,
       isUserMessage: true,
       messageType: actualMessageType,
-      metadata: metadata
+      metadata: metadata,
+      idempotencyKey,
+      replyStatus: 'pending',
+      replyStartedAt: new Date()
     });
 
-    await userMessage.save();
+    try {
+      await userMessage.save();
+    } catch (error) {
+      // The same send is being handled by another request right now
+      if (error.code === 11000 && idempotencyKey) {
+        userMessage = null;
+        discardUploads(req.files);
+        return res.status(409).json({
+          success: false,
+          message: 'This message is already being sent'
+        });
+      }
+      throw error;
+    }
 
-    // Update session activity and message count
+    // Update session activity and message count; new images become what
+    // later text-only turns ask about
     session.messageCount += 1;
+    session.activeLeaf = userMessage._id;
+    session.noteImages(userMessage.getImages(), userMessage._id);
     await session.updateActivity();
 
+    // Stop generating if the client goes away mid-stream
+    const abortController = new AbortController();
+    if (streaming) {
+      openEventStream(res);
+      sendEvent(res, 'user_message', { userMessage });
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          abortController.abort();
+        }
+      });
+    }
+
     // Generate AI response using our AI service
-    let aiResponseContent = "I'm sorry, I'm currently offline. Please try again later.";
-    let aiModel = 'offline';
-    let processingTime = 0;
-    let aiResult = null; // Initialize aiResult variable
-    let promptTemplate = null; // Initialize promptTemplate variable
+    let reply = null;
+    let replyContent; // Set when the answer was cut short
+    let streamedContent = ''; // Tokens sent so far, kept if generation stops early
+    let completionStatus = 'complete';
 
     try {
-      const startTime = Date.now();
-      
-      // Get conversation context for better AI responses
-      const recentMessages = await Message.find({ session: req.params.id })
-        .sort({ createdAt: -1 })
-        .limit(10)
-        .select('content isUserMessage');
-
-      const context = recentMessages.reverse().map(msg => ({
-        role: msg.isUserMessage ? 'user' : 'assistant',
-        content: msg.content
-      }));
-
-      // Get prompt template if specified
-      if (promptTemplateId) {
-        try {
-          const PromptTemplate = require('../models/PromptTemplate');
-          promptTemplate = await PromptTemplate.findOne({
-            _id: promptTemplateId,
-            user: req.user.id,
-            isActive: true
-          });
-
-          if (promptTemplate) {
-            // Increment usage count
-            await promptTemplate.incrementUsage();
-            console.log('Using prompt template:', promptTemplate.name);
-          } else {
-            console.warn('Prompt template not found or not accessible:', promptTemplateId);
-          }
-        } catch (error) {
-          console.error('Error fetching prompt template:', error.message);
-        }
+      reply = await replyService.generate({
+        sessionId: req.params.id,
+        userId: req.user.id,
+        userMessage,
+        promptTemplateId,
+        mode,
+        preferences,
+        replyLanguage,
+        options: streaming ? {
+          onChunk: (delta) => {
+            streamedContent += delta;
+            sendEvent(res, 'token', { delta });
+          },
+          signal: abortController.signal
+        } : {}
+      });
+
+      // The user message now carries the image's alt-text package or text
+      if (streaming && (userMessage.metadata.accessibility || userMessage.metadata.extractedText)) {
+        sendEvent(res, 'user_message', { userMessage });
       }
 
-      // Generate AI response using templated service
-      aiResult = await aiService.generateTemplatedResponse(
-        userMessageContent || 'Please describe what you see in this image.',
-        promptTemplate?.template,
-        imagePath,
-        context
-      );
-      
-      if (aiResult.success) {
-        aiResponseContent = aiResult.content;
-        aiModel = aiResult.model;
-        processingTime = Date.now() - startTime;
-      } else {
-        console.warn('AI service unavailable:', aiResult.error);
-        aiResponseContent = aiResult.content; // This will be the fallback message
+      if (!reply.aiResult.success) {
+        console.warn('AI service unavailable:', reply.aiResult.error);
       }
     } catch (error) {
       console.error('Error generating AI response:', error);
     }
 
-    const aiResponse = new Message({
-      session: req.params.id,
-      user: req.user.id,
-      content: aiResponseContent,
-      isUserMessage: false,
-      messageType: imagePath ? 'multimodal_response' : 'text',
-      metadata: {
-        aiModel: aiModel,
-        processingTime: processingTime,
-        hasImageInput: !!imagePath,
-        responseType: aiResult?.type || 'text',
-        promptTemplate: promptTemplate ? {
-          id: promptTemplate._id,
-          name: promptTemplate.name,
-          category: promptTemplate.category
-        } : null
+    // Keep whatever was streamed before the user stopped or the provider failed
+    if (abortController.signal.aborted) {
+      console.log('Client disconnected, stopped generating response');
+      if (!streamedContent.trim()) {
+        await userMessage.setReplyStatus('failed');
+        return;
       }
-    });
+      replyContent = streamedContent;
+      completionStatus = 'cancelled';
+    } else if (streaming && !reply?.aiResult.success && streamedContent.trim()) {
+      replyContent = streamedContent;
+      completionStatus = 'partial';
+      sendEvent(res, 'error', { message: 'Response was interrupted', error: reply?.aiResult.error });
+    }
 
-    await aiResponse.save();
+    const aiResponse = await replyService.saveReply({ session, userMessage, reply, content: replyContent, completionStatus });
+    await userMessage.setReplyStatus('complete');
 
-    // Update session message count again
-    session.messageCount += 1;
-    await session.updateActivity();
+    // Nobody is listening any more; the partial answer is saved for later
+    if (abortController.signal.aborted) {
+      return;
+    }
 
-    // If this is the first message, generate title
-    if (session.messageCount === 2) { // User message + AI response
-      const titleContent = userMessageContent || 'Image conversation';
-      await session.generateTitle(titleContent);
+    if (streaming) {
+      sendEvent(res, 'ai_message', { aiResponse });
+      sendEvent(res, 'done', {});
+      return res.end();
     }
 
     // Return both messages
@@ -374,6 +650,13 @@ router.post('/sessions/:id/messages', protect, upload.fields([
     });
   } catch (error) {
     console.error('Error sending message:', error);
+    if (userMessage?.replyStatus === 'pending') {
+      await userMessage.setReplyStatus('failed').catch(() => {});
+    }
+    if (res.headersSent) {
+      sendEvent(res, 'error', { message: 'Error sending message', error: error.message });
+      return res.end();
+    }
     res.status(500).json({
       success: false,
       message: 'Error sending message',
@@ -382,6 +665,451 @@ router.post('/sessions/:id/messages', protect, upload.fields([
   }
 });
 
+// @route   PUT /api/chat/sessions/:id/messages/:messageId
+// @desc    Edit a user message and generate a new reply. The edit starts a new
+//          branch next to the original, so later history is kept.
+// @access  Private
+router.put('/sessions/:id/messages/:messageId', protect, async (req, res) => {
+  try {
+    const { content, promptTemplateId } = req.body;
+    const templateVariables = parseTemplateVariables(req.body.templateVariables);
+
+    if (!content || content.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Message content is required'
+      });
+    }
+
+    const session = await ChatSession.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat session not found'
+      });
+    }
+
+    const userMessage = await Message.findOne({
+      _id: req.params.messageId,
+      session: req.params.id,
+      isUserMessage: true
+    });
+
+    if (!userMessage) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message not found'
+      });
+    }
+
+    const original = userMessage.toObject();
+    const templateCheck = await replyService.checkTemplateVariables({
+      userId: req.user.id,
+      promptTemplateId,
+      templateVariables: templateVariables || original.metadata?.templateVariables
+    });
+    if (templateCheck.errors.length > 0) {
+      return sendTemplateErrors(res, templateCheck.errors);
+    }
+
+    const detected = languageService.detect(content, req.user.preferences?.languages);
+    const editedMessage = new Message({
+      session: req.params.id,
+      user: req.user.id,
+      parent: original.parent,
+      content: content.trim(),
+      isUserMessage: true,
+      messageType: original.messageType,
+      metadata: {
+        ...original.metadata,
+        language: detected?.language || original.metadata?.language || null,
+        templateVariables: templateCheck.values || original.metadata?.templateVariables
+      },
+      isEdited: true,
+      editHistory: [...original.editHistory, { content: original.content, editedAt: new Date() }]
+    });
+
+    await editedMessage.save();
+    session.messageCount += 1;
+
+    const aiResponse = await regenerateReply({
+      session,
+      userMessage: editedMessage,
+      aiResponse: null,
+      body: req.body,
+      preferences: req.user.preferences
+    });
+
+    res.json({
+      success: true,
+      data: {
+        userMessage: editedMessage,
+        aiResponse
+      },
+      message: 'Message edited successfully'
+    });
+  } catch (error) {
+    console.error('Error editing message:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error editing message',
+      error: error.message
+    });
+  }
+});
+
+// @route   POST /api/chat/sessions/:id/messages/:messageId/regenerate
+// @desc    Generate an alternative AI answer, optionally with another template or model.
+//          `messageId` may be the AI answer or the user message it replies to.
+//          `mode: 'accessibility'` asks for an alt-text package of the image,
+//          `mode: 'ocr'` for its text.
+//          `replyLanguage` asks for the answer in another language.
+// @access  Private
+router.post('/sessions/:id/messages/:messageId/regenerate', protect, async (req, res) => {
+  try {
+    const session = await ChatSession.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat session not found'
+      });
+    }
+
+    const message = await Message.findOne({
+      _id: req.params.messageId,
+      session: req.params.id
+    });
+
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message not found'
+      });
+    }
+
+    let userMessage = message;
+    let aiResponse = null;
+
+    if (message.isUserMessage) {
+      aiResponse = await findReplyTo(message);
+    } else {
+      aiResponse = message;
+      userMessage = await Message.findOne({
+        _id: message.parent,
+        session: req.params.id,
+        isUserMessage: true
+      });
+
+      if (!userMessage) {
+        return res.status(400).json({
+          success: false,
+          message: 'No user message to regenerate a reply for'
+        });
+      }
+    }
+
+    // Values sent with the message are used again unless new ones are given
+    const { errors: templateErrors } = await replyService.checkTemplateVariables({
+      userId: req.user.id,
+      promptTemplateId: req.body.promptTemplateId,
+      templateVariables: parseTemplateVariables(req.body.templateVariables) || userMessage.metadata?.templateVariables
+    });
+    if (templateErrors.length > 0) {
+      return sendTemplateErrors(res, templateErrors);
+    }
+
+    aiResponse = await regenerateReply({
+      session,
+      userMessage,
+      aiResponse,
+      body: req.body,
+      preferences: req.user.preferences
+    });
+
+    res.json({
+      success: true,
+      data: {
+        userMessage,
+        aiResponse
+      },
+      message: 'Response regenerated successfully'
+    });
+  } catch (error) {
+    console.error('Error regenerating response:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error regenerating response',
+      error: error.message
+    });
+  }
+});
+
+// @route   POST /api/chat/sessions/:id/messages/:messageId/tts
+// @desc    Read a message aloud in the message's language. Takes the same voice,
+//          rate, format, engine and language options as POST /api/ai/tts; the
+//          audio is served from /api/chat/voice.
+// @access  Private
+router.post('/sessions/:id/messages/:messageId/tts', protect, async (req, res) => {
+  try {
+    const message = await Message.findOne({
+      _id: req.params.messageId,
+      session: req.params.id,
+      user: req.user.id
+    });
+
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message not found'
+      });
+    }
+
+    const { voice, rate, format, engine, language } = req.body;
+    const speech = await ttsService.synthesize(message.content, {
+      voice,
+      rate,
+      format,
+      engine,
+      language: language || message.metadata?.language
+    });
+
+    res.status(speech.cached ? 200 : 201).json({
+      success: true,
+      data: {
+        messageId: message._id,
+        ...speech
+      }
+    });
+  } catch (error) {
+    console.error('Error synthesizing speech:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.statusCode ? error.message : 'Error synthesizing speech',
+      error: error.message
+    });
+  }
+});
+
+// @route   PUT /api/chat/sessions/:id/messages/:messageId/versions/:index
+// @desc    Show another stored version of a regenerated AI answer
+// @access  Private
+router.put('/sessions/:id/messages/:messageId/versions/:index', protect, async (req, res) => {
+  try {
+    const aiResponse = await Message.findOne({
+      _id: req.params.messageId,
+      session: req.params.id,
+      user: req.user.id,
+      isUserMessage: false
+    });
+
+    if (!aiResponse) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message not found'
+      });
+    }
+
+    const index = parseInt(req.params.index);
+    if (isNaN(index) || !aiResponse.responseVersions[index]) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid version'
+      });
+    }
+
+    await aiResponse.selectVersion(index);
+
+    res.json({
+      success: true,
+      data: aiResponse
+    });
+  } catch (error) {
+    console.error('Error selecting response version:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error selecting response version',
+      error: error.message
+    });
+  }
+});
+
+// @route   GET /api/chat/sessions/:id/branches
+// @desc    List the branches of a chat session
+// @access  Private
+router.get('/sessions/:id/branches', protect, async (req, res) => {
+  try {
+    const session = await ChatSession.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat session not found'
+      });
+    }
+
+    const branches = await Message.getBranches(session);
+
+    res.json({
+      success: true,
+      data: branches,
+      count: branches.length
+    });
+  } catch (error) {
+    console.error('Error fetching branches:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching branches',
+      error: error.message
+    });
+  }
+});
+
+// @route   PUT /api/chat/sessions/:id/branches/active
+// @desc    Switch to the branch containing `messageId`, continuing from its newest message
+// @access  Private
+router.put('/sessions/:id/branches/active', protect, async (req, res) => {
+  try {
+    const { messageId } = req.body;
+
+    const session = await ChatSession.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat session not found'
+      });
+    }
+
+    const leafId = messageId && mongoose.isValidObjectId(messageId)
+      ? await Message.getLatestLeaf(req.params.id, messageId)
+      : null;
+
+    if (!leafId) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message not found'
+      });
+    }
+
+    session.activeLeaf = leafId;
+    await session.save();
+
+    const { messages, pagination } = await Message.getConversationHistory(req.params.id);
+
+    res.json({
+      success: true,
+      data: {
+        session,
+        messages,
+        pagination
+      }
+    });
+  } catch (error) {
+    console.error('Error switching branch:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error switching branch',
+      error: error.message
+    });
+  }
+});
+
+// @route   PUT /api/chat/sessions/:id/image-context
+// @desc    Pin the images of `messageId`, so text-only turns keep asking
+//          about them even after newer images are sent
+// @access  Private
+router.put('/sessions/:id/image-context', protect, async (req, res) => {
+  try {
+    const { messageId } = req.body;
+
+    const session = await ChatSession.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat session not found'
+      });
+    }
+
+    const message = mongoose.isValidObjectId(messageId)
+      ? await Message.findOne({ _id: messageId, session: session._id })
+      : null;
+    const images = message ? message.getImages() : [];
+
+    if (images.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message with images not found'
+      });
+    }
+
+    await session.pinImages(images, message._id);
+
+    res.json({
+      success: true,
+      data: { session }
+    });
+  } catch (error) {
+    console.error('Error pinning images:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error pinning images',
+      error: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/chat/sessions/:id/image-context
+// @desc    Stop including earlier images in text-only turns, until a new
+//          image is sent
+// @access  Private
+router.delete('/sessions/:id/image-context', protect, async (req, res) => {
+  try {
+    const session = await ChatSession.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat session not found'
+      });
+    }
+
+    await session.clearImageContext();
+
+    res.json({
+      success: true,
+      data: { session }
+    });
+  } catch (error) {
+    console.error('Error clearing image context:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error clearing image context',
+      error: error.message
+    });
+  }
+});
+
 // @route   DELETE /api/chat/sessions/:id
 // @desc    Delete a chat session and all its messages
 // @access  Private
@@ -419,6 +1147,91 @@ router.delete('/sessions/:id', protect, async (req, res) => {
   }
 });
 
+// @route   GET /api/chat/search
+// @desc    Search all of the user's messages (including voice transcriptions and
+//          image captions). Query: `q`, optional `type`, `from`, `to`,
+//          `templateId`, `model`, `limit` and `page`.
+// @access  Private
+router.get('/search', protect, async (req, res) => {
+  try {
+    const { q, type, from, to, templateId, model } = req.query;
+
+    if (!q || q.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Search query is required'
+      });
+    }
+
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date range'
+      });
+    }
+
+    const { results, pagination } = await searchService.searchMessages(req.user.id, {
+      query: q.trim(),
+      type,
+      from,
+      to,
+      templateId,
+      model,
+      limit: parseInt(req.query.limit) || 20,
+      page: parseInt(req.query.page) || 1
+    });
+
+    res.json({
+      success: true,
+      data: results,
+      count: results.length,
+      pagination
+    });
+  } catch (error) {
+    console.error('Error searching messages:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error searching messages',
+      error: error.message
+    });
+  }
+});
+
+// @route   GET /api/chat/analytics
+// @desc    Usage figures for the user's messages: counts by type, activity
+//          over time, response times, model and template usage.
+//          Query: optional `from`, `to`, `interval` (day, week, month) and
+//          `utcOffset` (minutes east of UTC).
+// @access  Private
+router.get('/analytics', protect, async (req, res) => {
+  try {
+    const { from, to, interval, utcOffset } = req.query;
+
+    try {
+      analyticsService.getRange({ from, to, interval, utcOffset });
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    const analytics = await analyticsService.getUserAnalytics(req.user.id, { from, to, interval, utcOffset });
+
+    res.json({
+      success: true,
+      data: analytics
+    });
+  } catch (error) {
+    console.error('Error fetching analytics:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching analytics',
+      error: error.message
+    });
+  }
+});
+
 // @route   GET /api/chat/messages/latest
 // @desc    Get latest messages for the authenticated user
 // @access  Private
@@ -2,6 +2,22 @@ const express = require('express');
 const router = express.Router();
 const PromptTemplate = require('../models/PromptTemplate');
 const { protect } = require('../middleware/auth');
+const templateService = require('../services/templateService');
+
+// The variables a template declares, in canonical form; null after sending
+// a 400 when they are malformed or not used in the text
+const checkTemplateVariables = (res, template, variables) => {
+  const result = templateService.checkVariables(template, variables);
+  if (result.errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      message: `Template has invalid variables: ${result.errors.join('; ')}`,
+      errors: result.errors
+    });
+    return null;
+  }
+  return result.variables;
+};
 
 // @route   GET /api/prompt-templates
 // @desc    Get all prompt templates for the authenticated user
@@ -103,7 +119,7 @@ router.get('/:id', protect, async (req, res) => {
 // @access  Private
 router.post('/', protect, async (req, res) => {
   try {
-    const { name, description, template, category = 'custom' } = req.body;
+    const { name, description, template, category = 'custom', variables } = req.body;
 
     // Validation
     if (!name || !description || !template) {
@@ -113,6 +129,9 @@ router.post('/', protect, async (req, res) => {
       });
     }
 
+    const checkedVariables = checkTemplateVariables(res, template, variables);
+    if (!checkedVariables) return;
+
     // Check if template name already exists for this user
     const existingTemplate = await PromptTemplate.findOne({
       user: req.user.id,
@@ -132,6 +151,7 @@ router.post('/', protect, async (req, res) => {
       name: name.trim(),
       description: description.trim(),
       template: template.trim(),
+      variables: checkedVariables,
       category,
       isSystemTemplate: false
     });
@@ -158,7 +178,7 @@ router.post('/', protect, async (req, res) => {
 // @access  Private
 router.put('/:id', protect, async (req, res) => {
   try {
-    const { name, description, template, category } = req.body;
+    const { name, description, template, category, variables } = req.body;
 
     const existingTemplate = await PromptTemplate.findOne({
       _id: req.params.id,
@@ -181,6 +201,17 @@ router.put('/:id', protect, async (req, res) => {
       });
     }
 
+    // A new text must still use the variables, and new variables the text
+    let checkedVariables = null;
+    if (template || variables !== undefined) {
+      checkedVariables = checkTemplateVariables(
+        res,
+        template || existingTemplate.template,
+        variables !== undefined ? variables : existingTemplate.variables
+      );
+      if (!checkedVariables) return;
+    }
+
     // Check if new name conflicts with existing template
     if (name && name.trim() !== existingTemplate.name) {
       const nameConflict = await PromptTemplate.findOne({
@@ -202,6 +233,7 @@ router.put('/:id', protect, async (req, res) => {
     if (name) existingTemplate.name = name.trim();
     if (description) existingTemplate.description = description.trim();
     if (template) existingTemplate.template = template.trim();
+    if (checkedVariables) existingTemplate.variables = checkedVariables;
     if (category) existingTemplate.category = category;
 
     await existingTemplate.save();
@@ -330,6 +362,7 @@ router.post('/:id/duplicate', protect, async (req, res) => {
       name: duplicateName,
       description: originalTemplate.description,
       template: originalTemplate.template,
+      variables: originalTemplate.variables.toObject(),
       category: originalTemplate.category,
       isSystemTemplate: false
     });
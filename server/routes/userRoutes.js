@@ -12,5 +12,7 @@ router.post('/login', authController.login);
 // Protected user routes
 router.get('/me', protect, userOnly, authController.getMe);
 router.post('/logout', protect, userOnly, authController.logout);
+router.get('/preferences', protect, userOnly, authController.getPreferences);
+router.put('/preferences', protect, userOnly, authController.updatePreferences);
 
 module.exports = router;
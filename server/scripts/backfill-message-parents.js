@@ -0,0 +1,52 @@
+// Give messages saved before conversations became trees a parent: each
+// session's messages are chained in the order they were sent, and sessions
+// without an active leaf get their newest message. Paged history follows
+// parent pointers, so run this once after upgrading. Safe to run again;
+// messages that have a parent (or null for a first turn) are left alone.
+// Usage: npm run backfill-message-parents
+require('dotenv').config();
+const mongoose = require('mongoose');
+const Message = require('../models/Message');
+const ChatSession = require('../models/ChatSession');
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGO_URI);
+
+  const sessionIds = await Message.distinct('session', { parent: { $exists: false } });
+  console.log(`${sessionIds.length} sessions with messages that have no parent`);
+
+  let updated = 0;
+  for (const sessionId of sessionIds) {
+    const nodes = await Message.find({ session: sessionId })
+      .select('parent createdAt')
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const updates = [];
+    nodes.forEach((node, index) => {
+      if (node.parent === undefined) {
+        const parent = index > 0 ? nodes[index - 1]._id : null;
+        updates.push({ updateOne: { filter: { _id: node._id }, update: { parent } } });
+      }
+    });
+
+    if (updates.length > 0) {
+      await Message.bulkWrite(updates);
+      updated += updates.length;
+    }
+
+    await ChatSession.updateOne(
+      { _id: sessionId, activeLeaf: null },
+      { activeLeaf: nodes[nodes.length - 1]._id }
+    );
+  }
+
+  console.log(`Set the parent of ${updated} messages`);
+};
+
+run()
+  .catch(error => {
+    console.error('Backfilling message parents failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,35 @@
+// Replace the content-only text index of messages (content_text) with the one
+// that also covers text extracted from images (content_extracted_text). A
+// collection can have only one text index, so the server can't build the new
+// one while the old one exists, and search would miss OCR text. Run once
+// after upgrading; safe to run again. Usage: npm run migrate-text-index
+require('dotenv').config();
+const mongoose = require('mongoose');
+const Message = require('../models/Message');
+
+const TEXT_INDEX_NAME = 'content_extracted_text';
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGO_URI);
+
+  const indexes = await Message.collection.indexes().catch(error => {
+    if (error.codeName === 'NamespaceNotFound') return [];
+    throw error;
+  });
+
+  const oldTextIndexes = indexes.filter(index => index.key._fts === 'text' && index.name !== TEXT_INDEX_NAME);
+  for (const index of oldTextIndexes) {
+    await Message.collection.dropIndex(index.name);
+    console.log(`Dropped text index ${index.name}`);
+  }
+
+  await Message.createIndexes();
+  console.log(`Text index ${TEXT_INDEX_NAME} is in place`);
+};
+
+run()
+  .catch(error => {
+    console.error('Migrating the text index failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,84 @@
+// Run uploads saved before image processing existed through it: turn them
+// upright, strip their EXIF data (GPS location included) and give them a
+// thumbnail and a model-sized copy. TIFF and HEIC/AVIF images, which used to
+// be stored as uploaded, are converted too. Safe to run again; processed
+// images are skipped. Usage: npm run process-images
+require('dotenv').config();
+const fs = require('fs');
+const mongoose = require('mongoose');
+const Message = require('../models/Message');
+const imageService = require('../services/imageService');
+
+// Types ingest stores images as; anything else was kept as uploaded
+const PROCESSED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+const isProcessed = (attachment) => attachment.thumbnail && PROCESSED_TYPES.includes(attachment.mimeType);
+
+// Rebuild a message's attachments from its legacy image fields, if it only has those
+const attachmentsOf = (message) => {
+  const { attachments, imagePath, imageFileName, imageOriginalName, imageSize, imageMimeType } = message.metadata;
+  if (attachments?.length) return attachments;
+  return [{
+    type: 'image',
+    path: imagePath,
+    fileName: imageFileName,
+    originalName: imageOriginalName,
+    size: imageSize,
+    mimeType: imageMimeType
+  }];
+};
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGO_URI);
+
+  const messages = await Message.find({
+    isUserMessage: true,
+    $or: [
+      { 'metadata.attachments': { $elemMatch: { type: 'image', thumbnail: { $exists: false } } } },
+      { 'metadata.attachments': { $elemMatch: { type: 'image', mimeType: { $nin: PROCESSED_TYPES } } } },
+      { 'metadata.imagePath': { $exists: true, $ne: null }, 'metadata.attachments.0': { $exists: false } }
+    ]
+  });
+  console.log(`${messages.length} messages with unprocessed images`);
+
+  let processed = 0;
+  for (const message of messages) {
+    const attachments = [];
+    for (const attachment of attachmentsOf(message)) {
+      if (isProcessed(attachment) || !attachment.path || !fs.existsSync(attachment.path)) {
+        attachments.push(attachment);
+        continue;
+      }
+      try {
+        attachments.push(await imageService.ingest({
+          path: attachment.path,
+          filename: attachment.fileName,
+          originalname: attachment.originalName,
+          size: attachment.size,
+          mimetype: attachment.mimeType
+        }));
+      } catch (error) {
+        // Left in place so the message still shows it; remove it by hand
+        console.warn(`Could not process ${attachment.path}: ${error.message}`);
+        attachments.push(attachment);
+      }
+    }
+
+    message.metadata.attachments = attachments;
+    message.metadata.imagePath = attachments[0].path;
+    message.metadata.imageFileName = attachments[0].fileName;
+    message.metadata.imageSize = attachments[0].size;
+    message.metadata.imageMimeType = attachments[0].mimeType;
+    await message.save();
+    processed += 1;
+  }
+
+  console.log(`Processed images of ${processed} messages`);
+};
+
+run()
+  .catch(error => {
+    console.error('Image processing failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -11,6 +11,7 @@ const chatRoutes = require('./routes/chatRoutes');
 const adminRoutes = require('./routes/adminRoutes');
 const aiRoutes = require('./routes/aiRoutes');
 const errorHandler = require('./middleware/errorHandler');
+const talkService = require('./services/talkService');
 
 // Import models
 const User = require('./models/User');
@@ -37,7 +38,7 @@ app.use(cors({
   ],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key']
 }));
 
 // Serve static files (for uploaded images)
@@ -88,8 +89,12 @@ mongoose.connect(process.env.MONGO_URI)
 // Start server
 const PORT = process.env.PORT || 8000;
 const HOST = '0.0.0.0'; // Listen on all network interfaces
-app.listen(PORT, HOST, () => {
+const server = app.listen(PORT, HOST, () => {
   console.log(`Server running on http://0.0.0.0:${PORT}`);
   console.log(`Mobile API: http://192l.168.0.111${PORT}/api/auth`);
   console.log(`Admin API: http://localhost:${PORT}/api/admin`);
+  console.log(`Talk mode: ws://0.0.0.0:${PORT}/api/chat/talk`);
 });
+
+// Talk mode and press-and-hold dictation sockets share the HTTP server
+talkService.attach(server);
@@ -0,0 +1,141 @@
+const aiService = require('./aiService');
+const languageService = require('./languageService');
+
+// Screen readers cut long alt text short; longer detail goes in the description
+const MAX_ALT_TEXT_LENGTH = 125;
+
+const SEVERITIES = ['low', 'medium', 'high'];
+
+const ALT_TEXT_PROMPT = `You are writing an accessibility description of this image for a blind or low-vision user.
+Reply with only a JSON object and no other text, in exactly this shape:
+{
+  "altText": "one sentence of at most ${MAX_ALT_TEXT_LENGTH} characters saying what the image shows",
+  "longDescription": "a detailed description of the whole image in 2 to 6 sentences",
+  "detectedText": "all legible text in the image, or an empty string",
+  "people": [{ "description": "appearance and what the person is doing", "position": "where in the image" }],
+  "objects": [{ "label": "object name", "position": "where in the image" }],
+  "hazards": [{ "description": "what the hazard is and where", "severity": "low, medium or high" }]
+}
+Describe positions like "left foreground" or "top right". Hazards are anything that matters for the
+safety of someone who cannot see the scene, such as steps, traffic, obstacles, wet floors, sharp or hot
+objects. Use empty arrays when there is nothing to list. Never identify people by name.`;
+
+const text = (value) => (typeof value === 'string' ? value.trim() : '');
+
+// Shorten to whole words
+const truncate = (value, length) => {
+  if (value.length <= length) return value;
+  const cut = value.lastIndexOf(' ', length - 1);
+  return `${value.substring(0, cut > 0 ? cut : length - 1)}…`;
+};
+
+class AltTextService {
+  // The JSON object in a model reply, which may be wrapped in a code fence or prose
+  parseJson(content) {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+
+    try {
+      return JSON.parse(content.substring(start, end + 1));
+    } catch {
+      return null;
+    }
+  }
+
+  // Bring a model reply into the shape stored in Message.metadata.accessibility.
+  // Replies that are not JSON are kept as the long description.
+  normalize(content) {
+    const parsed = this.parseJson(content);
+    if (!parsed) {
+      const description = content.trim();
+      return {
+        altText: truncate(description.split(/(?<=[.!?])\s/)[0] || description, MAX_ALT_TEXT_LENGTH),
+        longDescription: description,
+        detectedText: '',
+        people: [],
+        objects: [],
+        hazards: []
+      };
+    }
+
+    const list = (value) => (Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : []);
+    const longDescription = text(parsed.longDescription);
+
+    return {
+      altText: truncate(text(parsed.altText) || longDescription, MAX_ALT_TEXT_LENGTH),
+      longDescription,
+      detectedText: text(parsed.detectedText),
+      people: list(parsed.people)
+        .map(person => ({ description: text(person.description), position: text(person.position) }))
+        .filter(person => person.description),
+      objects: list(parsed.objects)
+        .map(object => ({ label: text(object.label), position: text(object.position) }))
+        .filter(object => object.label),
+      hazards: list(parsed.hazards)
+        .map(hazard => ({
+          description: text(hazard.description),
+          severity: SEVERITIES.includes(text(hazard.severity).toLowerCase())
+            ? text(hazard.severity).toLowerCase()
+            : 'medium'
+        }))
+        .filter(hazard => hazard.description)
+    };
+  }
+
+  // Plain-text rendering of a package, used as the reply content so it reads
+  // well on screen and through text-to-speech
+  formatDescription(altText) {
+    const sections = [`Alt text: ${altText.altText}`];
+
+    if (altText.longDescription) {
+      sections.push(`Description: ${altText.longDescription}`);
+    }
+    if (altText.hazards.length > 0) {
+      sections.push(['Hazards:', ...altText.hazards.map(hazard => `- ${hazard.description} (${hazard.severity})`)].join('\n'));
+    }
+    if (altText.detectedText) {
+      sections.push(`Text in the image: ${altText.detectedText}`);
+    }
+    if (altText.people.length > 0) {
+      sections.push(['People:', ...altText.people.map(person => `- ${person.description}${person.position ? ` (${person.position})` : ''}`)].join('\n'));
+    }
+    if (altText.objects.length > 0) {
+      sections.push(['Objects:', ...altText.objects.map(object => `- ${object.label}${object.position ? ` (${object.position})` : ''}`)].join('\n'));
+    }
+
+    return sections.join('\n\n');
+  }
+
+  // Generate the alt-text package for an image. `request` is what the user
+  // typed with the image, if anything; `options.language` is the language to
+  // write the package in. Resolves with the AI result and the package (null
+  // when no vision model answered).
+  async describeImage(imagePath, request = '', options = {}) {
+    const { language, ...generateOptions } = options;
+    let prompt = request
+      ? `${ALT_TEXT_PROMPT}\nThe user added this note, take it into account: ${request}`
+      : ALT_TEXT_PROMPT;
+    if (language) {
+      prompt += `\nWrite every text value in ${languageService.getName(language)}; keep the JSON keys in English.`;
+    }
+
+    const aiResult = await aiService.generateMultimodalResponse(prompt, imagePath, [], generateOptions);
+    if (!aiResult.success) {
+      return { aiResult, altText: null };
+    }
+
+    const altText = {
+      ...this.normalize(aiResult.content),
+      model: aiResult.model,
+      generatedAt: new Date()
+    };
+
+    return {
+      aiResult: { ...aiResult, content: this.formatDescription(altText), type: 'alt_text' },
+      altText
+    };
+  }
+}
+
+module.exports = new AltTextService();
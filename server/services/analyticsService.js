@@ -0,0 +1,212 @@
+const mongoose = require('mongoose');
+const Message = require('../models/Message');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+// Activity buckets, labelled the way $dateToString formats them
+const INTERVALS = {
+  day: '%Y-%m-%d',
+  week: '%G-W%V', // ISO week
+  month: '%Y-%m'
+};
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// "+05:30" style offset MongoDB accepts as a timezone
+const formatOffset = (minutes) => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+};
+
+// Label of the bucket `date` falls in; must match INTERVALS
+const periodLabel = (date, interval) => {
+  const year = date.getUTCFullYear();
+  const month = pad(date.getUTCMonth() + 1);
+  if (interval === 'month') return `${year}-${month}`;
+  if (interval === 'day') return `${year}-${month}-${pad(date.getUTCDate())}`;
+
+  // ISO week: the week belongs to the year of its Thursday
+  const thursday = new Date(Date.UTC(year, date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const weekYear = thursday.getUTCFullYear();
+  const week = Math.floor((thursday - Date.UTC(weekYear, 0, 1)) / (7 * DAY_MS)) + 1;
+  return `${weekYear}-W${pad(week)}`;
+};
+
+const percentile = (sorted, fraction) => {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(Math.ceil(fraction * sorted.length) - 1, sorted.length - 1)];
+};
+
+class AnalyticsService {
+  // Resolve the requested date range. Throws on unusable input so the route
+  // can answer with a 400.
+  getRange({ from, to, interval, utcOffset = 0 } = {}) {
+    const end = to ? new Date(to) : new Date();
+    const start = from ? new Date(from) : new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new Error('Invalid date range');
+    }
+    if (start > end) {
+      throw new Error('`from` must be before `to`');
+    }
+    if (end - start > MAX_RANGE_DAYS * DAY_MS) {
+      throw new Error(`Date range can be at most ${MAX_RANGE_DAYS} days`);
+    }
+    if (interval && !INTERVALS[interval]) {
+      throw new Error(`Interval must be one of: ${Object.keys(INTERVALS).join(', ')}`);
+    }
+
+    const offset = Number(utcOffset);
+    if (!Number.isInteger(offset) || Math.abs(offset) > 14 * 60) {
+      throw new Error('utcOffset must be a whole number of minutes');
+    }
+
+    const days = (end - start) / DAY_MS;
+    return {
+      start,
+      end,
+      interval: interval || (days <= 31 ? 'day' : days <= 183 ? 'week' : 'month'),
+      offset
+    };
+  }
+
+  // Every bucket between start and end, so quiet periods show up as zero
+  listPeriods(start, end, interval, offset) {
+    const periods = [];
+    for (let time = start.getTime(); time <= end.getTime() + DAY_MS; time += DAY_MS) {
+      const local = new Date(Math.min(time, end.getTime()) + offset * 60 * 1000);
+      const label = periodLabel(local, interval);
+      if (periods[periods.length - 1] !== label) {
+        periods.push(label);
+      }
+    }
+    return periods;
+  }
+
+  // Usage figures over all of a user's messages in a date range.
+  //
+  // Options:
+  //   from, to   - createdAt range (default: the last 30 days)
+  //   interval   - day, week or month buckets for activity (default depends on the range)
+  //   utcOffset  - the client's offset from UTC in minutes, so days start at local midnight
+  async getUserAnalytics(userId, options = {}) {
+    const { start, end, interval, offset } = this.getRange(options);
+    const timezone = formatOffset(offset);
+    const aiReplies = { isUserMessage: false };
+
+    const [facets] = await Message.aggregate([
+      {
+        $match: {
+          user: new mongoose.Types.ObjectId(userId),
+          createdAt: { $gte: start, $lte: end }
+        }
+      },
+      {
+        $facet: {
+          totals: [
+            {
+              $group: {
+                _id: null,
+                messages: { $sum: 1 },
+                userMessages: { $sum: { $cond: ['$isUserMessage', 1, 0] } },
+                sessions: { $addToSet: '$session' }
+              }
+            },
+            { $project: { _id: 0, messages: 1, userMessages: 1, sessions: { $size: '$sessions' } } }
+          ],
+          messageTypes: [
+            { $group: { _id: '$messageType', count: { $sum: 1 } } },
+            { $sort: { count: -1 } }
+          ],
+          activity: [
+            {
+              $group: {
+                _id: { $dateToString: { date: '$createdAt', format: INTERVALS[interval], timezone } },
+                userMessages: { $sum: { $cond: ['$isUserMessage', 1, 0] } },
+                aiMessages: { $sum: { $cond: ['$isUserMessage', 0, 1] } }
+              }
+            }
+          ],
+          processingTimes: [
+            // Offline fallbacks are saved with a processing time of 0
+            { $match: { ...aiReplies, 'metadata.processingTime': { $gt: 0 } } },
+            { $sort: { 'metadata.processingTime': 1 } },
+            { $group: { _id: null, times: { $push: '$metadata.processingTime' } } }
+          ],
+          models: [
+            { $match: { ...aiReplies, 'metadata.aiModel': { $nin: [null, 'offline'] } } },
+            {
+              $group: {
+                _id: '$metadata.aiModel',
+                provider: { $last: '$metadata.aiProvider' },
+                count: { $sum: 1 },
+                averageProcessingTime: { $avg: '$metadata.processingTime' }
+              }
+            },
+            { $sort: { count: -1 } }
+          ],
+          templates: [
+            { $match: { ...aiReplies, 'metadata.promptTemplate.id': { $ne: null } } },
+            {
+              $group: {
+                _id: '$metadata.promptTemplate.id',
+                name: { $last: '$metadata.promptTemplate.name' },
+                category: { $last: '$metadata.promptTemplate.category' },
+                count: { $sum: 1 }
+              }
+            },
+            { $sort: { count: -1 } }
+          ]
+        }
+      }
+    ]);
+
+    const totals = facets.totals[0] || { messages: 0, userMessages: 0, sessions: 0 };
+    const times = facets.processingTimes[0]?.times || [];
+    const activity = new Map(facets.activity.map(bucket => [bucket._id, bucket]));
+
+    return {
+      range: {
+        from: start,
+        to: end,
+        interval
+      },
+      totals: {
+        messages: totals.messages,
+        userMessages: totals.userMessages,
+        aiMessages: totals.messages - totals.userMessages,
+        sessions: totals.sessions
+      },
+      messageTypes: facets.messageTypes.map(({ _id, count }) => ({ type: _id, count })),
+      activity: this.listPeriods(start, end, interval, offset).map(period => ({
+        period,
+        userMessages: activity.get(period)?.userMessages || 0,
+        aiMessages: activity.get(period)?.aiMessages || 0
+      })),
+      processingTime: {
+        count: times.length,
+        average: times.length > 0 ? Math.round(times.reduce((sum, time) => sum + time, 0) / times.length) : null,
+        p95: percentile(times, 0.95)
+      },
+      models: facets.models.map(({ _id, provider, count, averageProcessingTime }) => ({
+        model: _id,
+        provider: provider || null,
+        count,
+        averageProcessingTime: averageProcessingTime != null ? Math.round(averageProcessingTime) : null
+      })),
+      templates: facets.templates.map(({ _id, name, category, count }) => ({
+        id: _id,
+        name,
+        category,
+        count
+      }))
+    };
+  }
+}
+
+module.exports = new AnalyticsService();
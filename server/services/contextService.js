@@ -0,0 +1,201 @@
+const Message = require('../models/Message');
+const ChatSession = require('../models/ChatSession');
+const aiService = require('./aiService');
+
+// Rough token estimates; good enough for packing a context window
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// How many recent messages to consider when packing the window. Anything
+// older has already been folded into the session summary on earlier turns.
+const MAX_SCAN_MESSAGES = 100;
+
+// Messages read per step when walking the branch up from its leaf
+const CONTEXT_WALK_STEP = 20;
+
+// Share of the budget kept for the summary when older turns overflow
+const SUMMARY_BUDGET_RATIO = 0.2;
+
+class ContextService {
+  estimateTokens(text = '') {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  estimateMessageTokens(message) {
+    return this.estimateTokens(this.getContextContent(message)) +
+      MESSAGE_OVERHEAD_TOKENS +
+      message.getImagePaths().length * IMAGE_TOKENS;
+  }
+
+  // Text extracted in OCR mode goes with the image turn, so later questions
+  // ("total the line items") can use it; the OCR answer itself only repeats it
+  getContextContent(message) {
+    if (message.metadata?.extractedText) {
+      return `${message.content}\n\nText extracted from the image:\n${message.metadata.extractedText}`;
+    }
+    if (!message.isUserMessage && message.metadata?.responseType === 'ocr') {
+      return '[Extracted the text of the image above]';
+    }
+    return message.content;
+  }
+
+  toContextEntry(message) {
+    return {
+      role: message.isUserMessage ? 'user' : 'assistant',
+      content: this.getContextContent(message),
+      imagePaths: message.getImagePaths()
+    };
+  }
+
+  // Assemble the context for the next AI call in a session: the newest turns
+  // of the branch that fit the model's token budget, preceded by a summary of
+  // older turns.
+  //
+  // Options:
+  //   leafId   - last message of the branch to use as history (the parent of
+  //              the prompt being answered); null for a first turn. Defaults
+  //              to the session's active branch.
+  //   prompt   - the outgoing prompt, whose size is reserved from the budget
+  //   imageCount - how many images the outgoing request includes
+  //   provider - provider name, when not using the default provider
+  async buildContext(sessionId, { leafId, prompt = '', imageCount = 0, provider = null } = {}) {
+    const budget = await aiService.getContextBudget(imageCount > 0, provider);
+    const available = Math.max(budget - this.estimateTokens(prompt) - imageCount * IMAGE_TOKENS, 0);
+
+    const session = await ChatSession.findById(sessionId).select('activeLeaf contextSummary.summarizedThrough');
+    let next = leafId;
+    if (leafId === undefined) {
+      const leaf = session ? await Message.getActiveLeaf(session) : null;
+      next = leaf ? leaf._id : null;
+    }
+    const summarizedThrough = session?.contextSummary?.summarizedThrough;
+
+    // Walk up the branch, packing newest first until the budget is used up.
+    // Past that, older turns are only read as far as the session summary
+    // doesn't cover them yet.
+    const path = [];
+    const included = [];
+    const recentMessages = [];
+    let usedTokens = 0;
+    let budgetFull = false;
+    while (next && path.length < MAX_SCAN_MESSAGES) {
+      const count = Math.min(CONTEXT_WALK_STEP, MAX_SCAN_MESSAGES - path.length);
+      const nodes = await Message.getAncestors(sessionId, next, count);
+      path.push(...nodes);
+      next = nodes.length === count ? nodes[nodes.length - 1].parent : null;
+
+      const messages = await Message.find({ _id: { $in: nodes.map(node => node._id) } })
+        .select('content isUserMessage metadata.imagePath metadata.attachments metadata.extractedText metadata.responseType createdAt');
+      const byId = new Map(messages.map(message => [String(message._id), message]));
+
+      for (const node of nodes) {
+        const message = byId.get(String(node._id));
+        recentMessages.push(message);
+        if (budgetFull) continue;
+
+        const tokens = this.estimateMessageTokens(message);
+        if (usedTokens + tokens > available) {
+          budgetFull = true;
+        } else {
+          included.push(message);
+          usedTokens += tokens;
+        }
+      }
+
+      if (budgetFull && summarizedThrough && nodes.some(node => node._id.equals(summarizedThrough))) {
+        break;
+      }
+    }
+
+    let overflow = recentMessages.slice(included.length);
+    let summary = null;
+    const summaryBudget = Math.floor(available * SUMMARY_BUDGET_RATIO);
+
+    if (overflow.length > 0) {
+      // Make room for the summary by dropping the oldest included turns
+      while (included.length > 0 && usedTokens + summaryBudget > available) {
+        const dropped = included.pop();
+        usedTokens -= this.estimateMessageTokens(dropped);
+        overflow = [dropped, ...overflow];
+      }
+
+      summary = await this.getSummary(sessionId, overflow, summaryBudget, path);
+    }
+
+    const context = included.reverse().map(message => this.toContextEntry(message));
+    if (summary) {
+      // Models don't always respect the requested length, so clamp it
+      const summaryText = summary.content.substring(0, summaryBudget * CHARS_PER_TOKEN);
+      usedTokens += this.estimateTokens(summaryText) + MESSAGE_OVERHEAD_TOKENS;
+      context.unshift({
+        role: 'user',
+        content: `Summary of our earlier conversation: ${summaryText}`,
+        imagePaths: []
+      });
+    }
+
+    return {
+      context,
+      info: {
+        messageIds: included.map(message => message._id),
+        summarizedCount: summary ? summary.messageCount : 0,
+        tokenEstimate: usedTokens,
+        tokenBudget: budget
+      }
+    };
+  }
+
+  // Returns the session's rolling summary, extended to cover any overflowed
+  // messages that are newer than what it already summarizes.
+  // `overflow` is sorted newest first; `path` is the part of the branch being
+  // answered that was read.
+  async getSummary(sessionId, overflow, summaryBudget, path) {
+    const session = await ChatSession.findById(sessionId);
+    if (!session) return null;
+
+    let existing = session.contextSummary || {};
+    const newestOverflow = overflow[0].createdAt;
+
+    // A summary made on another branch (or further down this one) doesn't
+    // describe this history, so start a new one
+    const onPath = existing.summarizedThrough && path.some(node => node._id.equals(existing.summarizedThrough));
+    if (!onPath) {
+      existing = {};
+    }
+
+    if (existing.content && existing.summarizedUntil && existing.summarizedUntil >= newestOverflow) {
+      return existing;
+    }
+
+    const unsummarized = overflow
+      .filter(message => !existing.summarizedUntil || message.createdAt > existing.summarizedUntil)
+      .reverse();
+
+    const maxWords = Math.max(Math.floor(summaryBudget * CHARS_PER_TOKEN / 6), 50);
+    const result = await aiService.summarizeConversation(
+      unsummarized.map(message => this.toContextEntry(message)),
+      existing.content,
+      maxWords
+    );
+
+    if (!result.success) {
+      console.warn('Could not summarize older messages:', result.error);
+      return existing.content ? existing : null;
+    }
+
+    const summary = {
+      content: result.content.trim(),
+      summarizedUntil: newestOverflow,
+      summarizedThrough: overflow[0]._id,
+      messageCount: (existing.messageCount || 0) + unsummarized.length
+    };
+
+    session.contextSummary = summary;
+    await session.save();
+
+    return summary;
+  }
+}
+
+module.exports = new ContextService();
@@ -0,0 +1,138 @@
+const fs = require('fs');
+const path = require('path');
+const sharp = require('sharp');
+
+// Longest side of the copy sent to the model; vision models scale larger
+// images down themselves, so anything bigger only costs upload time and tokens
+const MODEL_MAX_DIMENSION = 1568;
+
+// Longest side of the thumbnail shown in chat bubbles (about 200pt at 3x)
+const THUMBNAIL_MAX_DIMENSION = 600;
+
+// Formats that are stored as they came, re-encoded without their metadata
+const KEPT_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+
+// Formats sharp can read but the app can't always show (TIFF, AVIF, HEIC
+// where libvips has a decoder for it, SVG); they are stored as JPEG, or PNG
+// when they have transparency
+const CONVERTED_FORMATS = ['tiff', 'heif', 'svg'];
+
+const MIME_TYPES = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif'
+};
+
+const EXTENSIONS = {
+  jpeg: '.jpg',
+  png: '.png',
+  webp: '.webp',
+  gif: '.gif'
+};
+
+const unsupportedImage = (file) => Object.assign(
+  new Error(`${file.originalname || file.filename} could not be read as an image. Send a JPEG, PNG, WebP or GIF image.`),
+  { statusCode: 400 }
+);
+
+class ImageService {
+  // Prepare an uploaded image for storage, in one pass: turn it upright from
+  // its EXIF orientation, re-encode it without metadata (camera details, GPS
+  // location) and write a thumbnail and a model-sized copy next to it.
+  // Resolves with the Message attachment for the image, whose path and name
+  // change when the image was converted to another format. Rejects with a
+  // statusCode 400 error for files that can't be decoded and re-encoded, so
+  // nothing is stored with its metadata; the upload is left for the caller
+  // to remove.
+  async ingest(file) {
+    const { format, hasAlpha } = await sharp(file.path).metadata().catch(() => ({}));
+    if (!KEPT_FORMATS.includes(format) && !CONVERTED_FORMATS.includes(format)) {
+      throw unsupportedImage(file);
+    }
+
+    const target = KEPT_FORMATS.includes(format) ? format : (hasAlpha ? 'png' : 'jpeg');
+    const { dir, name } = path.parse(file.path);
+    const cleanPath = path.join(dir, name + EXTENSIONS[target]);
+    const tempPath = `${cleanPath}.tmp`;
+    let info;
+
+    try {
+      // sharp writes no metadata unless asked; the colour profile is kept
+      // so photos look the same
+      info = await sharp(file.path, { animated: target === 'gif' })
+        .rotate()
+        .keepIccProfile()
+        .toFormat(target)
+        .toFile(tempPath);
+      await fs.promises.rename(tempPath, cleanPath);
+    } catch (error) {
+      console.warn('Could not re-encode image:', file.filename, error.message);
+      await fs.promises.unlink(tempPath).catch(() => {});
+      throw unsupportedImage(file);
+    }
+
+    if (cleanPath !== file.path) {
+      await fs.promises.unlink(file.path).catch(() => {});
+    }
+
+    const attachment = {
+      type: 'image',
+      path: cleanPath,
+      fileName: path.basename(cleanPath),
+      originalName: file.originalname,
+      size: info.size,
+      mimeType: MIME_TYPES[target]
+    };
+
+    try {
+      const { width, height } = orientedSize(await sharp(cleanPath).metadata());
+      attachment.width = width;
+      attachment.height = height;
+
+      attachment.thumbnail = await this.writeCopy(cleanPath, 'thumb', THUMBNAIL_MAX_DIMENSION);
+      if (Math.max(width, height) > MODEL_MAX_DIMENSION || target === 'gif') {
+        attachment.modelCopy = await this.writeCopy(cleanPath, 'model', MODEL_MAX_DIMENSION);
+      }
+    } catch (error) {
+      console.warn('Could not write image copies:', attachment.fileName, error.message);
+    }
+
+    return attachment;
+  }
+
+  // A JPEG copy of the image no larger than `maxDimension`, saved beside it
+  // as <name>-<suffix>.jpg
+  async writeCopy(imagePath, suffix, maxDimension) {
+    const { dir, name } = path.parse(imagePath);
+    const fileName = `${name}-${suffix}.jpg`;
+    const copyPath = path.join(dir, fileName);
+
+    const info = await sharp(imagePath, { animated: false })
+      .rotate()
+      .resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#ffffff' }) // JPEG has no transparency
+      .jpeg({ quality: suffix === 'thumb' ? 75 : 85, mozjpeg: true })
+      .toFile(copyPath);
+
+    return { path: copyPath, fileName, width: info.width, height: info.height, size: info.size };
+  }
+
+  // The file to send to a model for an attachment (or legacy image fields)
+  getModelPath(image) {
+    return image.modelCopy?.path || image.path;
+  }
+
+  // Delete an ingested image and its copies, for uploads that are not kept
+  async remove(attachment) {
+    const files = [attachment.path, attachment.thumbnail?.path, attachment.modelCopy?.path].filter(Boolean);
+    await Promise.all(files.map(file => fs.promises.unlink(file).catch(() => {})));
+  }
+}
+
+// Width and height as displayed; EXIF orientations 5-8 swap them
+const orientedSize = ({ width, height, orientation }) => (
+  orientation >= 5 ? { width: height, height: width } : { width, height }
+);
+
+module.exports = new ImageService();
@@ -0,0 +1,121 @@
+// Languages told apart by their script alone
+const SCRIPTS = [
+  { language: 'ko', pattern: /[가-힯]/g },
+  { language: 'ja', pattern: /[぀-ヿ]/g }, // Kana; Japanese also uses Han
+  { language: 'zh', pattern: /[一-鿿]/g },
+  { language: 'ar', pattern: /[؀-ۿ]/g },
+  { language: 'he', pattern: /[֐-׿]/g },
+  { language: 'el', pattern: /[Ͱ-Ͽ]/g },
+  { language: 'hi', pattern: /[ऀ-ॿ]/g },
+  { language: 'th', pattern: /[฀-๿]/g },
+  { language: 'ru', pattern: /[Ѐ-ӿ]/g }
+];
+
+// Common short words of Latin-script languages, used to tell them apart
+const STOPWORDS = {
+  en: ['the', 'and', 'is', 'are', 'you', 'what', 'how', 'this', 'that', 'with', 'for', 'of', 'to', 'in', 'it', 'can', 'do', 'my', 'me', 'please'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'es', 'en', 'un', 'una', 'por', 'para', 'con', 'qué', 'cómo', 'mi', 'puedes', 'hola', 'gracias'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'que', 'qui', 'pour', 'dans', 'avec', 'je', 'tu', 'vous', 'ce', 'bonjour', 'merci'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'ein', 'eine', 'nicht', 'ich', 'du', 'sie', 'wie', 'was', 'mit', 'für', 'auf', 'zu', 'bitte', 'danke', 'hallo'],
+  it: ['il', 'lo', 'la', 'gli', 'di', 'che', 'e', 'è', 'un', 'una', 'per', 'con', 'non', 'come', 'cosa', 'sono', 'mi', 'ciao', 'grazie', 'questo'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'é', 'um', 'uma', 'para', 'com', 'não', 'como', 'você', 'do', 'da', 'olá', 'obrigado', 'isso'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'van', 'dat', 'niet', 'ik', 'je', 'wat', 'hoe', 'met', 'voor', 'op', 'zijn', 'dit', 'hallo', 'dank', 'alsjeblieft']
+};
+
+// Texts shorter than this many words are too ambiguous to guess from
+const MIN_WORDS = 3;
+
+class LanguageService {
+  // Canonical BCP-47 tag (en-us -> en-US, pt_BR -> pt-BR), or null if invalid
+  normalize(code) {
+    if (typeof code !== 'string' || !code.trim()) return null;
+    try {
+      return Intl.getCanonicalLocales(code.trim().replace(/_/g, '-'))[0];
+    } catch {
+      return null;
+    }
+  }
+
+  // en-US -> en
+  baseLanguage(code) {
+    const normalized = this.normalize(code);
+    return normalized ? normalized.split('-')[0] : null;
+  }
+
+  // English name of a language, for prompts ("French", "Brazilian Portuguese")
+  getName(code) {
+    try {
+      return new Intl.DisplayNames(['en'], { type: 'language' }).of(this.normalize(code)) || code;
+    } catch {
+      return code;
+    }
+  }
+
+  // Prefer the user's own regional variant: detected "pt" with a preferred
+  // "pt-BR" becomes "pt-BR"
+  matchPreferred(language, preferred = []) {
+    const base = this.baseLanguage(language);
+    return preferred.find(code => this.baseLanguage(code) === base) || language;
+  }
+
+  // Guess the language of written text. Returns { language, confidence }
+  // or null when the text is too short or gives nothing away.
+  detect(text, preferred = []) {
+    if (typeof text !== 'string' || !text.trim()) return null;
+
+    const letters = (text.match(/\p{L}/gu) || []).length;
+    if (letters === 0) return null;
+
+    // Non-Latin scripts settle it once they are a good share of the letters
+    const scripts = SCRIPTS
+      .map(({ language, pattern }) => ({ language, count: (text.match(pattern) || []).length }))
+      .filter(({ count }) => count > 0)
+      .sort((a, b) => b.count - a.count);
+
+    if (scripts.length > 0 && scripts[0].count / letters > 0.3) {
+      // Any kana means Japanese even when Han characters outnumber it
+      const language = scripts.some(script => script.language === 'ja') ? 'ja' : scripts[0].language;
+      return {
+        language: this.matchPreferred(language, preferred),
+        confidence: Math.round(Math.min(scripts[0].count / letters, 1) * 100) / 100
+      };
+    }
+
+    const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+    if (words.length < MIN_WORDS) return null;
+
+    const scores = Object.entries(STOPWORDS)
+      .map(([language, stopwords]) => ({
+        language,
+        hits: words.filter(word => stopwords.includes(word)).length
+      }))
+      .sort((a, b) => b.hits - a.hits);
+
+    const [best, runnerUp] = scores;
+    if (best.hits === 0 || best.hits === runnerUp.hits) return null;
+
+    return {
+      language: this.matchPreferred(best.language, preferred),
+      confidence: Math.round(((best.hits - runnerUp.hits) / best.hits) * 100) / 100
+    };
+  }
+
+  // The language a reply should be written and spoken in: an explicit
+  // override, then the user's fixed reply language, then the language the
+  // user wrote or spoke in, then their first preferred language. Null lets
+  // the model choose.
+  resolveReplyLanguage({ override, preferences = {}, messageLanguage } = {}) {
+    return this.normalize(override)
+      || this.normalize(preferences.replyLanguage)
+      || this.normalize(messageLanguage)
+      || this.normalize(preferences.languages?.[0])
+      || null;
+  }
+
+  // Instruction added to prompts so the model answers in `language`
+  instruction(language) {
+    return language ? `Reply in ${this.getName(language)}.` : '';
+  }
+}
+
+module.exports = new LanguageService();
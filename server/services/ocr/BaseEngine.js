@@ -0,0 +1,41 @@
+// Contract every OCR engine implements.
+//
+// Engines are given both the uploaded image and the model-sized copy made
+// by imageService. Engines that read pixels themselves (Tesseract) set
+// `usesFullResolution` so they get the original; engines that call a
+// vision model get the smaller copy.
+class BaseEngine {
+  constructor(name, displayName) {
+    this.name = name;
+    this.displayName = displayName || name;
+    this.isAvailable = false;
+    this.usesFullResolution = false;
+  }
+
+  // Check that the engine can run and set isAvailable. Must not throw.
+  async initialize() {
+    this.isAvailable = false;
+    return this.isAvailable;
+  }
+
+  // Read the text in the image at imagePath, keeping its layout.
+  // `languages` are BCP-47 codes of likely languages, most likely first;
+  // `note` is what the user asked for, if anything. Other options (provider,
+  // model, signal) are for engines that call a model.
+  // Resolves with { text, blocks, confidence, language, documentType, model }:
+  // text has one line per printed line, with blank lines between blocks;
+  // blocks is [{ type, text }] in reading order, where type is one of
+  // BLOCK_TYPES; confidence is between 0 and 1 or null; language,
+  // documentType and model are null when unknown. Throws on failure.
+  async extract(imagePath, { languages = [], note = '', ...options } = {}) {
+    throw new Error(`${this.displayName} does not support text extraction`);
+  }
+}
+
+// Kinds of layout block an engine may report
+BaseEngine.BLOCK_TYPES = ['heading', 'paragraph', 'list_item', 'line_item', 'total', 'table_row', 'other'];
+
+// Kinds of document an engine may recognize
+BaseEngine.DOCUMENT_TYPES = ['receipt', 'invoice', 'sign', 'slide', 'screenshot', 'document', 'handwriting', 'other'];
+
+module.exports = BaseEngine;
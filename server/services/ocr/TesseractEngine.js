@@ -0,0 +1,141 @@
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const BaseEngine = require('./BaseEngine');
+
+const execFileAsync = promisify(execFile);
+
+// Tesseract's traineddata names for BCP-47 base languages
+const TESSERACT_LANGUAGES = {
+  ar: 'ara', de: 'deu', en: 'eng', es: 'spa', fr: 'fra', hi: 'hin', it: 'ita', ja: 'jpn',
+  ko: 'kor', nl: 'nld', pl: 'pol', pt: 'por', ru: 'rus', sv: 'swe', tr: 'tur', uk: 'ukr', zh: 'chi_sim'
+};
+
+// Widest run of spaces put between words to keep columns (item ... price) apart
+const MAX_GAP_SPACES = 8;
+
+// Tesseract (https://github.com/tesseract-ocr/tesseract): local OCR, no
+// network. Needs the traineddata of each language it should read;
+// OCR_TESSERACT_LANGUAGES (e.g. eng+deu) sets the languages used when the
+// user has no preferences.
+class TesseractEngine extends BaseEngine {
+  constructor() {
+    super('tesseract', 'Tesseract');
+    this.command = process.env.TESSERACT_BIN || 'tesseract';
+    this.defaultLanguages = process.env.OCR_TESSERACT_LANGUAGES || 'eng';
+    this.installedLanguages = [];
+    this.usesFullResolution = true;
+  }
+
+  async initialize() {
+    try {
+      // Prints "List of available languages ...:" then one per line
+      const { stdout } = await execFileAsync(this.command, ['--list-langs'], { timeout: 5000 });
+      this.installedLanguages = stdout.split('\n').slice(1).map(line => line.trim()).filter(Boolean);
+      this.isAvailable = this.installedLanguages.length > 0;
+      console.log(this.isAvailable
+        ? `Tesseract OCR available with ${this.installedLanguages.length} language(s)`
+        : 'Tesseract OCR not available: no languages installed');
+    } catch (error) {
+      console.log('Tesseract OCR not available:', error.message);
+      this.isAvailable = false;
+    }
+    return this.isAvailable;
+  }
+
+  // The installed traineddata for the likely languages, e.g. eng+deu
+  languageArgument(languages) {
+    const wanted = languages
+      .map(code => TESSERACT_LANGUAGES[code.split('-')[0].toLowerCase()])
+      .filter(name => name && this.installedLanguages.includes(name));
+    return wanted.length > 0 ? [...new Set(wanted)].join('+') : this.defaultLanguages;
+  }
+
+  async extract(imagePath, { languages = [] } = {}) {
+    const { stdout } = await execFileAsync(this.command, [
+      imagePath,
+      'stdout',
+      '-l', this.languageArgument(languages),
+      '--psm', '3', // Find the page layout, then read it block by block
+      'tsv'
+    ], { timeout: 60000, maxBuffer: 16 * 1024 * 1024 });
+
+    const words = this.parseTsv(stdout);
+    const paragraphs = this.groupParagraphs(words);
+    const blocks = paragraphs.map(paragraph => ({ type: 'paragraph', text: paragraph.text }));
+
+    // Blank line between blocks, line breaks between paragraphs of a block
+    let text = '';
+    paragraphs.forEach((paragraph, index) => {
+      if (index > 0) {
+        text += paragraph.block === paragraphs[index - 1].block ? '\n' : '\n\n';
+      }
+      text += paragraph.text;
+    });
+
+    const confidences = words.map(word => word.conf).filter(conf => conf >= 0);
+    return {
+      text,
+      blocks,
+      confidence: confidences.length > 0
+        ? Math.round(confidences.reduce((sum, conf) => sum + conf, 0) / confidences.length * 10) / 1000
+        : null,
+      language: null,
+      documentType: null,
+      model: 'tesseract'
+    };
+  }
+
+  // Word rows of Tesseract's TSV output: level 5 rows, with their position
+  parseTsv(tsv) {
+    const [header, ...rows] = tsv.split('\n');
+    const columns = header.split('\t');
+    return rows
+      .map(row => {
+        const values = row.split('\t');
+        return Object.fromEntries(columns.map((column, index) => [column, values[index]]));
+      })
+      .filter(row => row.level === '5' && row.text && row.text.trim())
+      .map(row => ({
+        block: Number(row.block_num),
+        paragraph: Number(row.par_num),
+        line: Number(row.line_num),
+        left: Number(row.left),
+        width: Number(row.width),
+        conf: Number(row.conf),
+        text: row.text.trim()
+      }));
+  }
+
+  // Lines of each paragraph, in reading order. Wide gaps between words on a
+  // line become runs of spaces so columns stay apart.
+  groupParagraphs(words) {
+    const paragraphs = [];
+    let current = null;
+    let line = null;
+
+    for (const word of words) {
+      if (!current || current.block !== word.block || current.paragraph !== word.paragraph) {
+        current = { block: word.block, paragraph: word.paragraph, lines: [] };
+        paragraphs.push(current);
+        line = null;
+      }
+      if (!line || line.number !== word.line) {
+        line = { number: word.line, text: word.text, right: word.left + word.width };
+        current.lines.push(line);
+        continue;
+      }
+
+      const charWidth = word.width / word.text.length;
+      const spaces = Math.min(Math.max(Math.round((word.left - line.right) / charWidth), 1), MAX_GAP_SPACES);
+      line.text += ' '.repeat(spaces) + word.text;
+      line.right = word.left + word.width;
+    }
+
+    return paragraphs.map(paragraph => ({
+      block: paragraph.block,
+      text: paragraph.lines.map(entry => entry.text).join('\n')
+    }));
+  }
+}
+
+module.exports = TesseractEngine;
@@ -0,0 +1,88 @@
+const aiService = require('../aiService');
+const BaseEngine = require('./BaseEngine');
+
+const OCR_PROMPT = `Transcribe all the text in this image exactly as written, for a user who wants to copy or work with it.
+Reply with only a JSON object and no other text, in exactly this shape:
+{
+  "text": "all the text, one printed line per line, with a blank line between separate blocks; keep columns on a line apart with spaces",
+  "blocks": [{ "type": "${BaseEngine.BLOCK_TYPES.join(' | ')}", "text": "the text of the block" }],
+  "documentType": "${BaseEngine.DOCUMENT_TYPES.join(' | ')}",
+  "language": "BCP-47 code of the main language of the text, e.g. en-US"
+}
+List blocks in reading order. Use "line_item" for each priced line of a receipt or invoice and "total" for
+totals, subtotals and tax. Copy numbers, prices and codes character for character; do not correct, translate,
+summarize or add anything. Mark text you cannot read as [illegible]. Use an empty text and no blocks when the
+image has no text.`;
+
+// The JSON object in a model reply, which may be wrapped in a code fence or prose
+const parseJson = (content) => {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    return JSON.parse(content.substring(start, end + 1));
+  } catch {
+    return null;
+  }
+};
+
+const text = (value) => (typeof value === 'string' ? value.trim() : '');
+
+// The active vision model, asked for a structured transcription. Slower and
+// costlier than Tesseract, but reads handwriting, photos at an angle and
+// cluttered screenshots, and tells line items and totals apart.
+class VisionEngine extends BaseEngine {
+  constructor() {
+    super('vision', 'Vision model');
+  }
+
+  async initialize() {
+    // The AI providers initialize themselves; whether one can see images is
+    // only known when it answers
+    this.isAvailable = true;
+    return this.isAvailable;
+  }
+
+  async extract(imagePath, { note = '', ...options } = {}) {
+    const prompt = note
+      ? `${OCR_PROMPT}\nThe user added this note, take it into account: ${note}`
+      : OCR_PROMPT;
+
+    const aiResult = await aiService.generateMultimodalResponse(prompt, imagePath, [], options);
+    if (!aiResult.success) {
+      throw new Error(aiResult.error || 'No vision model available');
+    }
+
+    const parsed = parseJson(aiResult.content);
+    if (!parsed) {
+      // Not JSON: the model transcribed the text as is
+      return {
+        text: aiResult.content.trim(),
+        blocks: [],
+        confidence: null,
+        language: null,
+        documentType: null,
+        model: aiResult.model
+      };
+    }
+
+    const blocks = (Array.isArray(parsed.blocks) ? parsed.blocks : [])
+      .filter(block => block && typeof block === 'object' && text(block.text))
+      .map(block => ({
+        type: BaseEngine.BLOCK_TYPES.includes(text(block.type)) ? text(block.type) : 'other',
+        text: text(block.text)
+      }));
+
+    return {
+      text: text(parsed.text) || blocks.map(block => block.text).join('\n'),
+      blocks,
+      confidence: null,
+      language: text(parsed.language) || null,
+      documentType: BaseEngine.DOCUMENT_TYPES.includes(text(parsed.documentType)) ? text(parsed.documentType) : null,
+      model: aiResult.model
+    };
+  }
+}
+
+module.exports = VisionEngine;
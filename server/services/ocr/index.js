@@ -0,0 +1,34 @@
+const BaseEngine = require('./BaseEngine');
+const TesseractEngine = require('./TesseractEngine');
+const VisionEngine = require('./VisionEngine');
+
+// Registry of engine name -> engine class.
+// New engines only need to extend BaseEngine and be registered here.
+const registry = new Map();
+
+const registerEngine = (name, EngineClass) => {
+  if (!(EngineClass.prototype instanceof BaseEngine)) {
+    throw new Error(`OCR engine ${name} must extend BaseEngine`);
+  }
+  registry.set(name, EngineClass);
+};
+
+const createEngine = (name) => {
+  const EngineClass = registry.get(name);
+  if (!EngineClass) {
+    throw new Error(`Unknown OCR engine: ${name}`);
+  }
+  return new EngineClass();
+};
+
+const getRegisteredEngines = () => Array.from(registry.keys());
+
+registerEngine('tesseract', TesseractEngine);
+registerEngine('vision', VisionEngine);
+
+module.exports = {
+  BaseEngine,
+  registerEngine,
+  createEngine,
+  getRegisteredEngines
+};
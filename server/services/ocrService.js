@@ -0,0 +1,157 @@
+const fs = require('fs');
+const path = require('path');
+const { createEngine, getRegisteredEngines } = require('./ocr');
+const languageService = require('./languageService');
+
+class OcrService {
+  constructor() {
+    // Ordered list of engines to try, e.g. OCR_ENGINES=tesseract,vision.
+    // Each image goes to the first engine that finds text in it.
+    this.engineOrder = (process.env.OCR_ENGINES || 'tesseract,vision')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+    this.engines = new Map();
+
+    this.initialized = this.initialize();
+  }
+
+  async initialize() {
+    for (const name of this.engineOrder) {
+      try {
+        const engine = createEngine(name);
+        if (await engine.initialize()) {
+          this.engines.set(name, engine);
+        }
+      } catch (error) {
+        console.log(`OCR engine ${name} could not be set up:`, error.message);
+      }
+    }
+
+    if (this.engines.size === 0) {
+      console.log(`No OCR engine available (tried: ${this.engineOrder.join(', ')})`);
+    }
+  }
+
+  async getStatus() {
+    await this.initialized;
+    return {
+      available: this.engines.size > 0,
+      engines: Array.from(this.engines.values()).map(engine => ({
+        name: engine.name,
+        displayName: engine.displayName
+      })),
+      registeredEngines: getRegisteredEngines()
+    };
+  }
+
+  // Read the text of one image with the first engine that finds any.
+  // Resolves with the engine's result plus `engine`; text is empty when no
+  // engine found any. Throws when every engine failed.
+  async extractImage(image, engines, { languages, ...options }) {
+    const errors = [];
+    let empty = null;
+
+    for (const engine of engines) {
+      const imagePath = engine.usesFullResolution ? image.originalPath || image.path : image.path;
+      try {
+        const result = await engine.extract(imagePath, { languages, ...options });
+        const page = {
+          ...result,
+          engine: engine.name,
+          // What the engine read, else a guess from the words themselves
+          language: languageService.normalize(result.language)
+            || (result.text && languageService.detect(result.text, languages)?.language)
+            || null
+        };
+        if (page.text) {
+          return page;
+        }
+        empty = empty || page;
+      } catch (error) {
+        console.log(`${engine.displayName} text extraction failed:`, error.message);
+        errors.push(`${engine.name}: ${error.message}`);
+      }
+    }
+
+    if (empty) {
+      return empty;
+    }
+    throw new Error(errors.join('; '));
+  }
+
+  // Extract the text of a message's images, keeping their layout.
+  // `images` are { path, originalPath } where path is the model-sized copy
+  // (see Message.getImages).
+  //
+  // Options:
+  //   languages - likely languages of the text, most likely first
+  //   engine    - only try this engine
+  //   note      - what the user asked for, for engines that use a model
+  //   provider, model, signal - for the vision engine
+  //
+  // Resolves with { success, pages, text, model, processingTime } where
+  // pages has one { text, blocks, confidence, language, documentType,
+  // engine, model } per image (null for images no engine could read) and
+  // text joins them, or { success: false, error } when no image could be read.
+  async extract(images, { languages = [], engine: engineName, ...options } = {}) {
+    await this.initialized;
+    const startTime = Date.now();
+
+    const engines = engineName
+      ? [this.engines.get(engineName)].filter(Boolean)
+      : Array.from(this.engines.values());
+
+    if (engines.length === 0) {
+      return {
+        success: false,
+        error: engineName
+          ? `OCR engine not available: ${engineName}`
+          : 'Text extraction not available. Install Tesseract or configure a vision model (OCR_ENGINES).'
+      };
+    }
+
+    const errors = [];
+    const pages = [];
+    for (const [index, image] of images.entries()) {
+      if (!image.path || !fs.existsSync(image.path)) {
+        errors.push(`image ${index + 1}: file not found`);
+        pages.push(null);
+        continue;
+      }
+
+      try {
+        pages.push(await this.extractImage(image, engines, { languages, ...options }));
+      } catch (error) {
+        errors.push(`image ${index + 1}: ${error.message}`);
+        pages.push(null);
+      }
+    }
+
+    if (pages.every(page => !page)) {
+      return { success: false, error: `Text extraction failed (${errors.join('; ')})` };
+    }
+
+    console.log(`Extracted text of ${images.map(image => path.basename(image.path)).join(', ')} in ${Date.now() - startTime}ms`);
+    return {
+      success: true,
+      pages,
+      text: this.joinPages(pages),
+      model: [...new Set(pages.filter(Boolean).map(page => page.model || page.engine))].join(', '),
+      processingTime: Date.now() - startTime
+    };
+  }
+
+  // The text of all pages, headed "Image N:" when there are several
+  joinPages(pages) {
+    if (pages.length === 1) {
+      return pages[0]?.text || '';
+    }
+    return pages
+      .map((page, index) => (page?.text ? `Image ${index + 1}:\n${page.text}` : null))
+      .filter(Boolean)
+      .join('\n\n');
+  }
+}
+
+module.exports = new OcrService();
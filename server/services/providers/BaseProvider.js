@@ -0,0 +1,152 @@
+const fs = require('fs');
+const path = require('path');
+
+// Contract every AI provider implements. Providers throw on failure;
+// AIService is responsible for turning errors into fallback responses.
+class BaseProvider {
+  constructor(name, displayName) {
+    this.name = name;
+    this.displayName = displayName || name;
+    this.isAvailable = false;
+  }
+
+  // Check connectivity/credentials and set isAvailable. Must not throw.
+  async initialize() {
+    this.isAvailable = false;
+    return this.isAvailable;
+  }
+
+  // What this provider can do, used for routing and status reporting
+  getCapabilities() {
+    return {
+      text: false,
+      vision: false,
+      streaming: false
+    };
+  }
+
+  // Approximate number of input tokens available for conversation context,
+  // after reserving room for the model's response
+  getTokenBudget({ vision = false } = {}) {
+    return parseInt(process.env.AI_CONTEXT_TOKENS) || 4096;
+  }
+
+  // Default model names, reported by getCurrentService()
+  getModels() {
+    return {
+      text: null,
+      vision: null
+    };
+  }
+
+  async generateText(prompt, context = [], options = {}) {
+    throw new Error(`${this.displayName} does not support text generation`);
+  }
+
+  // `imagePaths` holds one or more images, in the order the user sent them
+  async generateVision(prompt, imagePaths, context = [], options = {}) {
+    throw new Error(`${this.displayName} does not support image input`);
+  }
+
+  // Streams a response, calling onChunk for each text delta.
+  // Resolves with the same result shape as generateText(). Providers stop
+  // generating when options.signal (an AbortSignal) is aborted.
+  async streamText(prompt, { imagePaths = [], context = [], onChunk = null, ...options } = {}) {
+    const result = imagePaths.length > 0
+      ? await this.generateVision(prompt, imagePaths, context, options)
+      : await this.generateText(prompt, context, options);
+
+    if (onChunk && result.content) {
+      onChunk(result.content);
+    }
+
+    return { ...result, type: 'stream' };
+  }
+
+  async getModelInfo() {
+    return {
+      available: this.isAvailable,
+      activeService: this.displayName,
+      ...this.getModels(),
+      capabilities: this.getCapabilities()
+    };
+  }
+
+  // Shared helpers
+
+  // Plain { role, content } messages for chat-style APIs, without our
+  // extra per-turn fields such as imagePaths
+  toChatMessages(context = []) {
+    return context
+      .filter(entry => entry.content)
+      .map(entry => ({
+        role: entry.role === 'assistant' ? 'assistant' : 'user',
+        content: entry.content
+      }));
+  }
+
+  // Calls onLine for every complete line of a streamed HTTP body,
+  // buffering partial lines that are split across chunks.
+  readStreamLines(stream, onLine) {
+    return new Promise((resolve, reject) => {
+      let buffer = '';
+
+      stream.on('data', (chunk) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop();
+
+        for (const line of lines) {
+          if (line.trim()) {
+            onLine(line.trim());
+          }
+        }
+      });
+
+      stream.on('end', () => {
+        if (buffer.trim()) {
+          onLine(buffer.trim());
+        }
+        resolve();
+      });
+
+      // Destroyed streams (e.g. aborted requests) close without ending
+      stream.on('close', resolve);
+
+      stream.on('error', reject);
+    });
+  }
+
+  // For APIs that take a message's images as a plain list: tells the model
+  // how to refer to them, so questions comparing images can be answered
+  withImageOrder(prompt, imageCount) {
+    if (imageCount < 2) return prompt;
+    return `${imageCount} images are attached, in order (image 1 to image ${imageCount}). ` +
+      `Refer to them by number.\n\n${prompt}`;
+  }
+
+  readImage(imagePath) {
+    if (!fs.existsSync(imagePath)) {
+      throw new Error(`Image file not found: ${imagePath}`);
+    }
+
+    return {
+      data: fs.readFileSync(imagePath).toString('base64'),
+      mimeType: this.getMimeType(imagePath)
+    };
+  }
+
+  getMimeType(filePath) {
+    const ext = path.extname(filePath).toLowerCase();
+    const mimeTypes = {
+      '.jpg': 'image/jpeg',
+      '.jpeg': 'image/jpeg',
+      '.png': 'image/png',
+      '.gif': 'image/gif',
+      '.webp': 'image/webp'
+    };
+    return mimeTypes[ext] || 'image/jpeg';
+  }
+}
+
+module.exports = BaseProvider;
@@ -0,0 +1,217 @@
+const fs = require('fs');
+const { GoogleGenerativeAI } = require('@google/generative-ai');
+const BaseProvider = require('./BaseProvider');
+
+// Only the most recent images in the history are re-sent, to keep requests small
+const MAX_HISTORY_IMAGES = parseInt(process.env.GEMINI_MAX_HISTORY_IMAGES) || 3;
+
+class GeminiProvider extends BaseProvider {
+  constructor() {
+    super('gemini', 'Gemini');
+    this.model = process.env.GEMINI_MODEL || 'gemini-1.5-flash';
+    this.apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
+    this.genAI = null;
+  }
+
+  async initialize() {
+    try {
+      // Check if we have an API key
+      if (!this.apiKey) {
+        throw new Error('No Gemini API key found in environment variables');
+      }
+
+      // Initialize the Google AI SDK
+      this.genAI = new GoogleGenerativeAI(this.apiKey);
+
+      // Test the connection with a simple prompt
+      const model = this.genAI.getGenerativeModel({ model: this.model });
+      const result = await model.generateContent('Hello');
+      if (!result.response) {
+        throw new Error('No response from Gemini API');
+      }
+
+      console.log('Gemini API is working');
+      console.log(`Using model: ${this.model}`);
+      this.isAvailable = true;
+    } catch (error) {
+      console.log('Gemini API not available:', error.message);
+      console.log('To use Gemini API:');
+      console.log('   1. Set GEMINI_API_KEY environment variable');
+      console.log('   2. Make sure you have a valid Google AI API key');
+      this.isAvailable = false;
+    }
+
+    return this.isAvailable;
+  }
+
+  getCapabilities() {
+    return {
+      text: true,
+      vision: true,
+      streaming: true
+    };
+  }
+
+  // Gemini models accept very long inputs; the budget is capped to keep
+  // requests fast and cheap rather than to fit the model
+  getTokenBudget() {
+    return parseInt(process.env.GEMINI_CONTEXT_TOKENS) || 32000;
+  }
+
+  getModels() {
+    return {
+      text: this.model,
+      vision: this.model
+    };
+  }
+
+  getModel(options = {}) {
+    if (!this.genAI) {
+      throw new Error('Gemini API not initialized');
+    }
+    return this.genAI.getGenerativeModel({ model: options.model || this.model });
+  }
+
+  buildImagePart(imagePath) {
+    const { data, mimeType } = this.readImage(imagePath);
+    return {
+      inlineData: {
+        data,
+        mimeType
+      }
+    };
+  }
+
+  // Several images are labelled so the prompt can refer to "image 2"
+  buildImageParts(imagePaths = []) {
+    if (imagePaths.length === 1) {
+      return [this.buildImagePart(imagePaths[0])];
+    }
+    return imagePaths.flatMap((imagePath, index) => [
+      { text: `Image ${index + 1}:` },
+      this.buildImagePart(imagePath)
+    ]);
+  }
+
+  // Convert our { role, content, imagePaths } context into Gemini chat history.
+  // Gemini expects alternating user/model turns that start with a user turn.
+  buildHistory(context = []) {
+    // Walk back from the newest turn, keeping whole turns' images while they fit
+    const resent = new Set();
+    let imageCount = 0;
+    for (let index = context.length - 1; index >= 0; index--) {
+      const count = (context[index].imagePaths || []).length;
+      if (count === 0) continue;
+      if (imageCount + count > MAX_HISTORY_IMAGES) break;
+      resent.add(index);
+      imageCount += count;
+    }
+
+    const history = [];
+    context.forEach((entry, index) => {
+      const role = entry.role === 'assistant' ? 'model' : 'user';
+      const parts = [];
+
+      if (entry.content) {
+        parts.push({ text: entry.content });
+      }
+      if (resent.has(index)) {
+        parts.push(...this.buildImageParts(entry.imagePaths.filter(imagePath => fs.existsSync(imagePath))));
+      }
+      if (parts.length === 0) return;
+
+      const previous = history[history.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else if (history.length > 0 || role === 'user') {
+        history.push({ role, parts });
+      }
+    });
+
+    return history;
+  }
+
+  // Returns a chat seeded with the history and the parts for the new user turn.
+  // A trailing user turn in the history (e.g. an unanswered message) is merged
+  // into the new turn so roles keep alternating.
+  startChat(prompt, imagePaths, context, options) {
+    const history = this.buildHistory(context);
+    const parts = [{ text: prompt }, ...this.buildImageParts(imagePaths)];
+
+    if (history.length > 0 && history[history.length - 1].role === 'user') {
+      parts.unshift(...history.pop().parts);
+    }
+
+    const chat = this.getModel(options).startChat({ history });
+    return { chat, parts };
+  }
+
+  async generateText(prompt, context = [], options = {}) {
+    const { chat, parts } = this.startChat(prompt, [], context, options);
+
+    console.log('Generating response with Gemini API...');
+    console.log('Prompt:', prompt.substring(0, 100) + '...');
+    console.log('Context messages:', context.length);
+
+    const startTime = Date.now();
+    const result = await chat.sendMessage(parts);
+    const text = result.response.text();
+
+    console.log('Gemini API response generated in', (Date.now() - startTime) + 'ms');
+    console.log('Response length:', text.length);
+
+    return {
+      success: true,
+      content: text,
+      model: options.model || this.model,
+      type: 'text'
+    };
+  }
+
+  async generateVision(prompt, imagePaths, context = [], options = {}) {
+    const { chat, parts } = this.startChat(prompt, imagePaths, context, options);
+
+    console.log('Processing images with Gemini API:', imagePaths.join(', '));
+
+    const startTime = Date.now();
+    const result = await chat.sendMessage(parts);
+    const text = result.response.text();
+
+    console.log('Gemini multimodal response generated in', (Date.now() - startTime) + 'ms');
+
+    return {
+      success: true,
+      content: text,
+      model: options.model || this.model,
+      type: 'multimodal',
+      hasImage: true
+    };
+  }
+
+  async streamText(prompt, { imagePaths = [], context = [], onChunk = null, ...options } = {}) {
+    const { chat, parts } = this.startChat(prompt, imagePaths, context, options);
+    const result = await chat.sendMessageStream(parts, { signal: options.signal });
+
+    let fullResponse = '';
+    for await (const chunk of result.stream) {
+      if (options.signal?.aborted) break;
+
+      const text = chunk.text();
+      if (text) {
+        fullResponse += text;
+        if (onChunk) {
+          onChunk(text);
+        }
+      }
+    }
+
+    return {
+      success: true,
+      content: fullResponse,
+      model: options.model || this.model,
+      type: 'stream'
+    };
+  }
+}
+
+module.exports = GeminiProvider;
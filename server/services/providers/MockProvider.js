@@ -0,0 +1,89 @@
+const path = require('path');
+const BaseProvider = require('./BaseProvider');
+
+// Deterministic local provider for development and automated tests.
+// Responses depend only on the inputs, so runs are reproducible offline.
+class MockProvider extends BaseProvider {
+  constructor() {
+    super('mock', 'Mock');
+    this.model = 'mock-model';
+  }
+
+  async initialize() {
+    console.log('Mock AI provider enabled (deterministic responses)');
+    this.isAvailable = true;
+    return this.isAvailable;
+  }
+
+  getCapabilities() {
+    return {
+      text: true,
+      vision: true,
+      streaming: true
+    };
+  }
+
+  // Deliberately small so context summarization can be exercised locally
+  getTokenBudget() {
+    return parseInt(process.env.MOCK_CONTEXT_TOKENS) || 2000;
+  }
+
+  getModels() {
+    return {
+      text: this.model,
+      vision: this.model
+    };
+  }
+
+  buildContent(prompt, imagePaths, context) {
+    const parts = [`Mock response to: ${prompt}`];
+    if (imagePaths.length === 1) {
+      parts.push(`Image: ${path.basename(imagePaths[0])}`);
+    } else if (imagePaths.length > 1) {
+      parts.push(`Images: ${imagePaths.map(imagePath => path.basename(imagePath)).join(', ')}`);
+    }
+    parts.push(`Context messages: ${context.length}`);
+    return parts.join('\n');
+  }
+
+  async generateText(prompt, context = [], options = {}) {
+    return {
+      success: true,
+      content: this.buildContent(prompt, [], context),
+      model: options.model || this.model,
+      type: 'text'
+    };
+  }
+
+  async generateVision(prompt, imagePaths, context = [], options = {}) {
+    return {
+      success: true,
+      content: this.buildContent(prompt, imagePaths, context),
+      model: options.model || this.model,
+      type: 'multimodal',
+      hasImage: true
+    };
+  }
+
+  async streamText(prompt, { imagePaths = [], context = [], onChunk = null, ...options } = {}) {
+    const content = this.buildContent(prompt, imagePaths, context);
+
+    // Emit word by word so clients can exercise incremental rendering
+    const tokens = content.match(/\S+\s*/g) || [];
+    for (const token of tokens) {
+      if (options.signal?.aborted) break;
+      if (onChunk) {
+        onChunk(token);
+      }
+    }
+
+    return {
+      success: true,
+      content,
+      model: options.model || this.model,
+      type: 'stream'
+    };
+  }
+}
+
+module.exports = MockProvider;
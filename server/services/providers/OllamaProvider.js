@@ -0,0 +1,208 @@
+const axios = require('axios');
+const BaseProvider = require('./BaseProvider');
+
+// Generation limits, reduced to fit memory on local machines
+const TEXT_OPTIONS = {
+  temperature: 0.7,
+  num_predict: 2048,
+  num_ctx: 8192
+};
+
+const VISION_OPTIONS = {
+  temperature: 0.5,
+  num_predict: 1024,
+  num_ctx: 4096
+};
+
+class OllamaProvider extends BaseProvider {
+  constructor() {
+    super('ollama', 'Ollama');
+    this.baseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+    this.textModel = process.env.OLLAMA_MODEL || 'llama3.2:3b';
+    this.visionModel = process.env.OLLAMA_VISION_MODEL || 'llama3.2-vision';
+    this.hasVisionModel = false;
+  }
+
+  async initialize() {
+    try {
+      await this.checkStatus();
+      console.log('Ollama service is available');
+
+      // Check if the models are available
+      await this.ensureModelAvailable();
+      this.isAvailable = true;
+    } catch (error) {
+      console.log('Ollama service not available:', error.message);
+      console.log('To use local AI:');
+      console.log('   1. Install Ollama: https://ollama.ai/');
+      console.log(`   2. Run: ollama pull ${this.textModel}`);
+      console.log(`   3. Run: ollama pull ${this.visionModel}`);
+      console.log('   4. Start Ollama service');
+      this.isAvailable = false;
+    }
+
+    return this.isAvailable;
+  }
+
+  async checkStatus() {
+    const response = await axios.get(`${this.baseUrl}/api/tags`, {
+      timeout: 5000
+    });
+    return response.status === 200;
+  }
+
+  async ensureModelAvailable() {
+    try {
+      const response = await axios.get(`${this.baseUrl}/api/tags`);
+      const models = response.data.models || [];
+
+      const textModelExists = models.some(model =>
+        model.name.includes(this.textModel.split(':')[0]) || model.name === this.textModel
+      );
+
+      this.hasVisionModel = models.some(model =>
+        model.name.includes(this.visionModel.split(':')[0]) || model.name === this.visionModel
+      );
+
+      if (!textModelExists) {
+        console.log(`Text model ${this.textModel} not found. Available models:`,
+          models.map(m => m.name));
+        console.log(`Run: ollama pull ${this.textModel}`);
+        throw new Error(`Text model ${this.textModel} not available`);
+      }
+
+      if (!this.hasVisionModel) {
+        console.log(`Vision model ${this.visionModel} not found. Image processing will be limited.`);
+        console.log(`For image support, run: ollama pull ${this.visionModel}`);
+      }
+
+      console.log(`Text model ${this.textModel} is available`);
+      if (this.hasVisionModel) {
+        console.log(`Vision model ${this.visionModel} is available`);
+      }
+    } catch (error) {
+      throw new Error(`Failed to check model availability: ${error.message}`);
+    }
+  }
+
+  getCapabilities() {
+    return {
+      text: true,
+      vision: this.hasVisionModel,
+      streaming: true
+    };
+  }
+
+  // Whatever num_ctx leaves after reserving num_predict for the response
+  getTokenBudget({ vision = false } = {}) {
+    const { num_ctx, num_predict } = vision ? VISION_OPTIONS : TEXT_OPTIONS;
+    return num_ctx - num_predict;
+  }
+
+  getModels() {
+    return {
+      text: this.textModel,
+      vision: this.visionModel
+    };
+  }
+
+  buildRequest(prompt, imagePaths, context, options) {
+    const hasImages = imagePaths.length > 0;
+    const userMessage = { role: 'user', content: this.withImageOrder(prompt, imagePaths.length) };
+    if (hasImages) {
+      userMessage.images = imagePaths.map(imagePath => this.readImage(imagePath).data);
+    }
+
+    return {
+      model: options.model || (hasImages ? this.visionModel : this.textModel),
+      messages: [...this.toChatMessages(context), userMessage],
+      options: hasImages ? VISION_OPTIONS : TEXT_OPTIONS
+    };
+  }
+
+  async generateText(prompt, context = [], options = {}) {
+    const payload = this.buildRequest(prompt, [], context, options);
+
+    const response = await axios.post(`${this.baseUrl}/api/chat`, {
+      ...payload,
+      stream: false
+    }, {
+      timeout: 60000
+    });
+
+    return {
+      success: true,
+      content: response.data.message.content,
+      model: payload.model,
+      type: 'text'
+    };
+  }
+
+  async generateVision(prompt, imagePaths, context = [], options = {}) {
+    const payload = this.buildRequest(prompt, imagePaths, context, options);
+
+    const response = await axios.post(`${this.baseUrl}/api/chat`, {
+      ...payload,
+      stream: false
+    }, {
+      timeout: 90000 // Increased timeout for image processing
+    });
+
+    return {
+      success: true,
+      content: response.data.message.content,
+      model: payload.model,
+      type: 'multimodal',
+      hasImage: true
+    };
+  }
+
+  async streamText(prompt, { imagePaths = [], context = [], onChunk = null, ...options } = {}) {
+    const payload = this.buildRequest(prompt, imagePaths, context, options);
+
+    const response = await axios.post(`${this.baseUrl}/api/chat`, {
+      ...payload,
+      stream: true
+    }, {
+      responseType: 'stream',
+      signal: options.signal,
+      timeout: imagePaths.length > 0 ? 90000 : 60000
+    });
+
+    let fullResponse = '';
+    await this.readStreamLines(response.data, (line) => {
+      try {
+        const data = JSON.parse(line);
+        const delta = data.message?.content;
+        if (delta) {
+          fullResponse += delta;
+          if (onChunk) {
+            onChunk(delta);
+          }
+        }
+      } catch (parseError) {
+        console.error('Error parsing Ollama stream chunk:', parseError.message);
+      }
+    });
+
+    return {
+      success: true,
+      content: fullResponse,
+      model: payload.model,
+      type: 'stream'
+    };
+  }
+
+  async getModelInfo() {
+    const response = await axios.get(`${this.baseUrl}/api/tags`);
+    return {
+      ...(await super.getModelInfo()),
+      models: response.data.models || [],
+      textModel: this.textModel,
+      visionModel: this.visionModel,
+      ollamaUrl: this.baseUrl
+    };
+  }
+}
+
+module.exports = OllamaProvider;
@@ -0,0 +1,155 @@
+const axios = require('axios');
+const BaseProvider = require('./BaseProvider');
+
+// Any server that speaks the OpenAI chat completions API
+// (OpenAI, LM Studio, vLLM, llama.cpp server, LocalAI, ...)
+class OpenAICompatibleProvider extends BaseProvider {
+  constructor() {
+    super('openai', 'OpenAI-compatible');
+    this.baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+    this.apiKey = process.env.OPENAI_API_KEY || null;
+    this.textModel = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+    this.visionModel = process.env.OPENAI_VISION_MODEL || this.textModel;
+  }
+
+  getHeaders() {
+    const headers = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  async initialize() {
+    try {
+      await axios.get(`${this.baseUrl}/models`, {
+        headers: this.getHeaders(),
+        timeout: 5000
+      });
+      console.log(`OpenAI-compatible endpoint is available at ${this.baseUrl}`);
+      console.log(`Using model: ${this.textModel}`);
+      this.isAvailable = true;
+    } catch (error) {
+      console.log('OpenAI-compatible endpoint not available:', error.message);
+      console.log('Set OPENAI_BASE_URL, OPENAI_API_KEY and OPENAI_MODEL to use it');
+      this.isAvailable = false;
+    }
+
+    return this.isAvailable;
+  }
+
+  getCapabilities() {
+    return {
+      text: true,
+      vision: true,
+      streaming: true
+    };
+  }
+
+  getTokenBudget() {
+    return parseInt(process.env.OPENAI_CONTEXT_TOKENS) || 16000;
+  }
+
+  getModels() {
+    return {
+      text: this.textModel,
+      vision: this.visionModel
+    };
+  }
+
+  buildRequest(prompt, imagePaths, context, options) {
+    const hasImages = imagePaths.length > 0;
+    let content = prompt;
+    if (hasImages) {
+      content = [
+        { type: 'text', text: this.withImageOrder(prompt, imagePaths.length) },
+        ...imagePaths.map(imagePath => {
+          const { data, mimeType } = this.readImage(imagePath);
+          return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+        })
+      ];
+    }
+
+    return {
+      model: options.model || (hasImages ? this.visionModel : this.textModel),
+      messages: [...this.toChatMessages(context), { role: 'user', content }],
+      temperature: hasImages ? 0.5 : 0.7
+    };
+  }
+
+  async generateText(prompt, context = [], options = {}) {
+    const payload = this.buildRequest(prompt, [], context, options);
+
+    const response = await axios.post(`${this.baseUrl}/chat/completions`, payload, {
+      headers: this.getHeaders(),
+      timeout: 60000
+    });
+
+    return {
+      success: true,
+      content: response.data.choices[0].message.content,
+      model: payload.model,
+      type: 'text'
+    };
+  }
+
+  async generateVision(prompt, imagePaths, context = [], options = {}) {
+    const payload = this.buildRequest(prompt, imagePaths, context, options);
+
+    const response = await axios.post(`${this.baseUrl}/chat/completions`, payload, {
+      headers: this.getHeaders(),
+      timeout: 90000
+    });
+
+    return {
+      success: true,
+      content: response.data.choices[0].message.content,
+      model: payload.model,
+      type: 'multimodal',
+      hasImage: true
+    };
+  }
+
+  async streamText(prompt, { imagePaths = [], context = [], onChunk = null, ...options } = {}) {
+    const payload = this.buildRequest(prompt, imagePaths, context, options);
+
+    const response = await axios.post(`${this.baseUrl}/chat/completions`, {
+      ...payload,
+      stream: true
+    }, {
+      headers: this.getHeaders(),
+      responseType: 'stream',
+      signal: options.signal,
+      timeout: imagePaths.length > 0 ? 90000 : 60000
+    });
+
+    let fullResponse = '';
+    await this.readStreamLines(response.data, (line) => {
+      // Server-sent events: "data: {...}" lines, terminated by "data: [DONE]"
+      if (!line.startsWith('data:')) return;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+
+      try {
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) {
+          fullResponse += delta;
+          if (onChunk) {
+            onChunk(delta);
+          }
+        }
+      } catch (parseError) {
+        console.error('Error parsing OpenAI stream chunk:', parseError.message);
+      }
+    });
+
+    return {
+      success: true,
+      content: fullResponse,
+      model: payload.model,
+      type: 'stream'
+    };
+  }
+}
+
+module.exports = OpenAICompatibleProvider;
@@ -0,0 +1,38 @@
+const BaseProvider = require('./BaseProvider');
+const GeminiProvider = require('./GeminiProvider');
+const OllamaProvider = require('./OllamaProvider');
+const OpenAICompatibleProvider = require('./OpenAICompatibleProvider');
+const MockProvider = require('./MockProvider');
+
+// Registry of provider name -> provider class.
+// New backends only need to extend BaseProvider and be registered here.
+const registry = new Map();
+
+const registerProvider = (name, ProviderClass) => {
+  if (!(ProviderClass.prototype instanceof BaseProvider)) {
+    throw new Error(`Provider ${name} must extend BaseProvider`);
+  }
+  registry.set(name, ProviderClass);
+};
+
+const createProvider = (name) => {
+  const ProviderClass = registry.get(name);
+  if (!ProviderClass) {
+    throw new Error(`Unknown AI provider: ${name}`);
+  }
+  return new ProviderClass();
+};
+
+const getRegisteredProviders = () => Array.from(registry.keys());
+
+registerProvider('gemini', GeminiProvider);
+registerProvider('ollama', OllamaProvider);
+registerProvider('openai', OpenAICompatibleProvider);
+registerProvider('mock', MockProvider);
+
+module.exports = {
+  BaseProvider,
+  registerProvider,
+  createProvider,
+  getRegisteredProviders
+};
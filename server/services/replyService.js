@@ -0,0 +1,325 @@
+const PromptTemplate = require('../models/PromptTemplate');
+const ChatSession = require('../models/ChatSession');
+const Message = require('../models/Message');
+const aiService = require('./aiService');
+const contextService = require('./contextService');
+const altTextService = require('./altTextService');
+const ocrService = require('./ocrService');
+const languageService = require('./languageService');
+const templateService = require('./templateService');
+
+const OFFLINE_REPLY = "I'm sorry, I'm currently offline. Please try again later.";
+
+class ReplyService {
+  templateSummary(promptTemplate, values) {
+    return promptTemplate ? {
+      id: promptTemplate._id,
+      name: promptTemplate.name,
+      category: promptTemplate.category,
+      variables: values && Object.keys(values).length > 0 ? values : undefined
+    } : null;
+  }
+
+  // Check the values given for a prompt template's variables before a message
+  // is sent with it. Resolves with { values, errors }: the values in canonical
+  // form with defaults filled in, and one message per missing or invalid
+  // value. No errors when there is no template or it is not the user's.
+  async checkTemplateVariables({ userId, promptTemplateId, templateVariables }) {
+    if (!promptTemplateId) {
+      return { values: null, errors: [] };
+    }
+
+    const promptTemplate = await PromptTemplate.findOne({
+      _id: promptTemplateId,
+      user: userId,
+      isActive: true
+    }).select('variables');
+
+    return promptTemplate
+      ? templateService.resolveValues(promptTemplate.variables, templateVariables)
+      : { values: null, errors: [] };
+  }
+
+  // Accessibility mode: answer with the image's alt-text package, which is also
+  // stored on the user message. The package is formatted only once complete, so
+  // a streaming client receives it as a single chunk.
+  async generateAltText({ userMessage, language, options = {} }) {
+    const startTime = Date.now();
+    const { onChunk, ...describeOptions } = options;
+
+    const { aiResult, altText } = await altTextService.describeImage(
+      userMessage.getImagePaths()[0],
+      userMessage.messageType === 'multimodal' ? userMessage.content : '',
+      { ...describeOptions, language }
+    );
+
+    if (altText) {
+      userMessage.metadata.accessibility = altText;
+      await userMessage.save();
+    }
+
+    if (onChunk && aiResult.success && !options.signal?.aborted) {
+      onChunk(aiResult.content);
+    }
+
+    return {
+      aiResult,
+      promptTemplate: null,
+      contextInfo: null,
+      contextImages: null,
+      language,
+      processingTime: Date.now() - startTime
+    };
+  }
+
+  // OCR mode: answer with the text of the message's images, read with its
+  // layout. The text is also stored on the user message, per image and as
+  // metadata.extractedText, where search and later turns find it.
+  async generateOcr({ userMessage, language, preferences = {}, options = {} }) {
+    const startTime = Date.now();
+    const { onChunk, ...extractOptions } = options;
+    const images = userMessage.getImages();
+
+    const result = await ocrService.extract(images, {
+      ...extractOptions,
+      languages: [userMessage.metadata?.language, ...(preferences.languages || [])].filter(Boolean),
+      note: userMessage.messageType === 'multimodal' ? userMessage.content : ''
+    });
+
+    const reply = {
+      promptTemplate: null,
+      contextInfo: null,
+      contextImages: null,
+      language
+    };
+
+    if (!result.success) {
+      return { ...reply, aiResult: aiService.getFallbackResponse('ocr', result.error), processingTime: Date.now() - startTime };
+    }
+
+    const attachments = userMessage.metadata.attachments || [];
+    result.pages.forEach((page, index) => {
+      if (page && attachments[index]) {
+        attachments[index].ocr = { ...page, extractedAt: new Date() };
+      }
+    });
+    userMessage.metadata.extractedText = result.text || undefined;
+    await userMessage.save();
+
+    const content = result.text || (images.length > 1 ? 'No text found in these images.' : 'No text found in this image.');
+    if (onChunk && !options.signal?.aborted) {
+      onChunk(content);
+    }
+
+    return {
+      ...reply,
+      aiResult: { success: true, content, model: result.model, provider: null, type: 'ocr' },
+      processingTime: Date.now() - startTime
+    };
+  }
+
+  // Images a reply looks at: the message's own, or for a text-only message
+  // the session's active images (see ChatSession.imageContext), so follow-up
+  // questions are asked about the same picture. `contextImages` lists the
+  // file names of active images that were used and `sourceMessageId` the
+  // message they came from, if any.
+  async resolveImages(sessionId, userMessage) {
+    const imagePaths = userMessage.getImagePaths();
+    if (imagePaths.length > 0) {
+      return { imagePaths, contextImages: null, sourceMessageId: null };
+    }
+
+    const session = await ChatSession.findById(sessionId).select('imageContext');
+    const activePaths = session ? session.getActiveImagePaths() : [];
+    if (activePaths.length === 0) {
+      return { imagePaths: [], contextImages: null, sourceMessageId: null };
+    }
+
+    return {
+      imagePaths: activePaths,
+      contextImages: session.imageContext.images
+        .filter(image => activePaths.includes(image.path))
+        .map(image => image.fileName),
+      sourceMessageId: session.imageContext.message
+    };
+  }
+
+  // Text extracted from the images of a message in OCR mode, if any
+  async getExtractedText(messageId) {
+    if (!messageId) return null;
+    const message = await Message.findById(messageId).select('metadata.extractedText');
+    return message?.metadata?.extractedText || null;
+  }
+
+  // Generate the AI reply to a saved user message: applies the prompt template,
+  // packs the conversation that came before the message into the context window
+  // and calls the AI service. `options` can choose a provider/model and carry
+  // streaming callbacks (onChunk, signal). `mode: 'accessibility'` describes
+  // the message's (first) image for screen readers instead, and `mode: 'ocr'`
+  // answers with the text of its images.
+  // The reply is written in the language the user wrote or spoke in, unless
+  // `replyLanguage` or the user's `preferences` say otherwise. A text-only
+  // message is answered with the session's active images in view.
+  // The template's variables are filled in with `templateVariables`, else
+  // the values stored on the message when it was sent.
+  async generate({ sessionId, userId, userMessage, promptTemplateId, templateVariables, mode, preferences, replyLanguage, options = {} }) {
+    const language = languageService.resolveReplyLanguage({
+      override: replyLanguage,
+      preferences,
+      messageLanguage: userMessage.metadata?.language
+    });
+
+    if (mode === 'accessibility' && userMessage.metadata?.imagePath) {
+      return this.generateAltText({ userMessage, language, options });
+    }
+    if (mode === 'ocr' && userMessage.getImagePaths().length > 0) {
+      return this.generateOcr({ userMessage, language, preferences, options });
+    }
+
+    const startTime = Date.now();
+    let promptTemplate = null;
+
+    // Get prompt template if specified
+    if (promptTemplateId) {
+      try {
+        promptTemplate = await PromptTemplate.findOne({
+          _id: promptTemplateId,
+          user: userId,
+          isActive: true
+        });
+
+        if (promptTemplate) {
+          // Increment usage count
+          await promptTemplate.incrementUsage();
+          console.log('Using prompt template:', promptTemplate.name);
+        } else {
+          console.warn('Prompt template not found or not accessible:', promptTemplateId);
+        }
+      } catch (error) {
+        console.error('Error fetching prompt template:', error.message);
+      }
+    }
+
+    const templateValues = promptTemplate
+      ? templateService.resolveValues(
+        promptTemplate.variables,
+        templateVariables || userMessage.metadata?.templateVariables
+      ).values
+      : null;
+
+    const { imagePaths, contextImages, sourceMessageId } = await this.resolveImages(sessionId, userMessage);
+    let prompt = userMessage.content || (imagePaths.length > 1
+      ? 'Please describe what you see in these images and how they differ.'
+      : 'Please describe what you see in this image.');
+
+    // Follow-ups about images whose text was extracted work from that text
+    const extractedText = await this.getExtractedText(sourceMessageId);
+    const textPrompt = extractedText
+      ? `Text extracted from the image earlier (use it for exact words and figures):\n${extractedText}\n\n${prompt}`
+      : prompt;
+
+    // Pack as much of the branch leading up to the message as fits the model's
+    // token budget; the user message itself is sent as the prompt
+    const { context, info } = await contextService.buildContext(sessionId, {
+      leafId: userMessage.parent,
+      prompt: promptTemplate
+        ? aiService.applyPromptTemplate(textPrompt, promptTemplate.template, promptTemplate.variables, templateValues)
+        : textPrompt,
+      imageCount: imagePaths.length,
+      provider: options.provider
+    });
+
+    // The extracted text travels with its image's turn; repeat it only when
+    // that turn did not fit in the context
+    if (extractedText && !info.messageIds.some(id => String(id) === String(sourceMessageId))) {
+      prompt = textPrompt;
+    }
+
+    // The images are sent with the prompt; don't send them again with the turn they came from
+    context.forEach(entry => {
+      entry.imagePaths = entry.imagePaths.filter(imagePath => !imagePaths.includes(imagePath));
+    });
+
+    // Generate AI response using templated service
+    const aiResult = await aiService.generateTemplatedResponse(
+      prompt,
+      promptTemplate?.template,
+      imagePaths,
+      context,
+      { ...options, language, templateVariables: promptTemplate?.variables, templateValues }
+    );
+
+    return {
+      aiResult,
+      promptTemplate,
+      templateValues,
+      contextInfo: info,
+      contextImages,
+      language,
+      processingTime: Date.now() - startTime
+    };
+  }
+
+  // Fields of one AI answer, as stored on the message and in its versions
+  toFields({ aiResult, promptTemplate, templateValues, processingTime, language }) {
+    return {
+      content: aiResult.content,
+      aiModel: aiResult.success ? aiResult.model : 'offline',
+      aiProvider: aiResult.provider || null,
+      promptTemplate: this.templateSummary(promptTemplate, templateValues),
+      processingTime: aiResult.success ? processingTime : 0,
+      completionStatus: 'complete',
+      language: language || null
+    };
+  }
+
+  // The message a new turn is attached to: the end of the active branch
+  async branchParent(session) {
+    if (session.activeLeaf) return session.activeLeaf;
+    const activePath = await Message.getActivePath(session);
+    return activePath.length > 0 ? activePath[activePath.length - 1]._id : null;
+  }
+
+  // Save the AI answer to a user message and make it the end of the active
+  // branch. `reply` is what generate() returned, or null when generating
+  // failed; `content` and `completionStatus` override it for answers that
+  // were cut short. Names the session after its first exchange.
+  async saveReply({ session, userMessage, reply, content, completionStatus = 'complete', language }) {
+    const fields = reply ? this.toFields(reply) : { aiModel: 'offline', aiProvider: null, processingTime: 0 };
+    const hasImages = userMessage.getImagePaths().length > 0 || !!reply?.contextImages;
+
+    const aiResponse = new Message({
+      session: session._id,
+      user: session.user,
+      parent: userMessage._id,
+      content: content ?? fields.content ?? OFFLINE_REPLY,
+      isUserMessage: false,
+      messageType: hasImages ? 'multimodal_response' : 'text',
+      metadata: {
+        aiModel: fields.aiModel,
+        aiProvider: fields.aiProvider,
+        processingTime: fields.processingTime,
+        hasImageInput: hasImages,
+        contextImages: reply?.contextImages || undefined,
+        responseType: reply?.aiResult.type || 'text',
+        completionStatus,
+        context: reply?.contextInfo || null,
+        promptTemplate: fields.promptTemplate || null,
+        language: language ?? fields.language ?? null
+      }
+    });
+    await aiResponse.save();
+
+    session.messageCount += 1;
+    session.activeLeaf = aiResponse._id;
+    await session.updateActivity();
+
+    if (session.messageCount === 2) { // User message + AI response
+      await session.generateTitle(userMessage.content || 'Image conversation');
+    }
+
+    return aiResponse;
+  }
+}
+
+module.exports = new ReplyService();
@@ -0,0 +1,153 @@
+const mongoose = require('mongoose');
+const Message = require('../models/Message');
+
+const MAX_RESULTS = 50;
+
+// Snippets show this much text, starting a little before the first hit
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 60;
+
+// A letter, combining mark or digit in any script; used with the `u` flag,
+// since \b and \w only know ASCII
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}]';
+
+// Client-facing type filters. Voice messages hold their transcription and
+// AI replies to images hold the caption, so both are searched as content.
+// Text extracted from images (OCR mode) is searched along with the content.
+const TYPE_FILTERS = {
+  text: ['text'],
+  voice: ['voice'],
+  image: ['image', 'multimodal', 'multimodal_response']
+};
+
+class SearchService {
+  escapeRegex(text) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  // Regex source matching one of `terms` at the start of a word
+  termPattern(terms) {
+    return `(?<!${WORD_CHAR})(?:${terms.map(term => this.escapeRegex(term)).join('|')})`;
+  }
+
+  // Words of the query worth highlighting (MongoDB ignores quotes and negation for that)
+  getTerms(query) {
+    return query
+      .replace(/["-]/g, ' ')
+      .split(/\s+/)
+      .filter(term => term.length > 1);
+  }
+
+  // A window of `content` around the first hit, with the character ranges
+  // of every hit inside it so the client can highlight them
+  buildSnippet(content, terms) {
+    // Matches the term and the rest of the word, since the text index matches stems
+    const pattern = new RegExp(`${this.termPattern(terms)}${WORD_CHAR}*`, 'giu');
+    const firstHit = terms.length > 0 ? content.search(pattern) : -1;
+
+    let start = Math.max(firstHit - SNIPPET_LEAD, 0);
+    if (start > 0) {
+      // Don't start in the middle of a word
+      const space = content.indexOf(' ', start);
+      start = space !== -1 && space < firstHit ? space + 1 : start;
+    }
+    const end = Math.min(start + SNIPPET_LENGTH, content.length);
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < content.length ? '…' : '';
+    const snippet = prefix + content.substring(start, end) + suffix;
+
+    const highlights = [];
+    if (firstHit !== -1) {
+      for (const match of content.substring(start, end).matchAll(pattern)) {
+        highlights.push({
+          start: prefix.length + match.index,
+          end: prefix.length + match.index + match[0].length
+        });
+      }
+    }
+
+    return { snippet, highlights };
+  }
+
+  // The text the snippet comes from: the content, or the text extracted from
+  // the message's images when only that matched
+  getMatchedText(message, terms) {
+    const extractedText = message.metadata?.extractedText;
+    if (!extractedText || terms.length === 0) {
+      return message.content;
+    }
+    const pattern = new RegExp(this.termPattern(terms), 'iu');
+    return pattern.test(message.content) || !pattern.test(extractedText) ? message.content : extractedText;
+  }
+
+  // Search the content of all of a user's messages.
+  //
+  // Filters:
+  //   type       - text, voice, image or a raw message type
+  //   from, to   - createdAt range
+  //   templateId - prompt template used for the reply
+  //   model      - AI model that generated the reply
+  async searchMessages(userId, { query, type, from, to, templateId, model, limit = 20, page = 1 } = {}) {
+    const filter = {
+      user: userId,
+      $text: { $search: query }
+    };
+
+    if (type) {
+      filter.messageType = { $in: TYPE_FILTERS[type] || [type] };
+    }
+    if (from || to) {
+      filter.createdAt = {};
+      if (from) filter.createdAt.$gte = new Date(from);
+      if (to) filter.createdAt.$lte = new Date(to);
+    }
+    if (templateId && mongoose.isValidObjectId(templateId)) {
+      filter['metadata.promptTemplate.id'] = templateId;
+    }
+    if (model) {
+      filter['metadata.aiModel'] = model;
+    }
+
+    limit = Math.min(Math.max(limit, 1), MAX_RESULTS);
+    const skip = (Math.max(page, 1) - 1) * limit;
+
+    const [messages, total] = await Promise.all([
+      Message.find(filter, { score: { $meta: 'textScore' } })
+        .sort({ score: { $meta: 'textScore' }, createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .select('content isUserMessage messageType session createdAt metadata.aiModel metadata.promptTemplate metadata.extractedText')
+        .populate('session', 'title'),
+      Message.countDocuments(filter)
+    ]);
+
+    const terms = this.getTerms(query);
+    const results = messages
+      .filter(message => message.session) // Skip messages whose session is gone
+      .map(message => ({
+        messageId: message._id,
+        sessionId: message.session._id,
+        sessionTitle: message.session.title,
+        isUserMessage: message.isUserMessage,
+        messageType: message.messageType,
+        aiModel: message.metadata?.aiModel || null,
+        promptTemplate: message.metadata?.promptTemplate?.name || null,
+        createdAt: message.createdAt,
+        score: message.get('score'),
+        ...this.buildSnippet(this.getMatchedText(message, terms), terms)
+      }));
+
+    return {
+      results,
+      pagination: {
+        page: Math.max(page, 1),
+        limit,
+        total,
+        hasMore: skip + messages.length < total
+      }
+    };
+  }
+}
+
+module.exports = new SearchService();
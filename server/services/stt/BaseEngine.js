@@ -0,0 +1,56 @@
+// Contract every speech-to-text engine implements.
+//
+// SttService converts uploads to 16 kHz mono 16-bit WAV before recognition,
+// so engines only have to handle that one format. Engines that need the
+// original upload instead (such as the fixture-based fake) set
+// `needsNormalizedAudio` to false.
+class BaseEngine {
+  constructor(name, displayName) {
+    this.name = name;
+    this.displayName = displayName || name;
+    this.isAvailable = false;
+    this.needsNormalizedAudio = true;
+  }
+
+  // Check that the engine can run and set isAvailable. Must not throw.
+  async initialize() {
+    this.isAvailable = false;
+    return this.isAvailable;
+  }
+
+  // Recognize speech in the audio file at audioPath.
+  // `language` is a BCP-47 code such as en-US to recognize, or null to
+  // detect the spoken language; `languages` are likely candidates, most
+  // likely first.
+  // Resolves with { transcription, confidence, timings, language }: language
+  // is the spoken language if the engine reports it; confidence is
+  // between 0 and 1, or null when the engine does not report one; timings is
+  // [{ text, start, end }] in seconds, per word where the engine can tell and
+  // per segment otherwise, or null. Throws on failure.
+  async transcribe(audioPath, { language, languages = [] } = {}) {
+    throw new Error(`${this.displayName} does not support transcription`);
+  }
+
+  // Shared helpers
+
+  // Timing entry with times rounded to milliseconds; null for empty text
+  timing(text, start, end) {
+    const trimmed = (text || '').trim();
+    if (!trimmed || typeof start !== 'number' || typeof end !== 'number') return null;
+    return {
+      text: trimmed,
+      start: Math.round(start * 1000) / 1000,
+      end: Math.round(end * 1000) / 1000
+    };
+  }
+
+  // Mean of the scores that are numbers, rounded to 3 places
+  averageConfidence(scores) {
+    const valid = scores.filter(score => typeof score === 'number' && !isNaN(score));
+    if (valid.length === 0) return null;
+    const mean = valid.reduce((sum, score) => sum + score, 0) / valid.length;
+    return Math.round(Math.min(Math.max(mean, 0), 1) * 1000) / 1000;
+  }
+}
+
+module.exports = BaseEngine;
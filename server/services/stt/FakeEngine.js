@@ -0,0 +1,64 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const BaseEngine = require('./BaseEngine');
+
+// Fixture-based engine for automated tests: no model, no network, no ffmpeg.
+//
+// A recording is looked up in STT_FIXTURES_DIR by the SHA-256 of its bytes,
+// then by its file name without extension, then as `default`. A fixture is
+// either a .json file ({ "transcription": "...", "confidence": 0.92,
+// "language": "en-US", "timings": [{ "text": "...", "start": 0, "end": 0.4 }] })
+// or a .txt file holding just the transcription.
+class FakeEngine extends BaseEngine {
+  constructor() {
+    super('fake', 'Fixture transcriber');
+    this.needsNormalizedAudio = false;
+    this.fixturesDir = process.env.STT_FIXTURES_DIR || path.join(__dirname, '../../fixtures/stt');
+  }
+
+  async initialize() {
+    this.isAvailable = fs.existsSync(this.fixturesDir);
+    console.log(this.isAvailable
+      ? `Fake speech-to-text enabled with fixtures from ${this.fixturesDir}`
+      : `Fake speech-to-text not available: ${this.fixturesDir} does not exist`);
+    return this.isAvailable;
+  }
+
+  async transcribe(audioPath) {
+    const hash = crypto
+      .createHash('sha256')
+      .update(await fs.promises.readFile(audioPath))
+      .digest('hex');
+    const keys = [hash, path.basename(audioPath, path.extname(audioPath)), 'default'];
+
+    for (const key of keys) {
+      const jsonPath = path.join(this.fixturesDir, `${key}.json`);
+      if (fs.existsSync(jsonPath)) {
+        const fixture = JSON.parse(await fs.promises.readFile(jsonPath, 'utf8'));
+        return {
+          transcription: fixture.transcription || '',
+          confidence: typeof fixture.confidence === 'number' ? fixture.confidence : null,
+          timings: Array.isArray(fixture.timings)
+            ? fixture.timings.map(entry => this.timing(entry.text, entry.start, entry.end)).filter(Boolean)
+            : null,
+          language: fixture.language || null
+        };
+      }
+
+      const textPath = path.join(this.fixturesDir, `${key}.txt`);
+      if (fs.existsSync(textPath)) {
+        return {
+          transcription: (await fs.promises.readFile(textPath, 'utf8')).trim(),
+          confidence: 1,
+          timings: null,
+          language: null
+        };
+      }
+    }
+
+    throw new Error(`No transcription fixture for ${path.basename(audioPath)} (sha256 ${hash})`);
+  }
+}
+
+module.exports = FakeEngine;
@@ -0,0 +1,80 @@
+const fs = require('fs');
+const speech = require('@google-cloud/speech');
+const BaseEngine = require('./BaseEngine');
+
+// Google Cloud Speech-to-Text. Audio arrives as 16 kHz LINEAR16, so a single
+// request configuration covers every recording format the client sends.
+class GoogleEngine extends BaseEngine {
+  constructor() {
+    super('google', 'Google Cloud Speech-to-Text');
+    this.client = null;
+  }
+
+  async initialize() {
+    const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
+    if (!apiKey) {
+      console.log('No Google API key found for Speech-to-Text');
+      this.isAvailable = false;
+      return this.isAvailable;
+    }
+
+    try {
+      this.client = new speech.SpeechClient({
+        apiKey: apiKey,
+        projectId: process.env.GOOGLE_CLOUD_PROJECT_ID || 'echomind-speech'
+      });
+      this.isAvailable = true;
+      console.log('Speech-to-Text client initialized with API key');
+    } catch (error) {
+      console.log('Speech-to-Text client initialization failed:', error.message);
+      this.isAvailable = false;
+    }
+    return this.isAvailable;
+  }
+
+  // Google needs a language to start from; with none given it also listens
+  // for up to three of the other candidates
+  async transcribe(audioPath, { language, languages = [] } = {}) {
+    const candidates = language ? [language] : languages;
+    const languageCode = candidates[0] || 'en-US';
+
+    const [response] = await this.client.recognize({
+      audio: {
+        content: (await fs.promises.readFile(audioPath)).toString('base64')
+      },
+      config: {
+        encoding: 'LINEAR16',
+        sampleRateHertz: 16000,
+        languageCode,
+        alternativeLanguageCodes: candidates.slice(1, 4),
+        enableAutomaticPunctuation: true,
+        enableWordTimeOffsets: true,
+        model: 'latest_long'
+      }
+    });
+
+    const alternatives = (response.results || [])
+      .map(result => result.alternatives && result.alternatives[0])
+      .filter(Boolean);
+
+    const timings = alternatives
+      .flatMap(alternative => alternative.words || [])
+      .map(word => this.timing(word.word, this.toSeconds(word.startTime), this.toSeconds(word.endTime)))
+      .filter(Boolean);
+
+    return {
+      transcription: alternatives.map(alternative => alternative.transcript).join(' ').trim(),
+      confidence: this.averageConfidence(alternatives.map(alternative => alternative.confidence)),
+      timings: timings.length > 0 ? timings : null,
+      language: (response.results || []).find(result => result.languageCode)?.languageCode || languageCode
+    };
+  }
+
+  // Google durations are { seconds, nanos }, with seconds possibly a string
+  toSeconds(duration) {
+    if (!duration) return 0;
+    return Number(duration.seconds || 0) + (duration.nanos || 0) / 1e9;
+  }
+}
+
+module.exports = GoogleEngine;
@@ -0,0 +1,75 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const BaseEngine = require('./BaseEngine');
+
+const execFileAsync = promisify(execFile);
+
+// whisper.cpp (https://github.com/ggerganov/whisper.cpp): the same models as
+// Whisper, running on the CPU without Python. WHISPER_CPP_MODEL points at a
+// ggml model file such as ggml-base.en.bin.
+class WhisperCppEngine extends BaseEngine {
+  constructor() {
+    super('whisper-cpp', 'whisper.cpp');
+    this.command = process.env.WHISPER_CPP_BIN || 'whisper-cli';
+    this.model = process.env.WHISPER_CPP_MODEL || null;
+  }
+
+  async initialize() {
+    try {
+      if (!this.model || !fs.existsSync(this.model)) {
+        throw new Error('WHISPER_CPP_MODEL must point at a ggml model file');
+      }
+      await execFileAsync(this.command, ['--help'], { timeout: 5000 });
+      this.isAvailable = true;
+      console.log('whisper.cpp available for speech-to-text');
+    } catch (error) {
+      console.log('whisper.cpp not available:', error.message);
+      this.isAvailable = false;
+    }
+    return this.isAvailable;
+  }
+
+  async transcribe(audioPath, { language } = {}) {
+    const outputDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whisper-cpp-'));
+    const outputBase = path.join(outputDir, 'transcript');
+
+    try {
+      await execFileAsync(this.command, [
+        '-m', this.model,
+        '-f', audioPath,
+        '-l', language ? language.split('-')[0] : 'auto',
+        '--no-prints',
+        // One word per segment, so segment offsets are word timings
+        '--max-len', '1',
+        '--split-on-word',
+        '--output-json-full',
+        '--output-file', outputBase
+      ], { timeout: 120000 });
+
+      const result = JSON.parse(await fs.promises.readFile(`${outputBase}.json`, 'utf8'));
+      const segments = result.transcription || [];
+      // Special tokens such as [_BEG_] carry no speech
+      const tokens = segments
+        .flatMap(segment => segment.tokens || [])
+        .filter(token => !token.text.startsWith('[_'));
+
+      const timings = segments
+        .map(segment => this.timing(segment.text, segment.offsets?.from / 1000, segment.offsets?.to / 1000))
+        .filter(Boolean);
+
+      return {
+        transcription: segments.map(segment => segment.text).join('').trim(),
+        confidence: this.averageConfidence(tokens.map(token => token.p)),
+        timings: timings.length > 0 ? timings : null,
+        language: result.result?.language || language || null
+      };
+    } finally {
+      await fs.promises.rm(outputDir, { recursive: true, force: true });
+    }
+  }
+}
+
+module.exports = WhisperCppEngine;
@@ -0,0 +1,70 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const BaseEngine = require('./BaseEngine');
+
+const execFileAsync = promisify(execFile);
+
+// OpenAI Whisper command line tool (pip install openai-whisper)
+class WhisperEngine extends BaseEngine {
+  constructor() {
+    super('whisper', 'Whisper CLI');
+    this.command = process.env.WHISPER_BIN || 'whisper';
+    this.model = process.env.WHISPER_MODEL || 'base';
+  }
+
+  async initialize() {
+    try {
+      await execFileAsync(this.command, ['--help'], { timeout: 5000 });
+      this.isAvailable = true;
+      console.log('Whisper CLI available for speech-to-text');
+    } catch (error) {
+      console.log('Whisper CLI not available:', error.message);
+      this.isAvailable = false;
+    }
+    return this.isAvailable;
+  }
+
+  // Whisper detects the spoken language itself when none is given
+  async transcribe(audioPath, { language } = {}) {
+    const outputDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+
+    try {
+      await execFileAsync(this.command, [
+        audioPath,
+        '--model', this.model,
+        ...(language ? ['--language', language.split('-')[0]] : []),
+        '--task', 'transcribe',
+        '--output_format', 'json',
+        '--word_timestamps', 'True',
+        '--output_dir', outputDir,
+        '--verbose', 'False'
+      ], { timeout: 120000 });
+
+      const baseName = path.basename(audioPath, path.extname(audioPath));
+      const result = JSON.parse(await fs.promises.readFile(path.join(outputDir, `${baseName}.json`), 'utf8'));
+      const segments = result.segments || [];
+
+      // Word timings when Whisper produced them, segment timings otherwise
+      const timings = segments
+        .flatMap(segment => (segment.words && segment.words.length > 0
+          ? segment.words.map(word => this.timing(word.word, word.start, word.end))
+          : [this.timing(segment.text, segment.start, segment.end)]))
+        .filter(Boolean);
+
+      return {
+        transcription: (result.text || '').trim(),
+        // avg_logprob is the mean log probability of a segment's tokens
+        confidence: this.averageConfidence(segments.map(segment => Math.exp(segment.avg_logprob))),
+        timings: timings.length > 0 ? timings : null,
+        language: result.language || language || null
+      };
+    } finally {
+      await fs.promises.rm(outputDir, { recursive: true, force: true });
+    }
+  }
+}
+
+module.exports = WhisperEngine;
@@ -0,0 +1,38 @@
+const BaseEngine = require('./BaseEngine');
+const GoogleEngine = require('./GoogleEngine');
+const WhisperEngine = require('./WhisperEngine');
+const WhisperCppEngine = require('./WhisperCppEngine');
+const FakeEngine = require('./FakeEngine');
+
+// Registry of engine name -> engine class.
+// New engines only need to extend BaseEngine and be registered here.
+const registry = new Map();
+
+const registerEngine = (name, EngineClass) => {
+  if (!(EngineClass.prototype instanceof BaseEngine)) {
+    throw new Error(`STT engine ${name} must extend BaseEngine`);
+  }
+  registry.set(name, EngineClass);
+};
+
+const createEngine = (name) => {
+  const EngineClass = registry.get(name);
+  if (!EngineClass) {
+    throw new Error(`Unknown STT engine: ${name}`);
+  }
+  return new EngineClass();
+};
+
+const getRegisteredEngines = () => Array.from(registry.keys());
+
+registerEngine('google', GoogleEngine);
+registerEngine('whisper', WhisperEngine);
+registerEngine('whisper-cpp', WhisperCppEngine);
+registerEngine('fake', FakeEngine);
+
+module.exports = {
+  BaseEngine,
+  registerEngine,
+  createEngine,
+  getRegisteredEngines
+};
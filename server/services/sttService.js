@@ -0,0 +1,192 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const { createEngine, getRegisteredEngines } = require('./stt');
+const languageService = require('./languageService');
+
+const execFileAsync = promisify(execFile);
+
+class SttService {
+  constructor() {
+    // Ordered list of engines to try, e.g. STT_ENGINES=whisper-cpp,google,fake.
+    // Each recording goes to the first engine that recognizes it.
+    this.engineOrder = (process.env.STT_ENGINES || 'google,whisper,whisper-cpp')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+    this.engines = new Map();
+    // Likely spoken language when the user has no preferences
+    this.defaultLanguage = process.env.STT_LANGUAGE || 'en-US';
+
+    this.initialized = this.initialize();
+  }
+
+  async initialize() {
+    for (const name of this.engineOrder) {
+      try {
+        const engine = createEngine(name);
+        if (await engine.initialize()) {
+          this.engines.set(name, engine);
+        }
+      } catch (error) {
+        console.log(`STT engine ${name} could not be set up:`, error.message);
+      }
+    }
+
+    if (this.engines.size === 0) {
+      console.log(`No speech-to-text engine available (tried: ${this.engineOrder.join(', ')})`);
+    }
+  }
+
+  async getStatus() {
+    await this.initialized;
+    return {
+      available: this.engines.size > 0,
+      engines: Array.from(this.engines.values()).map(engine => ({
+        name: engine.name,
+        displayName: engine.displayName
+      })),
+      registeredEngines: getRegisteredEngines(),
+      defaultLanguage: this.defaultLanguage
+    };
+  }
+
+  // Convert any recording (AAC/M4A from the app, WebM from the web build, ...)
+  // to 16 kHz mono 16-bit WAV, the format every engine is given
+  async normalize(audioFilePath) {
+    const outputPath = path.join(
+      os.tmpdir(),
+      `stt-${process.pid}-${Date.now()}-${Math.round(Math.random() * 1E9)}.wav`
+    );
+
+    await execFileAsync('ffmpeg', [
+      '-y',
+      '-loglevel', 'error',
+      '-i', audioFilePath,
+      '-ac', '1',
+      '-ar', '16000',
+      '-c:a', 'pcm_s16le',
+      outputPath
+    ], { timeout: 60000 });
+
+    return outputPath;
+  }
+
+  // Decode a compressed chunk of audio (talk mode streams short M4A/WebM
+  // recordings) to raw 16 kHz mono 16-bit samples
+  async decode(audio, extension = 'm4a') {
+    const inputPath = path.join(
+      os.tmpdir(),
+      `stt-${process.pid}-${Date.now()}-${Math.round(Math.random() * 1E9)}.${extension}`
+    );
+
+    try {
+      // MP4 needs a seekable input, so the chunk goes through a file, not stdin
+      await fs.promises.writeFile(inputPath, audio);
+      const { stdout } = await execFileAsync('ffmpeg', [
+        '-loglevel', 'error',
+        '-i', inputPath,
+        '-ac', '1',
+        '-ar', '16000',
+        '-f', 's16le',
+        'pipe:1'
+      ], { encoding: 'buffer', maxBuffer: 64 * 1024 * 1024, timeout: 30000 });
+      return stdout;
+    } finally {
+      await fs.promises.unlink(inputPath).catch(() => {});
+    }
+  }
+
+  // Transcribe a recording with the first engine that succeeds.
+  //
+  // Options:
+  //   language  - BCP-47 code of the spoken language; detected when not given
+  //   languages - likely languages for detection, most likely first
+  //               (default: STT_LANGUAGE or en-US)
+  //   engine    - only try this engine
+  //   normalized - the file is already 16 kHz mono 16-bit WAV
+  //
+  // Resolves with { success, transcription, confidence, timings, engine,
+  // language, processingTime } (see stt/BaseEngine.js), or
+  // { success: false, error, transcription: null } when no engine could
+  // transcribe it.
+  async transcribe(audioFilePath, { language, languages, engine: engineName, normalized = false } = {}) {
+    await this.initialized;
+    const startTime = Date.now();
+    const languageCode = languageService.normalize(language);
+    const candidates = (languages || []).map(code => languageService.normalize(code)).filter(Boolean);
+    if (candidates.length === 0) {
+      candidates.push(this.defaultLanguage);
+    }
+
+    if (!fs.existsSync(audioFilePath)) {
+      return { success: false, error: `Audio file not found: ${audioFilePath}`, transcription: null };
+    }
+
+    const engines = engineName
+      ? [this.engines.get(engineName)].filter(Boolean)
+      : Array.from(this.engines.values());
+
+    if (engines.length === 0) {
+      return {
+        success: false,
+        error: engineName
+          ? `Speech-to-text engine not available: ${engineName}`
+          : 'Speech-to-text services not available. Configure STT_ENGINES with Google Cloud, Whisper or whisper.cpp.',
+        transcription: null
+      };
+    }
+
+    let normalizedPath = null;
+    const errors = [];
+
+    try {
+      for (const engine of engines) {
+        try {
+          let audioPath = audioFilePath;
+          if (engine.needsNormalizedAudio && !normalized) {
+            normalizedPath = normalizedPath || await this.normalize(audioFilePath);
+            audioPath = normalizedPath;
+          }
+
+          const result = await engine.transcribe(audioPath, { language: languageCode, languages: candidates });
+          if (!result.transcription) {
+            throw new Error('Empty transcription result');
+          }
+
+          console.log(`Transcribed ${path.basename(audioFilePath)} with ${engine.displayName} in ${Date.now() - startTime}ms`);
+          return {
+            success: true,
+            transcription: result.transcription,
+            confidence: result.confidence,
+            timings: result.timings || null,
+            engine: engine.name,
+            // What the engine heard, else a guess from the words themselves
+            language: languageCode
+              || languageService.matchPreferred(languageService.normalize(result.language), candidates)
+              || languageService.detect(result.transcription, candidates)?.language
+              || null,
+            processingTime: Date.now() - startTime
+          };
+        } catch (error) {
+          console.log(`${engine.displayName} transcription failed:`, error.message);
+          errors.push(`${engine.name}: ${error.message}`);
+        }
+      }
+    } finally {
+      if (normalizedPath) {
+        await fs.promises.unlink(normalizedPath).catch(() => {});
+      }
+    }
+
+    return {
+      success: false,
+      error: `Transcription failed (${errors.join('; ')})`,
+      transcription: null
+    };
+  }
+}
+
+module.exports = new SttService();
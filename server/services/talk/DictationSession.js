@@ -0,0 +1,151 @@
+const { WebSocket } = require('ws');
+const { SAMPLE_RATE, BYTES_PER_MS, ENCODINGS, toPcm, transcribePcm } = require('./audio');
+
+// New audio needed before the recording is transcribed again
+const PARTIAL_INTERVAL_MS = 1000;
+
+// Longest recording kept; a held button is not meant for dictating essays
+const MAX_DURATION_MS = 2 * 60 * 1000;
+
+// Press-and-hold dictation over a WebSocket: the client streams the recording
+// while the button is held and gets partial transcripts back as it grows.
+// Nothing is saved; the final transcript goes back to the client to edit and
+// send as a normal message.
+//
+// Client messages (JSON unless noted):
+//   binary frame                      - raw 16 kHz mono 16-bit samples
+//   { type: 'audio', data, encoding } - base64 audio, encoding 'pcm' or a
+//                                       compressed format such as 'm4a'
+//   { type: 'finish' }                - the button was released
+//   { type: 'cancel' }                - the recording was thrown away
+//
+// Server messages: ready, partial, final, error. The socket is closed after
+// `final`.
+class DictationSession {
+  constructor(socket, { user }) {
+    this.socket = socket;
+    this.languages = user.preferences?.languages;
+    this.chunks = [];
+    this.bytes = 0;
+    this.audio = Promise.resolve(); // Chunks are decoded in order
+    this.partial = null;
+    this.partialBytes = 0;
+    this.done = false;
+
+    socket.on('message', (data, isBinary) => this.handleMessage(data, isBinary));
+    socket.on('close', () => {
+      this.done = true;
+    });
+
+    this.send('ready', {
+      sampleRate: SAMPLE_RATE,
+      encodings: ['pcm', ...ENCODINGS],
+      maxDuration: MAX_DURATION_MS / 1000
+    });
+  }
+
+  send(type, data = {}) {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type, ...data }));
+    }
+  }
+
+  handleMessage(data, isBinary) {
+    if (isBinary) {
+      return this.queueAudio(data, 'pcm');
+    }
+
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return this.send('error', { message: 'Messages must be JSON or binary audio' });
+    }
+
+    switch (message.type) {
+      case 'audio':
+        if (typeof message.data !== 'string') {
+          return this.send('error', { message: 'Audio data must be a base64 string' });
+        }
+        return this.queueAudio(Buffer.from(message.data, 'base64'), message.encoding || 'pcm');
+      case 'finish':
+        this.audio = this.audio.then(() => this.finish());
+        return;
+      case 'cancel':
+        this.done = true;
+        return this.socket.close(1000, 'Cancelled');
+      default:
+        return this.send('error', { message: `Unknown message type: ${message.type}` });
+    }
+  }
+
+  queueAudio(audio, encoding) {
+    this.audio = this.audio
+      .then(() => this.processAudio(audio, encoding))
+      .catch(error => {
+        console.error('Dictation audio error:', error.message);
+        this.send('error', { message: 'Could not process audio', error: error.message });
+      });
+  }
+
+  async processAudio(audio, encoding) {
+    if (this.done) return;
+
+    const pcm = await toPcm(audio, encoding);
+    this.chunks.push(pcm);
+    this.bytes += pcm.length;
+
+    if (this.bytes >= MAX_DURATION_MS * BYTES_PER_MS) {
+      this.send('error', { message: 'Recording is too long' });
+      return this.finish();
+    }
+
+    this.transcribePartial();
+  }
+
+  // Transcribe the recording so far, at most one transcription at a time
+  transcribePartial() {
+    if (this.partial || this.bytes - this.partialBytes < PARTIAL_INTERVAL_MS * BYTES_PER_MS) return;
+
+    this.partialBytes = this.bytes;
+    this.partial = transcribePcm(Buffer.concat(this.chunks), { languages: this.languages })
+      .then(result => {
+        if (result.success && !this.done) {
+          this.send('partial', { text: result.transcription });
+        }
+      })
+      .catch(error => console.log('Partial transcription failed:', error.message))
+      .finally(() => {
+        this.partial = null;
+      });
+  }
+
+  async finish() {
+    if (this.done) return;
+    this.done = true;
+
+    // A partial still running must not arrive after the final transcript
+    await this.partial;
+
+    if (this.bytes === 0) {
+      this.send('final', { text: null, error: 'Nothing was recorded' });
+    } else {
+      const result = await transcribePcm(Buffer.concat(this.chunks), { languages: this.languages })
+        .catch(error => ({ success: false, error: error.message }));
+
+      this.send('final', result.success ? {
+        text: result.transcription,
+        language: result.language,
+        confidence: result.confidence,
+        engine: result.engine
+      } : {
+        text: null,
+        error: result.error
+      });
+    }
+
+    this.socket.close(1000, 'Done');
+  }
+}
+
+module.exports = DictationSession;
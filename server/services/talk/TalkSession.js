@@ -0,0 +1,390 @@
+const fs = require('fs');
+const path = require('path');
+const { WebSocket } = require('ws');
+const ChatSession = require('../../models/ChatSession');
+const Message = require('../../models/Message');
+const sttService = require('../sttService');
+const ttsService = require('../ttsService');
+const voiceService = require('../voiceService');
+const replyService = require('../replyService');
+const languageService = require('../languageService');
+const VoiceActivityDetector = require('./VoiceActivityDetector');
+const { SAMPLE_RATE, BYTES_PER_MS, ENCODINGS, wavHeader, toPcm, transcribePcm } = require('./audio');
+
+// Recordings are saved next to uploaded voice messages, named the same way
+const VOICE_DIR = path.join(__dirname, '../../uploads/voice');
+
+// New audio needed before the utterance in progress is transcribed again
+const PARTIAL_INTERVAL_MS = 1500;
+
+// How much louder than usual the user must be to talk over the reply, so
+// the reply coming out of the speaker does not interrupt itself
+const PLAYBACK_MARGIN_DB = 10;
+
+// Reply text is spoken a sentence at a time, as soon as each one is complete
+const SENTENCE_END = /[.!?。！？]+(?:\s+|$)|\n+/;
+
+// One hands-free conversation over a WebSocket.
+//
+// The client streams microphone audio; voice activity detection cuts it into
+// utterances. Each utterance is transcribed and saved as a voice message,
+// answered like a typed message, and the reply is streamed back as text and
+// as speech, one sentence at a time. Speaking over the reply (or sending
+// `interrupt`) stops it; whatever was generated so far is kept.
+//
+// Client messages (JSON unless noted):
+//   binary frame                     - raw 16 kHz mono 16-bit samples
+//   { type: 'audio', data, encoding } - base64 audio, encoding 'pcm' or a
+//                                      compressed format such as 'm4a'
+//   { type: 'end_of_speech' }        - the user is done; finish the utterance
+//   { type: 'interrupt' }            - stop the reply
+//   { type: 'playback', playing }    - whether reply audio is playing
+//
+// Server messages: ready, state, speech_start, speech_end, partial,
+// transcript, user_message, token, speech, ai_message, speech_done,
+// interrupted, error.
+class TalkSession {
+  constructor(socket, { user, session, replyLanguage }) {
+    this.socket = socket;
+    this.user = user;
+    this.sessionId = session._id;
+    this.preferences = user.preferences || {};
+    this.replyLanguage = replyLanguage;
+
+    this.vad = new VoiceActivityDetector();
+    this.state = 'listening'; // listening, thinking or speaking
+    this.turn = 0; // Advanced by every utterance and interruption; older work is dropped
+    this.utterance = 0; // Advanced when speech starts; older partial transcripts are dropped
+    this.audio = Promise.resolve(); // Chunks are decoded and analyzed in order
+    this.turns = Promise.resolve(); // Utterances are answered in order
+    this.abortController = null; // For the reply being generated
+    this.partial = null;
+    this.partialBytes = 0;
+    this.playing = false;
+    this.closed = false;
+
+    socket.on('message', (data, isBinary) => this.handleMessage(data, isBinary));
+    socket.on('close', () => this.close());
+
+    this.send('ready', {
+      sessionId: this.sessionId,
+      sampleRate: SAMPLE_RATE,
+      encodings: ['pcm', ...ENCODINGS]
+    });
+  }
+
+  send(type, data = {}) {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type, ...data }));
+    }
+  }
+
+  setState(state) {
+    if (this.state === state) return;
+    this.state = state;
+    this.send('state', { state });
+  }
+
+  handleMessage(data, isBinary) {
+    if (isBinary) {
+      return this.queueAudio(data, 'pcm');
+    }
+
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return this.send('error', { message: 'Messages must be JSON or binary audio' });
+    }
+
+    switch (message.type) {
+      case 'audio':
+        if (typeof message.data !== 'string') {
+          return this.send('error', { message: 'Audio data must be a base64 string' });
+        }
+        return this.queueAudio(Buffer.from(message.data, 'base64'), message.encoding || 'pcm');
+      case 'end_of_speech':
+        this.audio = this.audio.then(() => {
+          const event = this.vad.flush();
+          if (event) this.handleVoiceEvent(event);
+        });
+        return;
+      case 'interrupt':
+        return this.interrupt();
+      case 'playback':
+        return this.setPlaying(!!message.playing);
+      default:
+        return this.send('error', { message: `Unknown message type: ${message.type}` });
+    }
+  }
+
+  queueAudio(audio, encoding) {
+    this.audio = this.audio
+      .then(() => this.processAudio(audio, encoding))
+      .catch(error => {
+        console.error('Talk mode audio error:', error.message);
+        this.send('error', { message: 'Could not process audio', error: error.message });
+      });
+  }
+
+  async processAudio(audio, encoding) {
+    if (this.closed) return;
+
+    const pcm = await toPcm(audio, encoding);
+    for (const event of this.vad.push(pcm)) {
+      this.handleVoiceEvent(event);
+    }
+
+    if (this.vad.speaking) {
+      this.transcribePartial();
+    }
+  }
+
+  handleVoiceEvent(event) {
+    if (event.type === 'start') {
+      this.utterance += 1;
+      this.partialBytes = 0;
+      this.send('speech_start');
+      // Barge-in: the user talks over the reply
+      this.interrupt();
+    } else if (event.type === 'discard') {
+      this.send('speech_end', { discarded: true });
+    } else if (event.type === 'end') {
+      this.send('speech_end', { discarded: false });
+      const turn = ++this.turn;
+      this.setState('thinking');
+      this.turns = this.turns.then(() => this.respond(event.audio, turn)).catch(error => {
+        console.error('Talk mode error:', error);
+        this.send('error', { message: 'Error answering', error: error.message });
+        if (turn === this.turn) this.setState('listening');
+      });
+    }
+  }
+
+  // Stop the reply being generated or played, if any
+  interrupt() {
+    if (this.state === 'listening' && !this.playing) return;
+
+    this.turn += 1;
+    if (this.abortController) {
+      this.abortController.abort();
+    }
+    this.send('interrupted');
+    this.setState('listening');
+  }
+
+  setPlaying(playing) {
+    this.playing = playing;
+    this.vad.extraMargin = playing ? PLAYBACK_MARGIN_DB : 0;
+
+    // The client played everything it was sent
+    if (!playing && this.state === 'speaking') {
+      this.setState('listening');
+    }
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.turn += 1;
+    if (this.abortController) {
+      this.abortController.abort();
+    }
+    this.vad.reset();
+  }
+
+  // Transcribe the utterance so far, at most one transcription at a time
+  transcribePartial() {
+    const audio = this.vad.current();
+    if (this.partial || audio.length - this.partialBytes < PARTIAL_INTERVAL_MS * BYTES_PER_MS) return;
+
+    this.partialBytes = audio.length;
+    const utterance = this.utterance;
+
+    this.partial = transcribePcm(audio, { languages: this.preferences.languages })
+      .then(result => {
+        if (result.success && utterance === this.utterance && this.vad.speaking) {
+          this.send('partial', { text: result.transcription });
+        }
+      })
+      .catch(error => console.log('Partial transcription failed:', error.message))
+      .finally(() => {
+        this.partial = null;
+      });
+  }
+
+  // Save an utterance under uploads/voice, described like a multer upload
+  async saveRecording(audio) {
+    await fs.promises.mkdir(VOICE_DIR, { recursive: true });
+    const filename = `voice-${Date.now()}-${Math.round(Math.random() * 1E9)}.wav`;
+    const filePath = path.join(VOICE_DIR, filename);
+    const data = Buffer.concat([wavHeader(audio.length), audio]);
+    await fs.promises.writeFile(filePath, data);
+
+    return {
+      path: filePath,
+      filename,
+      originalname: 'talk-mode.wav',
+      size: data.length,
+      mimetype: 'audio/wav'
+    };
+  }
+
+  // Transcribe and save an utterance, then answer it unless the user has
+  // started talking again since
+  async respond(audio, turn) {
+    const recording = await this.saveRecording(audio);
+    const transcription = await sttService.transcribe(recording.path, {
+      languages: this.preferences.languages,
+      normalized: true
+    });
+
+    if (!transcription.success) {
+      console.log('Talk mode transcription failed:', transcription.error);
+      await fs.promises.unlink(recording.path).catch(() => {});
+      this.send('transcript', { text: null, error: transcription.error });
+      if (turn === this.turn) this.setState('listening');
+      return;
+    }
+
+    this.send('transcript', { text: transcription.transcription, language: transcription.language });
+
+    const session = await ChatSession.findOne({ _id: this.sessionId, user: this.user._id });
+    if (!session) {
+      await fs.promises.unlink(recording.path).catch(() => {});
+      this.send('error', { message: 'Chat session not found' });
+      this.socket.close(4404, 'Chat session not found');
+      return;
+    }
+
+    const voice = await voiceService.ingest(recording, { transcription });
+
+    // New turns continue the active branch
+    const parent = await replyService.branchParent(session);
+
+    const userMessage = new Message({
+      session: session._id,
+      user: this.user._id,
+      parent,
+      content: voice.transcription,
+      isUserMessage: true,
+      messageType: 'voice',
+      metadata: { ...voice.metadata, language: voice.language }
+    });
+    await userMessage.save();
+
+    session.messageCount += 1;
+    session.activeLeaf = userMessage._id;
+    await session.updateActivity();
+
+    this.send('user_message', { userMessage });
+
+    if (turn !== this.turn) return;
+    await this.reply(session, userMessage, turn);
+  }
+
+  async reply(session, userMessage, turn) {
+    const language = languageService.resolveReplyLanguage({
+      override: this.replyLanguage,
+      preferences: this.preferences,
+      messageLanguage: userMessage.metadata.language
+    });
+
+    // Sentences are synthesized one after another so they arrive in order
+    let speech = Promise.resolve();
+    let spoken = 0;
+    const speak = (text) => {
+      if (!text.trim()) return;
+      const index = spoken++;
+      speech = speech.then(() => this.speak(text.trim(), index, turn, language));
+    };
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    let streamedContent = '';
+    let unspoken = '';
+    let reply = null;
+
+    try {
+      reply = await replyService.generate({
+        sessionId: session._id,
+        userId: this.user._id,
+        userMessage,
+        preferences: this.preferences,
+        replyLanguage: language,
+        options: {
+          onChunk: (delta) => {
+            streamedContent += delta;
+            unspoken += delta;
+            this.send('token', { delta });
+
+            let match;
+            while ((match = SENTENCE_END.exec(unspoken))) {
+              const end = match.index + match[0].length;
+              speak(unspoken.substring(0, end));
+              unspoken = unspoken.substring(end);
+            }
+          },
+          signal: abortController.signal
+        }
+      });
+    } catch (error) {
+      console.error('Error generating talk mode reply:', error);
+    } finally {
+      if (this.abortController === abortController) {
+        this.abortController = null;
+      }
+    }
+
+    let content; // Set when the reply was cut short
+    let completionStatus = 'complete';
+
+    // Keep whatever was said before the user interrupted or the provider failed
+    if (abortController.signal.aborted) {
+      if (!streamedContent.trim()) return;
+      content = streamedContent;
+      completionStatus = 'cancelled';
+    } else if (!reply?.aiResult.success && streamedContent.trim()) {
+      content = streamedContent;
+      completionStatus = 'partial';
+    }
+
+    const aiResponse = await replyService.saveReply({ session, userMessage, reply, content, completionStatus, language });
+
+    if (!abortController.signal.aborted) {
+      // Providers that do not stream hand over the whole reply at the end
+      speak(streamedContent ? unspoken : aiResponse.content);
+    }
+
+    this.send('ai_message', { aiResponse });
+
+    await speech;
+    if (turn !== this.turn) return;
+    this.send('speech_done', { count: spoken });
+    this.setState(spoken > 0 && this.playing ? 'speaking' : 'listening');
+  }
+
+  // Send one sentence of the reply as audio. Without server speech the
+  // sentence is sent with no URL, and the client reads it out itself.
+  async speak(text, index, turn, language) {
+    if (turn !== this.turn) return;
+
+    let audio = null;
+    try {
+      audio = await ttsService.synthesize(text, { language, format: 'mp3' });
+    } catch (error) {
+      console.log('Talk mode speech unavailable:', error.message);
+    }
+
+    if (turn !== this.turn) return;
+    this.send('speech', {
+      index,
+      text,
+      language,
+      url: audio?.url || null,
+      fileName: audio?.fileName || null
+    });
+  }
+}
+
+module.exports = TalkSession;
@@ -0,0 +1,144 @@
+const SAMPLE_RATE = 16000;
+const BYTES_PER_SAMPLE = 2;
+const FRAME_MS = 30;
+const FRAME_BYTES = (SAMPLE_RATE * FRAME_MS / 1000) * BYTES_PER_SAMPLE;
+
+// Energy-based voice activity detection on 16 kHz mono 16-bit PCM.
+//
+// Each 30 ms frame counts as speech when it is clearly louder than the
+// background noise, which is tracked while nobody speaks. An utterance starts
+// after a few loud frames in a row and ends after a stretch of silence; a
+// little audio from before the start is kept so first syllables are not cut.
+class VoiceActivityDetector {
+  constructor({
+    startFrames = 3, // ~90 ms of speech starts an utterance
+    endSilenceMs = 800,
+    preRollMs = 300,
+    minSpeechMs = 250, // Shorter blips (a cough, a click) are dropped
+    maxUtteranceMs = 30000,
+    minLevel = -45, // dBFS a frame must reach to count as speech
+    noiseMargin = 12 // dB above the background noise
+  } = {}) {
+    this.startFrames = startFrames;
+    this.endSilenceFrames = Math.ceil(endSilenceMs / FRAME_MS);
+    this.preRollFrames = Math.ceil(preRollMs / FRAME_MS);
+    this.minSpeechFrames = Math.ceil(minSpeechMs / FRAME_MS);
+    this.maxUtteranceFrames = Math.ceil(maxUtteranceMs / FRAME_MS);
+    this.minLevel = minLevel;
+    this.noiseMargin = noiseMargin;
+
+    // Raised while the reply is playing, so the speaker's own echo does not
+    // count as the user talking over it
+    this.extraMargin = 0;
+    this.noiseLevel = -60;
+    this.pending = Buffer.alloc(0); // Samples short of a whole frame
+    this.reset();
+  }
+
+  // Forget the utterance in progress
+  reset() {
+    this.preRoll = [];
+    this.frames = [];
+    this.inSpeech = false;
+    this.voicedRun = 0;
+    this.silentRun = 0;
+    this.speechFrames = 0;
+  }
+
+  get speaking() {
+    return this.inSpeech;
+  }
+
+  // Audio of the utterance in progress, for partial transcripts
+  current() {
+    return Buffer.concat(this.frames);
+  }
+
+  level(frame) {
+    let sum = 0;
+    for (let offset = 0; offset < frame.length; offset += BYTES_PER_SAMPLE) {
+      const sample = frame.readInt16LE(offset) / 32768;
+      sum += sample * sample;
+    }
+    const rms = Math.sqrt(sum / (frame.length / BYTES_PER_SAMPLE));
+    return rms > 0 ? 20 * Math.log10(rms) : -100;
+  }
+
+  isVoiced(level) {
+    return level >= Math.max(this.minLevel, this.noiseLevel + this.noiseMargin) + this.extraMargin;
+  }
+
+  // Feed raw samples. Returns the events they caused, in order:
+  //   { type: 'start' }
+  //   { type: 'end', audio }  - audio is the utterance's PCM
+  //   { type: 'discard' }     - what started was too short to be speech
+  push(pcm) {
+    const events = [];
+    this.pending = Buffer.concat([this.pending, pcm]);
+
+    while (this.pending.length >= FRAME_BYTES) {
+      const frame = this.pending.subarray(0, FRAME_BYTES);
+      this.pending = this.pending.subarray(FRAME_BYTES);
+      const event = this.processFrame(Buffer.from(frame));
+      if (event) events.push(event);
+    }
+
+    return events;
+  }
+
+  processFrame(frame) {
+    const level = this.level(frame);
+    const voiced = this.isVoiced(level);
+
+    if (!this.inSpeech) {
+      // Follow the background slowly, and only while it is quiet
+      if (!voiced) {
+        this.noiseLevel = this.noiseLevel * 0.95 + level * 0.05;
+      }
+
+      this.preRoll.push(frame);
+      if (this.preRoll.length > this.preRollFrames + this.startFrames) {
+        this.preRoll.shift();
+      }
+
+      this.voicedRun = voiced ? this.voicedRun + 1 : 0;
+      if (this.voicedRun >= this.startFrames) {
+        this.inSpeech = true;
+        this.frames = this.preRoll;
+        this.preRoll = [];
+        this.speechFrames = this.voicedRun;
+        this.silentRun = 0;
+        return { type: 'start' };
+      }
+      return null;
+    }
+
+    this.frames.push(frame);
+    if (voiced) {
+      this.speechFrames += 1;
+      this.silentRun = 0;
+    } else {
+      this.silentRun += 1;
+    }
+
+    if (this.silentRun >= this.endSilenceFrames || this.frames.length >= this.maxUtteranceFrames) {
+      return this.finish();
+    }
+    return null;
+  }
+
+  // End the utterance in progress now (the client stopped sending audio)
+  flush() {
+    return this.inSpeech ? this.finish() : null;
+  }
+
+  finish() {
+    // Trailing silence is not part of the utterance
+    const audio = Buffer.concat(this.frames.slice(0, this.frames.length - this.silentRun));
+    const enoughSpeech = this.speechFrames >= this.minSpeechFrames;
+    this.reset();
+    return enoughSpeech ? { type: 'end', audio } : { type: 'discard' };
+  }
+}
+
+module.exports = VoiceActivityDetector;
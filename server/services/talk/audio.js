@@ -0,0 +1,66 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const sttService = require('../sttService');
+
+// Audio from the microphone is handled as raw 16 kHz mono 16-bit samples
+const SAMPLE_RATE = 16000;
+const BYTES_PER_MS = SAMPLE_RATE * 2 / 1000;
+
+// Compressed chunk formats that are decoded with ffmpeg; raw samples ('pcm')
+// are used as they are
+const ENCODINGS = ['m4a', 'mp4', 'aac', 'webm', 'ogg', 'wav', 'mp3'];
+
+const wavHeader = (dataSize) => {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // PCM chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28); // Byte rate
+  header.writeUInt16LE(2, 32); // Block align
+  header.writeUInt16LE(16, 34); // Bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(dataSize, 40);
+  return header;
+};
+
+// Raw samples of a chunk a client sent
+const toPcm = async (audio, encoding) => {
+  const format = String(encoding).toLowerCase();
+  if (format === 'pcm') {
+    return audio;
+  }
+  if (ENCODINGS.includes(format)) {
+    return sttService.decode(audio, format);
+  }
+  throw new Error(`Unsupported audio encoding: ${encoding}`);
+};
+
+// Transcribe raw samples through a temporary WAV file
+const transcribePcm = async (pcm, options = {}) => {
+  const filePath = path.join(
+    os.tmpdir(),
+    `talk-${process.pid}-${Date.now()}-${Math.round(Math.random() * 1E9)}.wav`
+  );
+
+  try {
+    await fs.promises.writeFile(filePath, Buffer.concat([wavHeader(pcm.length), pcm]));
+    return await sttService.transcribe(filePath, { ...options, normalized: true });
+  } finally {
+    await fs.promises.unlink(filePath).catch(() => {});
+  }
+};
+
+module.exports = {
+  SAMPLE_RATE,
+  BYTES_PER_MS,
+  ENCODINGS,
+  wavHeader,
+  toPcm,
+  transcribePcm
+};
@@ -0,0 +1,142 @@
+const http = require('http');
+const mongoose = require('mongoose');
+const jwt = require('jsonwebtoken');
+const { WebSocketServer } = require('ws');
+const User = require('../models/User');
+const ChatSession = require('../models/ChatSession');
+const TalkSession = require('./talk/TalkSession');
+const DictationSession = require('./talk/DictationSession');
+
+// ws://host:port/api/chat/talk?sessionId=...&token=...[&replyLanguage=...]
+const TALK_PATH = '/api/chat/talk';
+// ws://host:port/api/chat/dictate?token=...
+const DICTATE_PATH = '/api/chat/dictate';
+
+// Connections that stop answering pings are dropped after this long
+const HEARTBEAT_INTERVAL = 30000;
+
+// Audio arrives in chunks of a second or so; anything far bigger is a mistake
+const MAX_MESSAGE_SIZE = 2 * 1024 * 1024;
+
+const rejectWith = (statusCode, message) => Object.assign(new Error(message), { statusCode });
+
+class TalkService {
+  constructor() {
+    this.wss = null;
+  }
+
+  // Serve talk mode and dictation on the HTTP server the API runs on
+  attach(server) {
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_SIZE });
+
+    server.on('upgrade', (req, socket, head) => {
+      const url = new URL(req.url, 'http://localhost');
+      if (url.pathname !== TALK_PATH && url.pathname !== DICTATE_PATH) {
+        return this.reject(socket, 404, `Route ${url.pathname} not found`);
+      }
+      const dictation = url.pathname === DICTATE_PATH;
+
+      this.authenticate(req, url, { needsSession: !dictation })
+        .then(({ user, session }) => {
+          this.wss.handleUpgrade(req, socket, head, (ws) => {
+            ws.isAlive = true;
+            ws.on('pong', () => {
+              ws.isAlive = true;
+            });
+
+            if (dictation) {
+              new DictationSession(ws, { user });
+              return;
+            }
+
+            console.log(`Talk mode started for session ${session._id}`);
+            ws.on('close', () => console.log(`Talk mode ended for session ${session._id}`));
+
+            new TalkSession(ws, {
+              user,
+              session,
+              replyLanguage: url.searchParams.get('replyLanguage') || undefined
+            });
+          });
+        })
+        .catch(error => {
+          if (!error.statusCode) {
+            console.error('Error starting talk mode:', error);
+          }
+          this.reject(socket, error.statusCode || 500, error.statusCode ? error.message : 'Error starting talk mode');
+        });
+    });
+
+    const heartbeat = setInterval(() => {
+      this.wss.clients.forEach(ws => {
+        if (!ws.isAlive) {
+          return ws.terminate();
+        }
+        ws.isAlive = false;
+        ws.ping();
+      });
+    }, HEARTBEAT_INTERVAL);
+    heartbeat.unref();
+  }
+
+  // Same checks as the protect and userOnly middleware. Browsers cannot set
+  // headers on a WebSocket, so the token may also come in the query string.
+  // Talk mode also needs one of the user's chat sessions to save to.
+  async authenticate(req, url, { needsSession = true } = {}) {
+    let token = url.searchParams.get('token');
+    if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
+      token = req.headers.authorization.split(' ')[1];
+    }
+
+    if (!token) {
+      throw rejectWith(401, 'Not authorized, no token');
+    }
+
+    let decoded;
+    try {
+      decoded = jwt.verify(token, process.env.JWT_SECRET);
+    } catch {
+      throw rejectWith(401, 'Not authorized, token failed');
+    }
+
+    const user = await User.findById(decoded.id).select('-password');
+    if (!user) {
+      throw rejectWith(401, 'Not authorized, user not found');
+    }
+    if (!user.isActive) {
+      throw rejectWith(401, 'User account is deactivated');
+    }
+    if (user.role !== 'user') {
+      throw rejectWith(403, 'This endpoint is for regular users only');
+    }
+
+    if (!needsSession) {
+      return { user, session: null };
+    }
+
+    const sessionId = url.searchParams.get('sessionId');
+    const session = mongoose.isValidObjectId(sessionId)
+      ? await ChatSession.findOne({ _id: sessionId, user: user._id })
+      : null;
+    if (!session) {
+      throw rejectWith(404, 'Chat session not found');
+    }
+
+    return { user, session };
+  }
+
+  // Answer an upgrade request with a plain HTTP error
+  reject(socket, statusCode, message) {
+    const body = JSON.stringify({ success: false, message });
+    socket.write(
+      `HTTP/1.1 ${statusCode} ${http.STATUS_CODES[statusCode]}\r\n` +
+      'Content-Type: application/json\r\n' +
+      `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+      'Connection: close\r\n\r\n' +
+      body
+    );
+    socket.destroy();
+  }
+}
+
+module.exports = new TalkService();
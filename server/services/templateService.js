@@ -0,0 +1,185 @@
+const languageService = require('./languageService');
+
+// Prompt templates declare the variables the user fills in when picking them:
+//   { name, label, type, options, default, required }
+// where type is text, number, language (a BCP-47 code, written into the
+// prompt by name) or enum (one of `options`). The text uses them as {name}.
+// Only {prompt}, {user_prompt} and declared variables are filled in; any
+// other braces (JSON, code samples) are left as written.
+const PROMPT_NAMES = ['prompt', 'user_prompt'];
+const TYPES = ['text', 'number', 'language', 'enum'];
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const MAX_VARIABLES = 10;
+const MAX_TEXT_LENGTH = 200;
+
+// "target_audience" -> "Target audience"
+const toLabel = (name) => {
+  const words = name.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Values go into a prompt on one line, without control characters
+const cleanText = (value) => String(value).replace(/[\u0000-\u001f\u007f]+/g, ' ').trim();
+
+// {name} for any of the names, which are identifiers and need no escaping
+const placeholderPattern = (names) => new RegExp(`\\{(${names.join('|')})\\}`, 'g');
+
+class TemplateService {
+  // Check the variables a template declares and put them in canonical form:
+  // labels filled in, options without duplicates, defaults coerced. Returns
+  // { variables, errors }; templates with errors cannot be saved.
+  checkVariables(templateText = '', declared = []) {
+    if (!declared) {
+      return { variables: [], errors: [] };
+    }
+    if (!Array.isArray(declared)) {
+      return { variables: [], errors: ['Variables must be a list'] };
+    }
+
+    const variables = [];
+    const errors = [];
+
+    if (declared.length > MAX_VARIABLES) {
+      errors.push(`A template can have at most ${MAX_VARIABLES} variables`);
+    }
+
+    declared.forEach((entry, index) => {
+      const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+      if (!NAME_PATTERN.test(name)) {
+        errors.push(`Variable ${index + 1}: names use letters, digits and _ and don't start with a digit`);
+        return;
+      }
+      if (PROMPT_NAMES.includes(name)) {
+        errors.push(`{${name}} is the user's message and can't be a variable`);
+        return;
+      }
+      if (variables.some(variable => variable.name === name)) {
+        errors.push(`{${name}} is declared twice`);
+        return;
+      }
+
+      const type = entry.type || 'text';
+      if (!TYPES.includes(type)) {
+        errors.push(`{${name}}: unknown type "${type}" (use ${TYPES.join(', ')})`);
+        return;
+      }
+
+      const variable = {
+        name,
+        label: cleanText(entry.label ?? '').substring(0, MAX_TEXT_LENGTH) || toLabel(name),
+        type,
+        required: entry.required !== false
+      };
+
+      if (type === 'enum') {
+        const options = Array.isArray(entry.options) ? entry.options.map(cleanText).filter(Boolean) : [];
+        variable.options = [...new Set(options)];
+        if (variable.options.length < 2) {
+          errors.push(`{${name}}: give at least two options`);
+          return;
+        }
+      }
+
+      if (entry.default !== undefined && entry.default !== null && cleanText(entry.default) !== '') {
+        const { value, error } = this.coerce(variable, entry.default);
+        if (error) {
+          errors.push(`{${name}}: default ${error}`);
+          return;
+        }
+        variable.default = value;
+        variable.required = false;
+      }
+
+      if (!placeholderPattern([name]).test(templateText)) {
+        errors.push(`{${name}} is declared but not used in the template`);
+        return;
+      }
+
+      variables.push(variable);
+    });
+
+    return { variables, errors };
+  }
+
+  // A value for a variable in its canonical form: the matching option, a
+  // number, a BCP-47 code. Returns { value } or { error }.
+  coerce(variable, raw) {
+    const text = cleanText(raw);
+
+    switch (variable.type) {
+      case 'enum': {
+        const option = variable.options.find(entry => entry.toLowerCase() === text.toLowerCase());
+        return option ? { value: option } : { error: `must be one of ${variable.options.join(', ')}` };
+      }
+      case 'number': {
+        const number = Number(text);
+        return text && Number.isFinite(number) ? { value: String(number) } : { error: 'must be a number' };
+      }
+      case 'language': {
+        // Only languages that have a name; Intl accepts any well-formed tag
+        const code = languageService.normalize(text);
+        const base = languageService.baseLanguage(code);
+        return code && languageService.getName(base) !== base
+          ? { value: code }
+          : { error: 'must be a language code such as en-US' };
+      }
+      default:
+        return text.length <= MAX_TEXT_LENGTH
+          ? { value: text }
+          : { error: `must be at most ${MAX_TEXT_LENGTH} characters` };
+    }
+  }
+
+  // Check values given for a template's variables and fill in defaults.
+  // Returns { values, errors }: values has an entry for every variable that
+  // has a value, errors one message per missing or invalid value. Values for
+  // names the template doesn't declare are dropped.
+  resolveValues(variables = [], given = {}) {
+    const values = {};
+    const errors = [];
+
+    for (const variable of variables) {
+      const label = variable.label || toLabel(variable.name);
+      const raw = given?.[variable.name];
+      if (raw === undefined || raw === null || cleanText(raw) === '') {
+        if (variable.default !== undefined) {
+          values[variable.name] = variable.default;
+        } else if (variable.required) {
+          errors.push(`${label} is required`);
+        }
+        continue;
+      }
+
+      const { value, error } = this.coerce(variable, raw);
+      if (error) {
+        errors.push(`${label} ${error}`);
+      } else {
+        values[variable.name] = value;
+      }
+    }
+
+    return { values, errors };
+  }
+
+  // Fill in a template in one pass, so nothing a value contains is expanded
+  // again. Variables without a valid value are left out; languages are
+  // written by name. Templates without {prompt} get the user's message
+  // appended.
+  render(templateText, userPrompt, variables = [], given = {}) {
+    const { values } = this.resolveValues(variables, given);
+    const types = new Map(variables.map(variable => [variable.name, variable.type]));
+    const hasPromptPlaceholder = placeholderPattern(PROMPT_NAMES).test(templateText);
+
+    const rendered = templateText.replace(placeholderPattern([...PROMPT_NAMES, ...types.keys()]), (placeholder, name) => {
+      if (PROMPT_NAMES.includes(name)) return userPrompt;
+
+      const value = values[name] ?? '';
+      return types.get(name) === 'language' && value ? languageService.getName(value) : value;
+    });
+
+    return hasPromptPlaceholder ? rendered : `${rendered}\n\nUser Query: ${userPrompt}`;
+  }
+}
+
+module.exports = new TemplateService();
@@ -0,0 +1,71 @@
+const { spawn } = require('child_process');
+
+// Contract every text-to-speech engine implements. Engines write a WAV file;
+// TtsService takes care of caching and converting to other formats.
+class BaseEngine {
+  constructor(name, displayName) {
+    this.name = name;
+    this.displayName = displayName || name;
+    this.isAvailable = false;
+  }
+
+  // Check that the engine can run and set isAvailable. Must not throw.
+  async initialize() {
+    this.isAvailable = false;
+    return this.isAvailable;
+  }
+
+  // Voices the engine can speak with: [{ id, name, language }]
+  getVoices() {
+    return [];
+  }
+
+  getDefaultVoice() {
+    return this.getVoices()[0]?.id || null;
+  }
+
+  // Write `text` as speech to the WAV file at outputPath. `rate` is a speed
+  // multiplier where 1 is the voice's normal speed.
+  async synthesize(text, outputPath, { voice, rate = 1 } = {}) {
+    throw new Error(`${this.displayName} does not support speech synthesis`);
+  }
+
+  // Shared helpers
+
+  // Run a command, feeding `input` on stdin. Resolves with stdout; rejects
+  // on a non-zero exit code or after `timeout` milliseconds.
+  runCommand(command, args = [], { input = null, timeout = 60000 } = {}) {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      let stdout = '';
+      let stderr = '';
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new Error(`${command} timed out after ${timeout}ms`));
+      }, timeout);
+
+      child.stdout.on('data', (chunk) => { stdout += chunk; });
+      child.stderr.on('data', (chunk) => { stderr += chunk; });
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+
+      if (input !== null) {
+        child.stdin.write(input);
+      }
+      child.stdin.end();
+    });
+  }
+}
+
+module.exports = BaseEngine;
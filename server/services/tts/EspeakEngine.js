@@ -0,0 +1,59 @@
+const BaseEngine = require('./BaseEngine');
+
+// Words per minute at rate 1 (eSpeak's own default)
+const DEFAULT_WPM = 175;
+
+// eSpeak NG (or classic eSpeak): small, robotic, but available everywhere
+class EspeakEngine extends BaseEngine {
+  constructor() {
+    super('espeak', 'eSpeak');
+    this.command = process.env.ESPEAK_BIN || null;
+    this.voices = [];
+  }
+
+  async initialize() {
+    const candidates = this.command ? [this.command] : ['espeak-ng', 'espeak'];
+
+    for (const command of candidates) {
+      try {
+        const output = await this.runCommand(command, ['--voices'], { timeout: 5000 });
+        this.command = command;
+        this.voices = this.parseVoices(output);
+        this.isAvailable = true;
+        console.log(`eSpeak TTS available (${command}) with ${this.voices.length} voice(s)`);
+        return this.isAvailable;
+      } catch (error) {
+        console.log(`eSpeak TTS not available (${command}):`, error.message);
+      }
+    }
+
+    this.isAvailable = false;
+    return this.isAvailable;
+  }
+
+  // `--voices` prints a table: Pty Language Age/Gender VoiceName File Other Languages
+  parseVoices(output) {
+    return output
+      .split('\n')
+      .slice(1)
+      .map(line => line.trim().split(/\s+/))
+      .filter(columns => columns.length >= 4)
+      .map(([, language, , name]) => ({ id: language, name: name.replace(/_/g, ' '), language }));
+  }
+
+  getDefaultVoice() {
+    return process.env.ESPEAK_DEFAULT_VOICE ||
+      (this.voices.some(voice => voice.id === 'en-us') ? 'en-us' : super.getDefaultVoice());
+  }
+
+  async synthesize(text, outputPath, { voice, rate = 1 } = {}) {
+    await this.runCommand(this.command, [
+      '-v', voice,
+      '-s', String(Math.round(DEFAULT_WPM * rate)),
+      '-w', outputPath,
+      '--stdin'
+    ], { input: text });
+  }
+}
+
+module.exports = EspeakEngine;
@@ -0,0 +1,48 @@
+const fs = require('fs');
+const BaseEngine = require('./BaseEngine');
+
+const SAMPLE_RATE = 16000;
+
+// Deterministic engine for development and automated tests: writes silence
+// whose length depends only on the text and rate.
+class MockEngine extends BaseEngine {
+  constructor() {
+    super('mock', 'Mock');
+  }
+
+  async initialize() {
+    console.log('Mock TTS engine enabled (silent audio)');
+    this.isAvailable = true;
+    return this.isAvailable;
+  }
+
+  getVoices() {
+    return [{ id: 'mock', name: 'Mock', language: 'en' }];
+  }
+
+  async synthesize(text, outputPath, { rate = 1 } = {}) {
+    // About 0.4 seconds per word at normal speed
+    const words = (text.match(/\S+/g) || []).length;
+    const samples = Math.round(SAMPLE_RATE * Math.max(words, 1) * 0.4 / rate);
+    const dataSize = samples * 2;
+
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0);
+    header.writeUInt32LE(36 + dataSize, 4);
+    header.write('WAVE', 8);
+    header.write('fmt ', 12);
+    header.writeUInt32LE(16, 16); // PCM chunk size
+    header.writeUInt16LE(1, 20); // PCM
+    header.writeUInt16LE(1, 22); // Mono
+    header.writeUInt32LE(SAMPLE_RATE, 24);
+    header.writeUInt32LE(SAMPLE_RATE * 2, 28); // Byte rate
+    header.writeUInt16LE(2, 32); // Block align
+    header.writeUInt16LE(16, 34); // Bits per sample
+    header.write('data', 36);
+    header.writeUInt32LE(dataSize, 40);
+
+    await fs.promises.writeFile(outputPath, Buffer.concat([header, Buffer.alloc(dataSize)]));
+  }
+}
+
+module.exports = MockEngine;
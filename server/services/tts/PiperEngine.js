@@ -0,0 +1,64 @@
+const fs = require('fs');
+const path = require('path');
+const BaseEngine = require('./BaseEngine');
+
+// Piper neural TTS (https://github.com/rhasspy/piper). Each voice is an
+// .onnx model (with its .onnx.json config) in PIPER_VOICES_DIR.
+class PiperEngine extends BaseEngine {
+  constructor() {
+    super('piper', 'Piper');
+    this.command = process.env.PIPER_BIN || 'piper';
+    this.voicesDir = process.env.PIPER_VOICES_DIR || path.join(__dirname, '../../voices/piper');
+    this.voices = [];
+  }
+
+  async initialize() {
+    try {
+      await this.runCommand(this.command, ['--help'], { timeout: 5000 });
+
+      this.voices = fs.existsSync(this.voicesDir)
+        ? fs.readdirSync(this.voicesDir)
+          .filter(file => file.endsWith('.onnx'))
+          .map(file => {
+            const id = path.basename(file, '.onnx');
+            return { id, name: id, language: id.split('-')[0].replace('_', '-') };
+          })
+        : [];
+
+      if (this.voices.length === 0) {
+        throw new Error(`no voice models found in ${this.voicesDir}`);
+      }
+
+      this.isAvailable = true;
+      console.log(`Piper TTS available with ${this.voices.length} voice(s)`);
+    } catch (error) {
+      console.log('Piper TTS not available:', error.message);
+      this.isAvailable = false;
+    }
+    return this.isAvailable;
+  }
+
+  getVoices() {
+    return this.voices;
+  }
+
+  getDefaultVoice() {
+    return process.env.PIPER_DEFAULT_VOICE || super.getDefaultVoice();
+  }
+
+  async synthesize(text, outputPath, { voice, rate = 1 } = {}) {
+    const model = path.join(this.voicesDir, `${voice}.onnx`);
+    if (!fs.existsSync(model)) {
+      throw new Error(`Piper voice not found: ${voice}`);
+    }
+
+    // Piper's length scale is the inverse of speed
+    await this.runCommand(this.command, [
+      '--model', model,
+      '--output_file', outputPath,
+      '--length_scale', String(1 / rate)
+    ], { input: text });
+  }
+}
+
+module.exports = PiperEngine;
@@ -0,0 +1,36 @@
+const BaseEngine = require('./BaseEngine');
+const PiperEngine = require('./PiperEngine');
+const EspeakEngine = require('./EspeakEngine');
+const MockEngine = require('./MockEngine');
+
+// Registry of engine name -> engine class.
+// New engines only need to extend BaseEngine and be registered here.
+const registry = new Map();
+
+const registerEngine = (name, EngineClass) => {
+  if (!(EngineClass.prototype instanceof BaseEngine)) {
+    throw new Error(`TTS engine ${name} must extend BaseEngine`);
+  }
+  registry.set(name, EngineClass);
+};
+
+const createEngine = (name) => {
+  const EngineClass = registry.get(name);
+  if (!EngineClass) {
+    throw new Error(`Unknown TTS engine: ${name}`);
+  }
+  return new EngineClass();
+};
+
+const getRegisteredEngines = () => Array.from(registry.keys());
+
+registerEngine('piper', PiperEngine);
+registerEngine('espeak', EspeakEngine);
+registerEngine('mock', MockEngine);
+
+module.exports = {
+  BaseEngine,
+  registerEngine,
+  createEngine,
+  getRegisteredEngines
+};
@@ -0,0 +1,218 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const { createEngine, getRegisteredEngines } = require('./tts');
+const languageService = require('./languageService');
+
+const execFileAsync = promisify(execFile);
+
+// Generated speech lives next to uploaded voice messages so the existing
+// /api/chat/voice/:filename route serves both
+const VOICE_DIR = path.join(__dirname, '../uploads/voice');
+
+const MAX_TEXT_LENGTH = 5000;
+const MIN_RATE = 0.5;
+const MAX_RATE = 2;
+
+// Engines write WAV; other formats are converted with ffmpeg
+const FORMATS = {
+  wav: null,
+  mp3: ['-codec:a', 'libmp3lame', '-q:a', '4'],
+  ogg: ['-codec:a', 'libopus', '-b:a', '48k']
+};
+
+const badRequest = (message) => Object.assign(new Error(message), { statusCode: 400 });
+
+class TtsService {
+  constructor() {
+    // Ordered list of engines to try, e.g. TTS_ENGINES=piper,espeak,mock.
+    // The first available engine is used unless a request names another.
+    this.engineOrder = (process.env.TTS_ENGINES || 'piper,espeak')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+    this.engines = new Map();
+    this.ffmpeg = false;
+    // Syntheses in progress by file name, so identical requests share one run
+    this.inFlight = new Map();
+
+    this.initialized = this.initialize();
+  }
+
+  async initialize() {
+    for (const name of this.engineOrder) {
+      try {
+        const engine = createEngine(name);
+        if (await engine.initialize()) {
+          this.engines.set(name, engine);
+        }
+      } catch (error) {
+        console.log(`TTS engine ${name} could not be set up:`, error.message);
+      }
+    }
+
+    try {
+      await execFileAsync('ffmpeg', ['-version'], { timeout: 5000 });
+      this.ffmpeg = true;
+    } catch (error) {
+      console.log('ffmpeg not available, speech will only be generated as WAV');
+    }
+
+    if (this.engines.size === 0) {
+      console.log(`No TTS engine available (tried: ${this.engineOrder.join(', ')})`);
+    }
+  }
+
+  getFormats() {
+    return Object.keys(FORMATS).filter(format => format === 'wav' || this.ffmpeg);
+  }
+
+  async getStatus() {
+    await this.initialized;
+    const engines = Array.from(this.engines.values());
+
+    return {
+      available: engines.length > 0,
+      defaultEngine: engines[0]?.name || null,
+      engines: engines.map(engine => ({
+        name: engine.name,
+        displayName: engine.displayName,
+        defaultVoice: engine.getDefaultVoice(),
+        voices: engine.getVoices()
+      })),
+      registeredEngines: getRegisteredEngines(),
+      formats: this.getFormats(),
+      rate: { min: MIN_RATE, max: MAX_RATE, default: 1 },
+      maxTextLength: MAX_TEXT_LENGTH
+    };
+  }
+
+  // Voice of `engine` that speaks `language`: the exact variant if there is
+  // one (en-GB), otherwise any variant of the language (en-US)
+  findVoice(engine, language) {
+    const code = languageService.normalize(language);
+    if (!code) return null;
+
+    const voices = engine.getVoices();
+    const exact = voices.find(voice => languageService.normalize(voice.language) === code);
+    const base = languageService.baseLanguage(code);
+    return (exact || voices.find(voice => languageService.baseLanguage(voice.language) === base))?.id || null;
+  }
+
+  // Check a request and fill in defaults. Without a voice, the first engine
+  // with a voice for `language` is used. Throws errors with statusCode 400
+  // for input the caller should fix.
+  async resolveOptions(text, { engine: engineName, voice, rate = 1, format = 'mp3', language } = {}) {
+    await this.initialized;
+
+    const content = typeof text === 'string' ? text.trim() : '';
+    if (!content) {
+      throw badRequest('Text is required');
+    }
+    if (content.length > MAX_TEXT_LENGTH) {
+      throw badRequest(`Text can be at most ${MAX_TEXT_LENGTH} characters`);
+    }
+
+    const candidates = engineName
+      ? [this.engines.get(String(engineName).toLowerCase())].filter(Boolean)
+      : Array.from(this.engines.values());
+    const engine = (!voice && language && candidates.find(candidate => this.findVoice(candidate, language)))
+      || candidates[0];
+    if (!engine) {
+      throw Object.assign(
+        new Error(engineName ? `TTS engine not available: ${engineName}` : 'No text-to-speech engine available'),
+        { statusCode: engineName ? 400 : 503 }
+      );
+    }
+
+    const voiceId = voice || this.findVoice(engine, language) || engine.getDefaultVoice();
+    if (!engine.getVoices().some(available => available.id === voiceId)) {
+      throw badRequest(`Unknown voice for ${engine.displayName}: ${voiceId}`);
+    }
+
+    const speed = Number(rate);
+    if (!Number.isFinite(speed) || speed < MIN_RATE || speed > MAX_RATE) {
+      throw badRequest(`Rate must be between ${MIN_RATE} and ${MAX_RATE}`);
+    }
+
+    const outputFormat = String(format).toLowerCase();
+    if (!(outputFormat in FORMATS)) {
+      throw badRequest(`Format must be one of: ${Object.keys(FORMATS).join(', ')}`);
+    }
+
+    return {
+      text: content,
+      engine,
+      voice: voiceId,
+      rate: Math.round(speed * 100) / 100,
+      // Fall back to WAV rather than fail when ffmpeg is missing
+      format: this.getFormats().includes(outputFormat) ? outputFormat : 'wav'
+    };
+  }
+
+  // Speak `text` into an audio file in uploads/voice. The same text, engine,
+  // voice, rate and format always map to the same file, so repeat requests
+  // are answered from disk.
+  async synthesize(text, options = {}) {
+    const { text: content, engine, voice, rate, format } = await this.resolveOptions(text, options);
+
+    const hash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify([engine.name, voice, rate, format, content]))
+      .digest('hex')
+      .substring(0, 32);
+    const fileName = `tts-${hash}.${format}`;
+    const filePath = path.join(VOICE_DIR, fileName);
+
+    const result = {
+      fileName,
+      url: `/api/chat/voice/${fileName}`,
+      format,
+      engine: engine.name,
+      voice,
+      rate
+    };
+
+    if (fs.existsSync(filePath)) {
+      return { ...result, cached: true };
+    }
+
+    if (!this.inFlight.has(fileName)) {
+      const task = this.render(engine, content, filePath, { voice, rate, format })
+        .finally(() => this.inFlight.delete(fileName));
+      this.inFlight.set(fileName, task);
+    }
+    await this.inFlight.get(fileName);
+
+    return { ...result, cached: false };
+  }
+
+  // Write to temporary files and rename, so a half-written file is never served
+  async render(engine, text, filePath, { voice, rate, format }) {
+    await fs.promises.mkdir(VOICE_DIR, { recursive: true });
+    const temp = `${filePath}.${process.pid}-${Date.now()}.tmp`;
+    const wavPath = `${temp}.wav`;
+    const startTime = Date.now();
+
+    try {
+      await engine.synthesize(text, wavPath, { voice, rate });
+
+      if (format === 'wav') {
+        await fs.promises.rename(wavPath, filePath);
+      } else {
+        const output = `${temp}.${format}`;
+        await execFileAsync('ffmpeg', ['-y', '-loglevel', 'error', '-i', wavPath, ...FORMATS[format], output], { timeout: 60000 });
+        await fs.promises.rename(output, filePath);
+      }
+
+      console.log(`Synthesized ${text.length} characters with ${engine.displayName} (${voice}) in ${Date.now() - startTime}ms`);
+    } finally {
+      const leftovers = [wavPath, `${temp}.${format}`];
+      await Promise.all(leftovers.map(file => fs.promises.unlink(file).catch(() => {})));
+    }
+  }
+}
+
+module.exports = new TtsService();
@@ -0,0 +1,45 @@
+const aiService = require('./aiService');
+
+class VoiceService {
+  // Everything the server learns from a voice upload, in one pass: probe the
+  // file, transcribe it once, and build the Message metadata for it.
+  // `options` go to speech-to-text (language, languages); a `transcription`
+  // result the caller already has (talk mode) is used as is. Resolves with
+  // { metadata, transcription, language } where transcription is null when
+  // speech-to-text failed and language is the spoken language, if known.
+  async ingest(file, { transcription, ...options } = {}) {
+    const [audioInfo, transcriptionResult] = await Promise.all([
+      aiService.getAudioInfo(file.path),
+      transcription || aiService.transcribeAudio(file.path, options).catch(error => {
+        console.error('Voice transcription error:', error);
+        return { success: false, error: error.message, transcription: null };
+      })
+    ]);
+
+    const transcribed = transcriptionResult.success && transcriptionResult.transcription;
+    if (!transcribed) {
+      console.log('Voice transcription failed:', transcriptionResult.error);
+    }
+
+    return {
+      transcription: transcribed ? transcriptionResult.transcription : null,
+      language: transcribed ? transcriptionResult.language : null,
+      metadata: {
+        voicePath: file.path,
+        voiceFileName: file.filename,
+        voiceOriginalName: file.originalname,
+        voiceSize: file.size,
+        voiceMimeType: file.mimetype,
+        voiceDuration: audioInfo.duration,
+        voiceCodec: audioInfo.codec,
+        voiceSampleRate: audioInfo.sampleRate,
+        voiceTranscript: transcribed ? transcriptionResult.transcription : null,
+        voiceTranscriptConfidence: transcribed ? transcriptionResult.confidence : null,
+        voiceTranscriptTimings: transcribed ? transcriptionResult.timings : null,
+        voiceTranscriptEngine: transcribed ? transcriptionResult.engine : null
+      }
+    };
+  }
+}
+
+module.exports = new VoiceService();
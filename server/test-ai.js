@@ -47,9 +47,33 @@ class AITestSuite {
       // Test 5: Test text chat
       await this.testTextChat();
 
-      // Test 6: Test AI direct endpoints
+      // Test 6: Test streaming chat
+      await this.testStreamingChat();
+
+      // Test 7: Test AI direct endpoints
       await this.testAIEndpoints();
 
+      // Test 8: Page through the conversation
+      await this.testPagination();
+
+      // Test 9: Edit a message into a new branch and switch back
+      await this.testBranching();
+
+      // Test 10: Repeat a send with the same Idempotency-Key
+      await this.testIdempotentSend();
+
+      // Test 11: Search messages
+      await this.testSearch();
+
+      // Test 12: Usage analytics
+      await this.testAnalytics();
+
+      // Test 13: Prompt templates with typed variables
+      await this.testPromptTemplates();
+
+      // Test 14: Voice message transcription
+      await this.testVoiceMessage();
+
       await this.log('All tests completed successfully!', 'success');
 
     } catch (error) {
@@ -181,6 +205,47 @@ class AITestSuite {
     }
   }
 
+  async testStreamingChat() {
+    await this.log('Testing streaming chat (Server-Sent Events)...');
+    
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/api/chat/sessions/${this.sessionId}/messages?stream=true`,
+        { content: 'Count from one to five.' },
+        {
+          headers: { Authorization: `Bearer ${this.token}` },
+          responseType: 'text'
+        }
+      );
+
+      // Parse "event: <name>\ndata: <json>" blocks
+      const events = response.data
+        .split('\n\n')
+        .filter(block => block.trim())
+        .map(block => {
+          const [eventLine, dataLine] = block.split('\n');
+          return {
+            event: eventLine.replace('event: ', ''),
+            data: JSON.parse(dataLine.replace('data: ', ''))
+          };
+        });
+
+      const eventNames = events.map(e => e.event);
+      const tokens = events.filter(e => e.event === 'token').length;
+      const aiMessage = events.find(e => e.event === 'ai_message');
+
+      if (eventNames[0] === 'user_message' && aiMessage && eventNames.includes('done')) {
+        await this.log('Streaming chat successful', 'success');
+        await this.log(`Token events received: ${tokens}`);
+        await this.log(`AI response: ${aiMessage.data.aiResponse.content}`);
+      } else {
+        throw new Error(`Unexpected event sequence: ${eventNames.join(', ')}`);
+      }
+    } catch (error) {
+      throw new Error(`Streaming chat test failed: ${error.message}`);
+    }
+  }
+
   async testAIEndpoints() {
     await this.log('Testing direct AI endpoints...');
     
@@ -219,6 +284,289 @@ class AITestSuite {
       await this.log(`AI endpoints test failed: ${error.message}`, 'warning');
     }
   }
+
+  authHeaders() {
+    return { Authorization: `Bearer ${this.token}` };
+  }
+
+  async getMessages(query = '') {
+    const response = await axios.get(
+      `${API_BASE_URL}/api/chat/sessions/${this.sessionId}/messages${query}`,
+      { headers: this.authHeaders() }
+    );
+    return response.data;
+  }
+
+  async testPagination() {
+    await this.log('Testing message pagination...');
+
+    try {
+      const newest = await this.getMessages('?limit=2');
+      if (newest.count !== 2 || !newest.pagination.hasOlder || newest.pagination.hasNewer) {
+        throw new Error(`Unexpected newest page: ${newest.count} messages, ${JSON.stringify(newest.pagination)}`);
+      }
+
+      const older = await this.getMessages(`?limit=2&before=${newest.data[0]._id}`);
+      const olderIds = older.data.map(message => message._id);
+      if (older.count === 0 || olderIds.includes(newest.data[0]._id)) {
+        throw new Error('Older page is empty or overlaps the newest page');
+      }
+      if (older.data[older.count - 1]._id !== newest.data[0].parent) {
+        throw new Error('Older page does not end at the parent of the newest page');
+      }
+
+      const newer = await this.getMessages(`?limit=2&after=${olderIds[olderIds.length - 1]}`);
+      if (newer.data[0]?._id !== newest.data[0]._id) {
+        throw new Error('Paging forward does not return to the newest page');
+      }
+
+      try {
+        await this.getMessages(`?before=${newest.data[0]._id}&after=${newest.data[1]._id}`);
+        throw new Error('Two cursors should be rejected');
+      } catch (error) {
+        if (error.response?.status !== 400) throw error;
+      }
+
+      await this.log('Pagination successful', 'success');
+    } catch (error) {
+      throw new Error(`Pagination test failed: ${error.message}`);
+    }
+  }
+
+  async testBranching() {
+    await this.log('Testing message editing and branches...');
+
+    try {
+      const { data: messages } = await this.getMessages('?limit=100');
+      const originalLeaf = messages[messages.length - 1];
+      const firstUserMessage = messages.find(message => message.isUserMessage);
+
+      const editResponse = await axios.put(
+        `${API_BASE_URL}/api/chat/sessions/${this.sessionId}/messages/${firstUserMessage._id}`,
+        { content: 'Hello AI! Tell me a fact instead.' },
+        { headers: this.authHeaders() }
+      );
+      const { userMessage, aiResponse } = editResponse.data.data;
+      if (userMessage.parent !== (firstUserMessage.parent ?? null) || aiResponse.parent !== userMessage._id) {
+        throw new Error('Edited message is not a sibling of the original');
+      }
+
+      const branchesResponse = await axios.get(
+        `${API_BASE_URL}/api/chat/sessions/${this.sessionId}/branches`,
+        { headers: this.authHeaders() }
+      );
+      const branches = branchesResponse.data.data;
+      const active = branches.filter(branch => branch.isActive);
+      if (branches.length < 2 || active.length !== 1 || active[0].leafId !== aiResponse._id) {
+        throw new Error(`Unexpected branches: ${JSON.stringify(branches)}`);
+      }
+
+      const switchResponse = await axios.put(
+        `${API_BASE_URL}/api/chat/sessions/${this.sessionId}/branches/active`,
+        { messageId: firstUserMessage._id },
+        { headers: this.authHeaders() }
+      );
+      const switched = switchResponse.data.data.messages;
+      if (switched[switched.length - 1]._id !== originalLeaf._id) {
+        throw new Error('Switching back did not restore the original branch');
+      }
+
+      await this.log(`Branching successful (${branches.length} branches)`, 'success');
+    } catch (error) {
+      throw new Error(`Branching test failed: ${error.message}`);
+    }
+  }
+
+  async testIdempotentSend() {
+    await this.log('Testing repeated sends with an Idempotency-Key...');
+
+    try {
+      const idempotencyKey = `test-${Date.now()}`;
+      const send = () => axios.post(
+        `${API_BASE_URL}/api/chat/sessions/${this.sessionId}/messages`,
+        { content: 'Please say hello once.' },
+        { headers: { ...this.authHeaders(), 'Idempotency-Key': idempotencyKey } }
+      );
+
+      const first = await send();
+      const repeat = await send();
+
+      if (first.status !== 201 || repeat.status !== 200) {
+        throw new Error(`Expected 201 then 200, got ${first.status} then ${repeat.status}`);
+      }
+      if (repeat.data.data.userMessage._id !== first.data.data.userMessage._id ||
+          repeat.data.data.aiResponse._id !== first.data.data.aiResponse._id) {
+        throw new Error('The repeated send saved new messages');
+      }
+
+      await this.log('Repeated send returned the saved messages', 'success');
+    } catch (error) {
+      throw new Error(`Idempotency test failed: ${error.message}`);
+    }
+  }
+
+  async testSearch() {
+    await this.log('Testing message search...');
+
+    try {
+      const searchWord = `zephyr${Date.now()}`;
+      await axios.post(
+        `${API_BASE_URL}/api/chat/sessions/${this.sessionId}/messages`,
+        { content: `Remember the word ${searchWord}.` },
+        { headers: this.authHeaders() }
+      );
+
+      const response = await axios.get(`${API_BASE_URL}/api/chat/search`, {
+        params: { q: searchWord },
+        headers: this.authHeaders()
+      });
+
+      const match = response.data.data.find(result => result.isUserMessage);
+      if (!match || match.sessionId !== this.sessionId || !match.snippet.includes(searchWord)) {
+        throw new Error(`Message with "${searchWord}" not found`);
+      }
+
+      try {
+        await axios.get(`${API_BASE_URL}/api/chat/search`, { params: { q: ' ' }, headers: this.authHeaders() });
+        throw new Error('An empty query should be rejected');
+      } catch (error) {
+        if (error.response?.status !== 400) throw error;
+      }
+
+      await this.log(`Search successful (${response.data.pagination.total} results)`, 'success');
+    } catch (error) {
+      throw new Error(`Search test failed: ${error.message}`);
+    }
+  }
+
+  async testAnalytics() {
+    await this.log('Testing usage analytics...');
+
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/chat/analytics`, {
+        params: { interval: 'day' },
+        headers: this.authHeaders()
+      });
+
+      const { totals, messageTypes, activity } = response.data.data;
+      if (totals.userMessages < 1 || totals.aiMessages < 1 || totals.sessions < 1) {
+        throw new Error(`Unexpected totals: ${JSON.stringify(totals)}`);
+      }
+      if (!messageTypes.some(entry => entry.type === 'text') || activity.length === 0) {
+        throw new Error('Message types or activity missing');
+      }
+
+      try {
+        await axios.get(`${API_BASE_URL}/api/chat/analytics`, { params: { interval: 'hour' }, headers: this.authHeaders() });
+        throw new Error('An unknown interval should be rejected');
+      } catch (error) {
+        if (error.response?.status !== 400) throw error;
+      }
+
+      await this.log(`Analytics successful (${totals.messages} messages)`, 'success');
+    } catch (error) {
+      throw new Error(`Analytics test failed: ${error.message}`);
+    }
+  }
+
+  async testPromptTemplates() {
+    await this.log('Testing prompt templates with variables...');
+
+    const created = [];
+    const createTemplate = async (data) => {
+      const response = await axios.post(`${API_BASE_URL}/api/prompt-templates`, {
+        description: 'Created by the test suite',
+        category: 'custom',
+        ...data,
+        name: `${data.name} ${Date.now()}`
+      }, { headers: this.authHeaders() });
+      created.push(response.data.data._id);
+      return response.data.data;
+    };
+    const sendWith = (template, templateVariables) => axios.post(
+      `${API_BASE_URL}/api/chat/sessions/${this.sessionId}/messages`,
+      { content: 'What is a rainbow?', promptTemplateId: template._id, templateVariables },
+      { headers: this.authHeaders() }
+    );
+
+    try {
+      // Braces without declared variables are plain text
+      const jsonTemplate = await createTemplate({
+        name: 'JSON answer',
+        template: 'Answer {prompt} as JSON like {"answer": "..."}'
+      });
+      if (jsonTemplate.variables.length !== 0) {
+        throw new Error('Braces were taken for variables');
+      }
+
+      try {
+        await createTemplate({ name: 'Unused', template: 'Answer {prompt}', variables: [{ name: 'audience' }] });
+        throw new Error('A variable the text does not use should be rejected');
+      } catch (error) {
+        if (error.response?.status !== 400) throw error;
+      }
+
+      const template = await createTemplate({
+        name: 'Audience',
+        template: 'Answer {prompt} for {audience}, keep it {length}.',
+        variables: [
+          { name: 'audience' },
+          { name: 'length', type: 'enum', options: ['short', 'long'], default: 'short' }
+        ]
+      });
+
+      try {
+        await sendWith(template, {});
+        throw new Error('A missing required value should be rejected');
+      } catch (error) {
+        if (error.response?.status !== 400) throw error;
+      }
+
+      const response = await sendWith(template, { audience: 'children' });
+      const values = response.data.data.aiResponse.metadata.promptTemplate?.variables;
+      if (values?.audience !== 'children' || values?.length !== 'short') {
+        throw new Error(`Unexpected template values: ${JSON.stringify(values)}`);
+      }
+
+      await this.log('Prompt template variables successful', 'success');
+    } catch (error) {
+      throw new Error(`Prompt template test failed: ${error.message}`);
+    } finally {
+      await Promise.all(created.map(id => axios.delete(
+        `${API_BASE_URL}/api/prompt-templates/${id}`,
+        { headers: this.authHeaders() }
+      ).catch(() => {})));
+    }
+  }
+
+  // Needs the server started with STT_ENGINES=fake (fixtures in fixtures/stt)
+  async testVoiceMessage() {
+    await this.log('Testing voice message transcription...');
+
+    try {
+      const fixture = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures/stt/hello.json'), 'utf8'));
+      const form = new FormData();
+      form.append('voice', new Blob([fs.readFileSync(path.join(__dirname, 'fixtures/stt/hello.wav'))], { type: 'audio/wav' }), 'hello.wav');
+      form.append('messageType', 'voice');
+
+      const response = await axios.post(
+        `${API_BASE_URL}/api/chat/sessions/${this.sessionId}/messages`,
+        form,
+        { headers: this.authHeaders() }
+      );
+
+      const { userMessage } = response.data.data;
+      if (userMessage.messageType !== 'voice') {
+        throw new Error(`Expected a voice message, got ${userMessage.messageType}`);
+      }
+      if (userMessage.content !== fixture.transcription) {
+        throw new Error(`Expected "${fixture.transcription}", got "${userMessage.content}"; is the server running with STT_ENGINES=fake?`);
+      }
+      await this.log('Voice message transcribed by the fixture engine', 'success');
+    } catch (error) {
+      throw new Error(`Voice message test failed: ${error.message}`);
+    }
+  }
 }
 
 // Run tests if called directly
@@ -0,0 +1,142 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Transcribe with the fixture engine only; no model, network or ffmpeg needed
+process.env.STT_ENGINES = 'fake';
+process.env.STT_FIXTURES_DIR = path.join(__dirname, 'fixtures/stt');
+
+const sttService = require('./services/sttService');
+
+const FIXTURES_DIR = process.env.STT_FIXTURES_DIR;
+const HELLO_RECORDING = path.join(FIXTURES_DIR, 'hello.wav');
+
+class SttTestSuite {
+  async log(message, type = 'info') {
+    const timestamp = new Date().toISOString();
+    const prefix = {
+      info: 'INFO',
+      success: 'SUCCESS',
+      error: 'ERROR',
+      warning: 'WARNING'
+    };
+    console.log(`[${prefix[type]}] [${timestamp}] ${message}`);
+  }
+
+  async runTests() {
+    await this.log('Starting EchoMind Speech-to-Text Test Suite');
+    console.log('=====================================\n');
+
+    try {
+      // Test 1: The fixture engine is set up
+      await this.testFakeEngineStatus();
+
+      // Test 2: A recording with a JSON fixture
+      await this.testFixtureTranscription();
+
+      // Test 3: A recording without a fixture of its own
+      await this.testDefaultFixture();
+
+      // Test 4: The language the user says they speak wins
+      await this.testLanguageOverride();
+
+      // Test 5: Missing recordings fail cleanly
+      await this.testMissingRecording();
+
+      await this.log('All speech-to-text tests completed successfully!', 'success');
+    } catch (error) {
+      await this.log(`Test suite failed: ${error.message}`, 'error');
+      process.exit(1);
+    }
+  }
+
+  async testFakeEngineStatus() {
+    await this.log('Testing speech-to-text status...');
+
+    const status = await sttService.getStatus();
+    const engineNames = status.engines.map(engine => engine.name);
+
+    if (!status.available || engineNames.join(',') !== 'fake') {
+      throw new Error(`Expected only the fake engine, got: ${engineNames.join(', ') || 'none'}`);
+    }
+    await this.log('Fake engine is available', 'success');
+  }
+
+  async testFixtureTranscription() {
+    await this.log('Testing transcription from a JSON fixture...');
+
+    const result = await sttService.transcribe(HELLO_RECORDING);
+    const fixture = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'hello.json'), 'utf8'));
+
+    if (!result.success) {
+      throw new Error(`Transcription failed: ${result.error}`);
+    }
+    if (result.transcription !== fixture.transcription || result.engine !== 'fake') {
+      throw new Error(`Unexpected transcription "${result.transcription}" from ${result.engine}`);
+    }
+    if (result.confidence !== fixture.confidence || result.language !== fixture.language) {
+      throw new Error(`Unexpected confidence ${result.confidence} or language ${result.language}`);
+    }
+    if (result.timings?.length !== fixture.timings.length || result.timings[0].text !== 'Hello,') {
+      throw new Error(`Unexpected word timings: ${JSON.stringify(result.timings)}`);
+    }
+
+    await this.log('Fixture transcription successful', 'success');
+    await this.log(`Transcription: ${result.transcription} (${result.language})`);
+  }
+
+  async testDefaultFixture() {
+    await this.log('Testing the default fixture...');
+
+    const recordingPath = path.join(os.tmpdir(), `stt-test-${Date.now()}.wav`);
+    fs.copyFileSync(HELLO_RECORDING, recordingPath);
+
+    try {
+      const result = await sttService.transcribe(recordingPath);
+      const expected = fs.readFileSync(path.join(FIXTURES_DIR, 'default.txt'), 'utf8').trim();
+
+      if (!result.success || result.transcription !== expected) {
+        throw new Error(`Expected "${expected}", got "${result.transcription}" (${result.error || 'no error'})`);
+      }
+      if (result.timings !== null) {
+        throw new Error('Text fixtures have no word timings');
+      }
+      await this.log('Default fixture used for an unknown recording', 'success');
+    } finally {
+      fs.unlinkSync(recordingPath);
+    }
+  }
+
+  async testLanguageOverride() {
+    await this.log('Testing a given language...');
+
+    const result = await sttService.transcribe(HELLO_RECORDING, { language: 'en-GB' });
+
+    if (!result.success || result.language !== 'en-GB') {
+      throw new Error(`Expected language en-GB, got ${result.language}`);
+    }
+    await this.log('Given language kept', 'success');
+  }
+
+  async testMissingRecording() {
+    await this.log('Testing a missing recording...');
+
+    const result = await sttService.transcribe(path.join(FIXTURES_DIR, 'missing.wav'));
+
+    if (result.success || !result.error) {
+      throw new Error('Transcribing a missing file should fail');
+    }
+    await this.log(`Missing recording rejected: ${result.error}`, 'success');
+  }
+}
+
+// Run tests if called directly
+if (require.main === module) {
+  const testSuite = new SttTestSuite();
+  testSuite.runTests().catch(error => {
+    console.error('Test suite failed:', error);
+    process.exit(1);
+  });
+}
+
+module.exports = SttTestSuite;